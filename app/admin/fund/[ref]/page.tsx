@@ -0,0 +1,244 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import React, { useCallback, useEffect, useState } from "react";
+import { FUND_STATUS_TABLE, type FundStatus } from "../../../lib/fund/status";
+import { adminAction, fmtDate } from "../admin-api";
+
+type TimelineEntry = {
+  at: string;
+  source: string;
+  label: string;
+  status?: string | null;
+  actor?: string | null;
+  tx_hash?: string | null;
+  chain?: string | null;
+  detail?: string | null;
+};
+
+type OpenRefund = { id: string; to_address: string; amount_usdt: number | string; status: string; created_at: string };
+
+type TimelineResp = {
+  position: Record<string, unknown> & {
+    position_ref: string;
+    status: FundStatus;
+    chain: string;
+    token: string;
+    issued_deposit_address: string;
+    funded_usdt: number | string | null;
+  };
+  actions: string[];
+  open_refunds: OpenRefund[];
+  explorers: Record<string, string>;
+  entries: TimelineEntry[];
+};
+
+export default function FundAdminPositionPage() {
+  const params = useParams<{ ref: string }>();
+  const ref = decodeURIComponent(String(params?.ref ?? ""));
+
+  const [data, setData] = useState<TimelineResp | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/fund/admin/timeline?ref=${encodeURIComponent(ref)}`, { cache: "no-store" });
+    if (res.status === 401) {
+      window.location.href = "/admin/login";
+      return;
+    }
+    const j = await res.json().catch(() => ({}));
+    if (!j?.ok) throw new Error(j?.error ?? "Failed to load timeline");
+    setData(j as TimelineResp);
+  }, [ref]);
+
+  useEffect(() => {
+    if (ref) load().catch((e) => setError(e?.message ?? String(e)));
+  }, [ref, load]);
+
+  async function act(body: Record<string, unknown>, confirmText: string) {
+    if (!window.confirm(confirmText)) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const j = await adminAction(body);
+      if (j.action === "reconcile") setNotice(`Reconcile ${j.mode}: ${j.drifts?.length ?? 0} drift(s)`);
+      else if (j.action === "resolve_flagged") setNotice(`Flag resolved: ${j.status}`);
+      else if (j.refund) setNotice(`Refund ${j.refund.status}`);
+      else if (j.job) setNotice(`${j.job.kind} job ${j.job.status}`);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // the audit note lands in the status history
+  async function resolveFlag(positionRef: string) {
+    const to = window.prompt("Resolve to: swept_locked (clear the flag) or withdrawing (retry settlement)", "swept_locked")?.trim();
+    if (!to) return;
+    const note = window.prompt("Audit note: why the flag is cleared")?.trim();
+    if (!note) return;
+    // only for a failed sweep cross-check: the amount the treasury actually received
+    const fundedUsdt = to === "swept_locked" ? window.prompt("Corrected funded_usdt (leave empty to keep it)")?.trim() : "";
+    if (fundedUsdt === undefined) return;
+    await act(
+      { action: "resolve_flagged", ref: positionRef, to, note, ...(fundedUsdt ? { funded_usdt: fundedUsdt } : {}) },
+      `Move ${positionRef} from flagged to ${to}?`
+    );
+  }
+
+  function txHref(e: TimelineEntry) {
+    const base = e.chain ? data?.explorers[e.chain] : null;
+    return base && e.tx_hash ? `${base}/tx/${e.tx_hash}` : null;
+  }
+
+  const pos = data?.position;
+
+  return (
+    <div className="space-y-4">
+      <Link href="/admin/fund" className="text-[12px] text-slate-400 hover:underline">
+        ← All positions
+      </Link>
+
+      {error ? <div className="rounded-lg border border-red-900/60 bg-red-950/30 p-3 text-[12px] text-red-200">{error}</div> : null}
+      {notice ? <div className="rounded-lg border border-slate-800/60 bg-slate-950/30 p-3 text-[12px] text-slate-200">{notice}</div> : null}
+
+      {pos ? (
+        <section className="rounded-lg border border-slate-800/60 bg-slate-950/30 p-3">
+          <div className="flex items-center justify-between text-[12px]">
+            <div className="text-sm font-semibold text-slate-100 font-mono">{pos.position_ref}</div>
+            <span className="rounded-full border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-300">
+              {FUND_STATUS_TABLE[pos.status]?.title ?? pos.status}
+            </span>
+          </div>
+          <div className="mt-2 text-[12px] text-slate-400">
+            {String(pos.token).toUpperCase()} on {pos.chain} · deposit <span className="font-mono text-slate-200">{pos.issued_deposit_address}</span>
+            {pos.funded_usdt != null ? <> · funded {Number(pos.funded_usdt).toFixed(2)}</> : null}
+          </div>
+
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              disabled={busy || !data.actions.includes("retry_sweep")}
+              onClick={() => act({ action: "retry_sweep", ref: pos.position_ref }, `Retry sweep for ${pos.position_ref}?`)}
+              className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+            >
+              Retry sweep
+            </button>
+            <button
+              type="button"
+              disabled={busy || !data.actions.includes("retry_mint")}
+              onClick={() => act({ action: "retry_mint", ref: pos.position_ref }, `Retry mint for ${pos.position_ref}?`)}
+              className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+            >
+              Retry mint
+            </button>
+            {pos.status === "flagged" ? (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => void resolveFlag(pos.position_ref)}
+                className="rounded-md border border-amber-900/60 bg-amber-950/30 px-3 py-2 text-[12px] text-amber-100 hover:bg-amber-950/50 disabled:opacity-60"
+              >
+                Resolve flag
+              </button>
+            ) : null}
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => act({ action: "reconcile", mode: "dry_run", ref: pos.position_ref }, `Dry-run reconciliation for ${pos.position_ref}?`)}
+              className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+            >
+              Reconcile (dry run)
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() =>
+                act(
+                  { action: "reconcile", mode: "execute", ref: pos.position_ref },
+                  `Execute reconciliation for ${pos.position_ref}? Drift is burned or topped up on-chain.`
+                )
+              }
+              className="rounded-md border border-amber-900/60 bg-amber-950/30 px-3 py-2 text-[12px] text-amber-100 hover:bg-amber-950/50 disabled:opacity-60"
+            >
+              Reconcile (execute)
+            </button>
+          </div>
+
+          {data.open_refunds.map((r) => (
+            <div key={r.id} className="mt-2 flex items-center justify-between text-[12px]">
+              <span className="text-slate-400">
+                refund {Number(r.amount_usdt).toFixed(2)} to <span className="font-mono text-slate-200">{r.to_address}</span> ({r.status})
+              </span>
+              <span className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => act({ action: "approve_refund", id: r.id }, `Send ${r.amount_usdt} back to ${r.to_address}?`)}
+                  className="rounded-md border border-amber-900/60 bg-amber-950/30 px-2 py-1 text-[11px] text-amber-100 hover:bg-amber-950/50 disabled:opacity-60"
+                >
+                  {r.status === "approved" ? "Retry send" : "Approve & send"}
+                </button>
+                {r.status === "requested" ? (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => {
+                      const reason = window.prompt("Reject reason:");
+                      if (reason?.trim()) act({ action: "reject_refund", id: r.id, reason: reason.trim() }, "Reject this refund request?");
+                    }}
+                    className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+                  >
+                    Reject
+                  </button>
+                ) : null}
+              </span>
+            </div>
+          ))}
+        </section>
+      ) : null}
+
+      {data ? (
+        <section className="rounded-lg border border-slate-800/60 bg-slate-950/30 p-3">
+          <div className="text-sm font-semibold text-slate-100">Timeline</div>
+          <table className="mt-2 w-full text-[12px]">
+            <tbody>
+              {data.entries.map((e, i) => {
+                const href = txHref(e);
+                return (
+                  <tr key={i} className="border-t border-slate-800/60 align-top">
+                    <td className="py-2 pr-4 whitespace-nowrap text-slate-500">{fmtDate(e.at)}</td>
+                    <td className="py-2 pr-4 text-slate-500">{e.source}</td>
+                    <td className="py-2 pr-4">
+                      <div className="text-slate-200">{e.label}</div>
+                      {e.detail ? <div className="text-[11px] text-slate-500">{e.detail}</div> : null}
+                      {e.tx_hash ? (
+                        <div className="font-mono text-[11px] text-slate-400">
+                          {href ? (
+                            <a href={href} target="_blank" rel="noreferrer" className="hover:underline">
+                              {e.tx_hash}
+                            </a>
+                          ) : (
+                            e.tx_hash
+                          )}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-400">{e.status ?? ""}</td>
+                    <td className="py-2 pr-4 text-slate-500">{e.actor ?? ""}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+// Browser helpers shared by the /admin/fund pages.
+
+// The parts of an action response the console reads; the rest depends on the action
+export type AdminActionResult = Record<string, unknown> & {
+  action?: string;
+  mode?: string;
+  status?: string;
+  scanned?: number;
+  drifts?: unknown[];
+  refund?: { position_ref: string; status: string };
+  job?: { kind: string; status: string };
+};
+
+// POST /api/fund/admin/actions; a lost session sends the operator back to the login page
+export async function adminAction(body: Record<string, unknown>): Promise<AdminActionResult> {
+  const res = await fetch("/api/fund/admin/actions", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const j = await res.json().catch(() => ({}));
+  if (res.status === 401) window.location.href = "/admin/login";
+  if (!res.ok || !j?.ok) throw new Error(j?.error ?? (j?.paused ? "Paused for maintenance" : "Action failed"));
+  return j;
+}
+
+export function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString();
+}
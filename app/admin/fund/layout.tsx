@@ -0,0 +1,29 @@
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { OPERATOR_COOKIE, verifyOperatorToken } from "../../lib/fund/operator-auth";
+
+export const dynamic = "force-dynamic";
+
+// Every /admin/fund page needs a valid operator session; the API routes check it again.
+export default async function FundAdminLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  const jar = await cookies();
+  const session = verifyOperatorToken(jar.get(OPERATOR_COOKIE)?.value);
+  if (!session) redirect("/admin/login");
+
+  return (
+    <main className="min-h-screen w-full overflow-x-hidden bg-[#0b0f14] text-slate-200">
+      <div className="mx-auto max-w-6xl px-4 py-6">
+        <div className="mb-4 flex items-center justify-between text-[12px]">
+          <Link href="/admin/fund" className="text-sm font-semibold text-slate-100">
+            Fund operator console
+          </Link>
+          <span className="text-slate-500">
+            signed in as <span className="font-mono text-slate-200">{session.operator}</span>
+          </span>
+        </div>
+        {children}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+import { FUND_STATUS_TABLE, type FundStatus } from "../../lib/fund/status";
+import { adminAction, fmtDate } from "./admin-api";
+
+type AdminPosition = {
+  id: string;
+  position_ref: string;
+  status: FundStatus;
+  chain: string;
+  token: string;
+  issued_deposit_address: string;
+  terminal_user_id?: string | null;
+  funded_usdt?: number | string | null;
+  created_at: string;
+  actions: string[];
+};
+
+type Refund = {
+  id: string;
+  position_ref: string;
+  to_address: string;
+  amount_usdt: number | string;
+  status: string;
+  created_at: string;
+};
+
+type Drift = {
+  position_ref: string;
+  drift_usddd: number;
+  direction: string;
+  action: string;
+  status: string;
+  tx_hash: string | null;
+  error: string | null;
+};
+
+type ReconcileRun = { run_id: string; mode: string; scanned: number; in_sync: number; drifts: Drift[] };
+
+const PAGE_SIZE = 50;
+const STATUSES = Object.keys(FUND_STATUS_TABLE) as FundStatus[];
+
+export default function FundAdminPage() {
+  const [status, setStatus] = useState<FundStatus | "">("");
+  const [chain, setChain] = useState("");
+  const [q, setQ] = useState("");
+  const [offset, setOffset] = useState(0);
+
+  const [positions, setPositions] = useState<AdminPosition[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<FundStatus, number>>>({});
+  const [total, setTotal] = useState(0);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [chains, setChains] = useState<string[]>([]);
+  const [run, setRun] = useState<ReconcileRun | null>(null);
+
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadPositions = useCallback(async () => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+    if (status) params.set("status", status);
+    if (chain) params.set("chain", chain);
+    if (q.trim()) params.set("q", q.trim());
+
+    const res = await fetch(`/api/fund/admin/positions?${params}`, { cache: "no-store" });
+    if (res.status === 401) {
+      window.location.href = "/admin/login";
+      return;
+    }
+    const j = await res.json().catch(() => ({}));
+    if (!j?.ok) throw new Error(j?.error ?? "Failed to load positions");
+    setPositions(j.positions ?? []);
+    setCounts(j.counts ?? {});
+    setTotal(Number(j.total ?? 0));
+  }, [status, chain, q, offset]);
+
+  const loadRefunds = useCallback(async () => {
+    const res = await fetch("/api/fund/refunds?status=requested", { cache: "no-store" });
+    const j = await res.json().catch(() => ({}));
+    if (!j?.ok) throw new Error(j?.error ?? "Failed to load refunds");
+    setRefunds(j.refunds ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadPositions().catch((e) => setError(e?.message ?? String(e)));
+  }, [loadPositions]);
+
+  useEffect(() => {
+    fetch("/api/fund/assets", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => setChains(Array.from(new Set<string>((j?.assets ?? []).map((a: { chain: string }) => a.chain)))))
+      .catch(() => null);
+  }, []);
+
+  useEffect(() => {
+    loadRefunds().catch((e) => setError(e?.message ?? String(e)));
+  }, [loadRefunds]);
+
+  async function act(key: string, body: Record<string, unknown>, confirmText: string) {
+    if (!window.confirm(confirmText)) return;
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const j = await adminAction(body);
+      if (j.action === "reconcile") {
+        setRun(j as ReconcileRun);
+        setNotice(`Reconcile ${j.mode}: ${j.scanned} scanned, ${j.drifts?.length ?? 0} drift(s)`);
+      } else if (j.refund) {
+        setNotice(`Refund ${j.refund.position_ref}: ${j.refund.status}`);
+      } else if (j.job) {
+        setNotice(`${j.job.kind} job ${j.job.status}`);
+      }
+      await Promise.all([loadPositions(), loadRefunds()]);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function rejectRefund(r: Refund) {
+    const reason = window.prompt(`Reject refund of ${r.amount_usdt} for ${r.position_ref}? Reason:`);
+    if (!reason?.trim()) return;
+    act(`reject:${r.id}`, { action: "reject_refund", id: r.id, reason: reason.trim() }, "Reject this refund request?");
+  }
+
+  async function logout() {
+    await fetch("/api/fund/admin/session", { method: "DELETE" }).catch(() => null);
+    window.location.href = "/admin/login";
+  }
+
+  return (
+    <div className="space-y-4">
+      {error ? <div className="rounded-lg border border-red-900/60 bg-red-950/30 p-3 text-[12px] text-red-200">{error}</div> : null}
+      {notice ? <div className="rounded-lg border border-slate-800/60 bg-slate-950/30 p-3 text-[12px] text-slate-200">{notice}</div> : null}
+
+      <section className="rounded-lg border border-slate-800/60 bg-slate-950/30 p-3">
+        <div className="flex items-center justify-between text-[12px]">
+          <div className="text-sm font-semibold text-slate-100">Positions</div>
+          <button
+            type="button"
+            onClick={logout}
+            className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-950/70"
+          >
+            Sign out
+          </button>
+        </div>
+
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setStatus("");
+              setOffset(0);
+            }}
+            className={`rounded-full border px-2 py-1 text-[11px] ${status === "" ? "border-slate-500 text-slate-100" : "border-slate-800 text-slate-400"}`}
+          >
+            All
+          </button>
+          {STATUSES.map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => {
+                setStatus(s);
+                setOffset(0);
+              }}
+              className={`rounded-full border px-2 py-1 text-[11px] ${status === s ? "border-slate-500 text-slate-100" : "border-slate-800 text-slate-400"}`}
+            >
+              {FUND_STATUS_TABLE[s].title} <span className="text-slate-500">{counts[s] ?? 0}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <input
+            value={q}
+            onChange={(e) => {
+              setQ(e.target.value);
+              setOffset(0);
+            }}
+            placeholder="ref, deposit address or user id"
+            className="w-64 rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200"
+          />
+          <select
+            value={chain}
+            onChange={(e) => {
+              setChain(e.target.value);
+              setOffset(0);
+            }}
+            className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200"
+          >
+            <option value="">All chains</option>
+            {chains.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-[12px]">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="py-2 pr-4 text-left font-medium">Ref</th>
+                <th className="py-2 pr-4 text-left font-medium">Status</th>
+                <th className="py-2 pr-4 text-left font-medium">Asset</th>
+                <th className="py-2 pr-4 text-right font-medium">Funded</th>
+                <th className="py-2 pr-4 text-left font-medium">Created</th>
+                <th className="py-2 pr-4 text-right font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map((p) => (
+                <tr key={p.id} className="border-t border-slate-800/60">
+                  <td className="py-2 pr-4">
+                    <Link href={`/admin/fund/${encodeURIComponent(p.position_ref)}`} className="font-mono text-slate-200 hover:underline">
+                      {p.position_ref}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4">{FUND_STATUS_TABLE[p.status]?.title ?? p.status}</td>
+                  <td className="py-2 pr-4 text-slate-400">
+                    {p.token.toUpperCase()} / {p.chain}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{p.funded_usdt != null ? Number(p.funded_usdt).toFixed(2) : "—"}</td>
+                  <td className="py-2 pr-4 text-slate-400">{fmtDate(p.created_at)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {p.actions.includes("retry_sweep") ? (
+                      <button
+                        type="button"
+                        disabled={busy !== null}
+                        onClick={() => act(`sweep:${p.id}`, { action: "retry_sweep", ref: p.position_ref }, `Retry sweep for ${p.position_ref}?`)}
+                        className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+                      >
+                        Retry sweep
+                      </button>
+                    ) : null}
+                    {p.actions.includes("retry_mint") ? (
+                      <button
+                        type="button"
+                        disabled={busy !== null}
+                        onClick={() => act(`mint:${p.id}`, { action: "retry_mint", ref: p.position_ref }, `Retry mint for ${p.position_ref}?`)}
+                        className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+                      >
+                        Retry mint
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+              {positions.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-4 text-center text-slate-500">
+                    No positions
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-2 flex items-center justify-between text-[12px] text-slate-400">
+          <span>
+            {total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <span className="flex gap-2">
+            <button
+              type="button"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+            >
+              Prev
+            </button>
+            <button
+              type="button"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+            >
+              Next
+            </button>
+          </span>
+        </div>
+      </section>
+
+      <section className="rounded-lg border border-slate-800/60 bg-slate-950/30 p-3">
+        <div className="text-sm font-semibold text-slate-100">Refund requests</div>
+        {refunds.length === 0 ? (
+          <div className="mt-2 text-[12px] text-slate-500">No refunds waiting for approval.</div>
+        ) : (
+          <table className="mt-2 w-full text-[12px]">
+            <tbody>
+              {refunds.map((r) => (
+                <tr key={r.id} className="border-t border-slate-800/60">
+                  <td className="py-2 pr-4 font-mono">{r.position_ref}</td>
+                  <td className="py-2 pr-4 text-right">{Number(r.amount_usdt).toFixed(2)}</td>
+                  <td className="py-2 pr-4 font-mono text-slate-400">{r.to_address}</td>
+                  <td className="py-2 pr-4 text-slate-400">{fmtDate(r.created_at)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    <span className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        disabled={busy !== null}
+                        onClick={() =>
+                          act(`refund:${r.id}`, { action: "approve_refund", id: r.id }, `Send ${r.amount_usdt} back to ${r.to_address}?`)
+                        }
+                        className="rounded-md border border-amber-900/60 bg-amber-950/30 px-2 py-1 text-[11px] text-amber-100 hover:bg-amber-950/50 disabled:opacity-60"
+                      >
+                        Approve &amp; send
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy !== null}
+                        onClick={() => rejectRefund(r)}
+                        className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+                      >
+                        Reject
+                      </button>
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="rounded-lg border border-slate-800/60 bg-slate-950/30 p-3">
+        <div className="text-sm font-semibold text-slate-100">USDDD supply reconciliation</div>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            disabled={busy !== null}
+            onClick={() => act("reconcile:dry_run", { action: "reconcile", mode: "dry_run" }, "Run a reconciliation dry run?")}
+            className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+          >
+            {busy === "reconcile:dry_run" ? "Running…" : "Dry run"}
+          </button>
+          <button
+            type="button"
+            disabled={busy !== null}
+            onClick={() =>
+              act("reconcile:execute", { action: "reconcile", mode: "execute" }, "Execute reconciliation? Drifts are burned or topped up on-chain.")
+            }
+            className="rounded-md border border-amber-900/60 bg-amber-950/30 px-3 py-2 text-[12px] text-amber-100 hover:bg-amber-950/50 disabled:opacity-60"
+          >
+            {busy === "reconcile:execute" ? "Executing…" : "Execute"}
+          </button>
+        </div>
+        {run ? (
+          <div className="mt-2 text-[12px] text-slate-400">
+            <div>
+              run <span className="font-mono">{run.run_id}</span> ({run.mode}): {run.scanned} scanned, {run.in_sync} in sync
+            </div>
+            {run.drifts.map((d) => (
+              <div key={d.position_ref} className="font-mono text-slate-200">
+                {d.position_ref} {d.direction} {d.drift_usddd} USDDD {d.action} {d.status}
+                {d.error ? <span className="text-red-300"> {d.error}</span> : null}
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </section>
+    </div>
+  );
+}
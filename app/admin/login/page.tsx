@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useState } from "react";
+
+export default function AdminLoginPage() {
+  const [operator, setOperator] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function login(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/fund/admin/session", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ operator, password }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok || !j?.ok) throw new Error(j?.error ?? "Login failed");
+      window.location.href = "/admin/fund";
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Login failed");
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-[#0b0f14] text-slate-200 flex items-center justify-center">
+      <form onSubmit={login} className="w-[92%] max-w-sm rounded-xl border border-slate-800/70 bg-slate-950/30 p-4">
+        <div className="text-sm font-semibold text-slate-100">Fund operator login</div>
+        <label className="mt-4 block text-[12px] text-slate-400">
+          Operator
+          <input
+            value={operator}
+            onChange={(e) => setOperator(e.target.value)}
+            autoComplete="username"
+            className="mt-1 w-full rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200"
+          />
+        </label>
+        <label className="mt-3 block text-[12px] text-slate-400">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="mt-1 w-full rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200"
+          />
+        </label>
+        {error ? <div className="mt-3 text-[12px] text-red-300">{error}</div> : null}
+        <div className="mt-4 flex justify-end">
+          <button
+            type="submit"
+            disabled={busy || !operator || !password}
+            className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
+          >
+            {busy ? "Signing in…" : "Sign in"}
+          </button>
+        </div>
+      </form>
+    </main>
+  );
+}
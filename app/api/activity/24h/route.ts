@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { ACCRUAL_MODEL, appliedAccrualPct } from "../../../lib/fund/accrual";
+import { maintenanceGate } from "../../../lib/maintenance";
 
 export const runtime = "nodejs";
 
@@ -71,11 +73,11 @@ function buildSafePayload(start: Date, end: Date, mode: string, warning: string,
       reward_efficiency_prev_usd_per_usddd: 0,
       efficiency_delta_usd_per_usddd: 0,
 
-      accrual_scaling_pct: 3,
-      accrual_floor_pct: 10,
-      accrual_cap_pct: 25,
+      accrual_scaling_pct: ACCRUAL_MODEL.scaling_pct,
+      accrual_floor_pct: ACCRUAL_MODEL.floor_pct,
+      accrual_cap_pct: ACCRUAL_MODEL.cap_pct,
       accrual_potential_pct: 0,
-      applied_accrual_pct: 10,
+      applied_accrual_pct: appliedAccrualPct(0),
 
       // at floor => 0%
       network_performance_pct: 0,
@@ -118,16 +120,8 @@ export async function GET() {
       auth: { persistSession: false },
     });
 
-    // Maintenance gate (DB-authoritative)
-    const { data: flags, error: flagsErr } = await supabase.rpc("rpc_admin_flags");
-    if (flagsErr) throw flagsErr;
-    const row: any = Array.isArray(flags) ? flags[0] : flags;
-
-    const bypassPause = process.env.BYPASS_PAUSE === "1";
-
-    if (row && row.pause_all && !bypassPause) {
-      return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    }
+    const paused = await maintenanceGate(supabase, "/api/activity/24h");
+    if (paused) return paused;
 
     await maybeRefreshRollup(supabase);
 
@@ -184,11 +178,11 @@ export async function GET() {
         reward_efficiency_prev_usd_per_usddd: 0,
         efficiency_delta_usd_per_usddd: 0,
 
-        accrual_scaling_pct: 3,
-        accrual_floor_pct: 10,
-        accrual_cap_pct: 25,
+        accrual_scaling_pct: ACCRUAL_MODEL.scaling_pct,
+        accrual_floor_pct: ACCRUAL_MODEL.floor_pct,
+        accrual_cap_pct: ACCRUAL_MODEL.cap_pct,
         accrual_potential_pct: 0,
-        applied_accrual_pct: 10,
+        applied_accrual_pct: appliedAccrualPct(0),
 
         network_performance_pct: 0,
         network_performance_cap_pct: 99.98,
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { maintenanceGate } from "../../../lib/maintenance";
 
 function reqEnv(name: string) {
   const v = process.env[name];
@@ -41,12 +42,8 @@ export async function GET(req: Request) {
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
     auth: { persistSession: false },
   });
-  // Maintenance gate (DB-authoritative)
-  const { data: flags, error: flagsErr } = await supabase.rpc("rpc_admin_flags");
-  if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-  const row: any = Array.isArray(flags) ? flags[0] : flags;
-  if (row && row.pause_all) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-
+  const paused = await maintenanceGate(supabase, "/api/boxes/balances");
+  if (paused) return paused;
 
   // 1) Get boxes (ids + any minimal metadata)
   const { data: boxes, error: bErr } = await supabase
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { runDailyAccrual } from "../../../../lib/fund/accrual-ledger";
+import { env } from "../../../../lib/fund/env";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+// Daily accrual tick (cron, once a day after 00:00 UTC). Idempotent: re-runs only book
+// periods not yet in the ledger, and missed days are caught up on the next run.
+async function run(req: Request) {
+  try {
+    if (!(await fundCaller(req, "internal"))) return fundUnauthorized();
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/accrual/run");
+    if (paused) return paused;
+
+    const result = await runDailyAccrual(sb);
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "accrual run failed" }, { status: 400 });
+  }
+}
+
+export async function GET(req: Request) {
+  return run(req);
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, run);
+}
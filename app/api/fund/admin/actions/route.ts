@@ -0,0 +1,127 @@
+import { NextResponse, after } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { resolveFlaggedPosition, retryPositionStep, type AdminAction } from "../../../../lib/fund/admin";
+import { drainJobs } from "../../../../lib/fund/jobs";
+import { reconcileSupply } from "../../../../lib/fund/reconcile";
+import { approveRefund, executeRefund, rejectRefund } from "../../../../lib/fund/refunds";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { revokeUserSessions } from "../../../../lib/fund/user-session";
+import { maintenanceGate } from "../../../../lib/maintenance";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+
+export const dynamic = "force-dynamic";
+
+const ACTIONS = new Set<AdminAction>([
+  "retry_sweep",
+  "retry_mint",
+  "approve_refund",
+  "reject_refund",
+  "reconcile",
+  "revoke_user_sessions",
+  "resolve_flagged",
+]);
+
+// Operator console actions. The operator is the logged-in session, never a body field.
+// POST { action: "retry_sweep" | "retry_mint", ref }
+// POST { action: "approve_refund", id } | { action: "reject_refund", id, reason }
+// POST { action: "reconcile", mode: "dry_run" | "execute", ref? }
+// POST { action: "revoke_user_sessions", terminal_user_id, reason? }
+// POST { action: "resolve_flagged", ref, to: "swept_locked" | "withdrawing", note, funded_usdt? }
+//      funded_usdt corrects the amount a failed sweep cross-check was checked against
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+    const operator = caller.id;
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const action = typeof j?.action === "string" ? (j.action as AdminAction) : null;
+    const ref = typeof j?.ref === "string" ? j.ref.trim() : "";
+    const id = typeof j?.id === "string" ? j.id.trim() : "";
+    const reason = typeof j?.reason === "string" ? j.reason.trim() : "";
+    const mode = j?.mode === "execute" ? "execute" : "dry_run";
+    const terminalUserId = typeof j?.terminal_user_id === "string" ? j.terminal_user_id.trim() : "";
+    const note = typeof j?.note === "string" ? j.note.trim() : "";
+
+    if (!action || !ACTIONS.has(action)) throw new Error("Bad action");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    // a reconcile dry run only reads, and revoking sessions must keep working while paused
+    const exempt = (action === "reconcile" && mode === "dry_run") || action === "revoke_user_sessions";
+    const paused = exempt ? null : await maintenanceGate(sb, "/api/fund/admin/actions");
+    if (paused) return paused;
+
+    if (action === "retry_sweep" || action === "retry_mint") {
+      if (!ref) throw new Error("Missing ref");
+      const job = await retryPositionStep(sb, ref, action === "retry_sweep" ? "sweep" : "mint");
+
+      // run it now; the cron worker picks it up if this fails
+      after(async () => {
+        await drainJobs(sb, { ref: job.position_ref, limit: 1 }).catch(() => null);
+      });
+
+      return NextResponse.json({ ok: true, action, job: { id: job.id, kind: job.kind, status: job.status, attempts: job.attempts } });
+    }
+
+    if (action === "approve_refund" || action === "reject_refund") {
+      if (!id) throw new Error("Missing id");
+
+      if (action === "reject_refund") {
+        if (!reason) throw new Error("Missing reason");
+        const refund = await rejectRefund(sb, id, operator, reason);
+        return NextResponse.json({ ok: true, action, refund: { id: refund.id, position_ref: refund.position_ref, status: refund.status } });
+      }
+
+      const { data: current, error } = await sb.from("fund_refunds").select("status").eq("id", id).maybeSingle();
+      if (error || !current) throw new Error("Refund not found");
+
+      if (current.status === "requested") await approveRefund(sb, id, operator);
+      const refund = await executeRefund(sb, id, { kind: "operator", source: "fund/admin/actions", id: operator });
+
+      return NextResponse.json({
+        ok: true,
+        action,
+        refund: { id: refund.id, position_ref: refund.position_ref, status: refund.status, refund_tx_hash: refund.refund_tx_hash },
+      });
+    }
+
+    if (action === "resolve_flagged") {
+      if (!ref) throw new Error("Missing ref");
+      if (!note) throw new Error("Missing note");
+      if (j?.to !== "swept_locked" && j?.to !== "withdrawing") throw new Error("Bad to");
+      const fundedUsdt = j?.funded_usdt == null || j.funded_usdt === "" ? undefined : Number(j.funded_usdt);
+      if (fundedUsdt !== undefined && !(fundedUsdt > 0)) throw new Error("Bad funded_usdt");
+      const resolved = await resolveFlaggedPosition(sb, ref, operator, j.to, note, fundedUsdt);
+
+      // run the re-queued job now; the cron worker picks it up if this fails
+      after(async () => {
+        await drainJobs(sb, { ref: resolved.position_ref, limit: 1 }).catch(() => null);
+      });
+
+      return NextResponse.json({ ok: true, action, ...resolved });
+    }
+
+    if (action === "revoke_user_sessions") {
+      if (!terminalUserId) throw new Error("Missing terminal_user_id");
+      const revoked = await revokeUserSessions(sb, terminalUserId, `revoked by ${operator}${reason ? `: ${reason}` : ""}`);
+      return NextResponse.json({ ok: true, action, terminal_user_id: terminalUserId, revoked });
+    }
+
+    const run = await reconcileSupply(sb, {
+      mode,
+      ref: ref || undefined,
+      actor: { kind: "operator", source: "fund/admin/actions", id: operator },
+    });
+
+    return NextResponse.json({ ok: true, action, ...run });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "admin action failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { listAdminPositions, retryActions } from "../../../../lib/fund/admin";
+import { isFundStatus } from "../../../../lib/fund/status";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/fund/admin/positions?status=&chain=&token=&q=&limit=&offset= (operator session required)
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const status = (url.searchParams.get("status") ?? "").trim();
+    const chain = (url.searchParams.get("chain") ?? "").trim().toLowerCase();
+    const token = (url.searchParams.get("token") ?? "").trim().toLowerCase();
+    const q = (url.searchParams.get("q") ?? "").trim();
+    const limit = Number(url.searchParams.get("limit") ?? "50");
+    const offset = Number(url.searchParams.get("offset") ?? "0");
+
+    if (status && !isFundStatus(status)) throw new Error("Bad status");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const page = await listAdminPositions(sb, {
+      status: status && isFundStatus(status) ? status : undefined,
+      chain: chain || undefined,
+      token: token || undefined,
+      q: q || undefined,
+      limit: Number.isFinite(limit) ? limit : undefined,
+      offset: Number.isFinite(offset) ? offset : undefined,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      total: page.total,
+      counts: page.counts,
+      positions: page.positions.map((p) => ({ ...p, actions: retryActions(p) })),
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "admin positions failed" }, { status: 400 });
+  }
+}
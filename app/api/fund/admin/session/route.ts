@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import {
+  checkOperatorPassword,
+  OPERATOR_COOKIE,
+  operatorCookie,
+  operatorFromRequest,
+  signOperatorToken,
+} from "../../../../lib/fund/operator-auth";
+
+export const dynamic = "force-dynamic";
+
+// Operator login for /admin/fund. POST { operator, password } sets the session cookie
+// (and returns the token for scripts), GET returns the current operator, DELETE logs out.
+export async function POST(req: Request) {
+  try {
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const operator = typeof j?.operator === "string" ? j.operator.trim() : "";
+    const password = typeof j?.password === "string" ? j.password : "";
+
+    if (!operator || !password) throw new Error("Missing operator or password");
+    if (!checkOperatorPassword(operator, password)) {
+      return NextResponse.json({ ok: false, error: "Invalid operator or password" }, { status: 401 });
+    }
+
+    const { token, exp } = signOperatorToken(operator);
+    const res = NextResponse.json({ ok: true, operator, token, expires_at: new Date(exp * 1000).toISOString() });
+    res.cookies.set(operatorCookie(token, exp));
+    return res;
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "login failed" }, { status: 400 });
+  }
+}
+
+export async function GET(req: Request) {
+  const session = operatorFromRequest(req);
+  if (!session) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  return NextResponse.json({ ok: true, operator: session.operator, expires_at: new Date(session.exp * 1000).toISOString() });
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set({ ...operatorCookie("", 0), name: OPERATOR_COOKIE, maxAge: 0 });
+  return res;
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { retryActions } from "../../../../lib/fund/admin";
+import { fundChains } from "../../../../lib/fund/chains";
+import type { FundStatus } from "../../../../lib/fund/status";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { positionTimeline } from "../../../../lib/fund/timeline";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/fund/admin/timeline?ref=FN-XXXXXXXX (operator session required)
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    if (!ref) throw new Error("Missing ref");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const { position, entries } = await positionTimeline(sb, ref);
+    const { data: refunds, error } = await sb
+      .from("fund_refunds")
+      .select("id, to_address, amount_usdt, status, created_at")
+      .eq("position_id", position.id)
+      .in("status", ["requested", "approved"]);
+    if (error) throw error;
+
+    return NextResponse.json({
+      ok: true,
+      position,
+      actions: retryActions({
+        status: position.status as FundStatus,
+        sweep_tx_hash: position.sweep_tx_hash,
+        usddd_transfer_tx_hash: position.usddd_transfer_tx_hash,
+      }),
+      open_refunds: refunds ?? [],
+      explorers: Object.fromEntries(fundChains().map((c) => [c.id, c.explorer])),
+      entries,
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "timeline failed" }, { status: 400 });
+  }
+}
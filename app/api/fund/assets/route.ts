@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_CHAIN, DEFAULT_TOKEN, supportedAssets } from "../../../lib/fund/chains";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/fund/assets: chains/tokens a position can be issued on (pass chain + token to issue-address)
+export async function GET() {
+  try {
+    return NextResponse.json({
+      ok: true,
+      default: { chain: DEFAULT_CHAIN, token: DEFAULT_TOKEN },
+      assets: supportedAssets(),
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "assets failed" }, { status: 400 });
+  }
+}
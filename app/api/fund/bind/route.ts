@@ -1,60 +1,115 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { bindMessage, bindPosition, type BindOutcome, type OwnershipProof } from "../../../lib/fund/ownership";
+import { fundUnauthorized, fundUser } from "../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../lib/maintenance";
 
-function env(name: string): string {
-  const v = process.env[name];
-  if (!v || !v.trim()) throw new Error(`Missing env: ${name}`);
-  return v.trim();
+const MAX_CLAIMS = 50;
+
+function isHexSig(s: unknown): s is `0x${string}` {
+  return typeof s === "string" && /^0x[0-9a-fA-F]{130}$/.test(s);
 }
 
-export async function POST(req: Request) {
+// User scope: binds positions to the signed-in terminal user (Scan session cookie). Every ref
+// needs an ownership proof:
+//   { claims: [{ ref, claim_secret }] }                 secrets returned by issue-address
+//   { ref, signature, issued_at }                       wallet that sent the deposit tx
+// (GET ?ref= returns the message to sign). A position bound to another user is
+// never rebound; refused attempts are recorded.
+async function handlePost(req: Request) {
   try {
-    const j = await req.json().catch(() => ({} as any));
-    const session_id = typeof j?.session_id === "string" ? j.session_id.trim() : "";
-    const refs: string[] = Array.isArray(j?.refs) ? j.refs.map((x: any) => String(x).trim()).filter(Boolean) : [];
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const requests: { ref: string; proof: OwnershipProof | null }[] = [];
+    if (Array.isArray(j?.claims)) {
+      for (const c of j.claims.slice(0, MAX_CLAIMS)) {
+        const ref = typeof c?.ref === "string" ? c.ref.trim() : "";
+        const secret = typeof c?.claim_secret === "string" ? c.claim_secret.trim() : "";
+        if (ref) requests.push({ ref, proof: secret ? { kind: "claim_secret", claim_secret: secret } : null });
+      }
+    }
+    if (typeof j?.ref === "string" && j.ref.trim()) {
+      const issuedAt = typeof j?.issued_at === "string" ? j.issued_at.trim() : "";
+      requests.push({
+        ref: j.ref.trim(),
+        proof: isHexSig(j?.signature) && issuedAt ? { kind: "wallet", signature: j.signature, issued_at: issuedAt } : null,
+      });
+    }
+    // bare refs (older clients) carry no proof and are refused below
+    if (Array.isArray(j?.refs)) {
+      for (const r of j.refs.slice(0, MAX_CLAIMS)) {
+        const ref = String(r).trim();
+        if (ref && !requests.some((x) => x.ref === ref)) requests.push({ ref, proof: null });
+      }
+    }
 
-    if (!session_id) throw new Error("Missing session_id");
-    if (refs.length === 0) throw new Error("Missing refs");
+    if (requests.length === 0) throw new Error("Missing claims");
 
     const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
       auth: { persistSession: false },
     });
-    // Maintenance gate (DB-authoritative)
-    const { data: flags, error: flagsErr } = await sb.rpc("rpc_admin_flags");
-    if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    const row: any = Array.isArray(flags) ? flags[0] : flags;
-    if (row && (row.pause_all || row.pause_reserve)) {
-      return NextResponse.json({ ok: false, paused: true }, { status: 503 });
+    const paused = await maintenanceGate(sb, "/api/fund/bind");
+    if (paused) return paused;
+
+    const sess = await fundUser(sb, req);
+    if (!sess) return fundUnauthorized("Not signed in");
+
+    const results: BindOutcome[] = [];
+    for (const r of requests) {
+      results.push(await bindPosition(sb, { ref: r.ref, terminalUserId: sess.user_id, proof: r.proof, source: "fund/bind" }));
     }
 
+    const bound = results.filter((r) => r.outcome !== "refused").map((r) => r.position_ref);
+    const refused = results.filter((r) => r.outcome === "refused").map((r) => ({ ref: r.position_ref, reason: r.reason }));
 
-    const { data: sess, error: sessErr } = await sb
-      .from("dd_sessions")
-      .select("user_id, username, source")
-      .eq("session_id", session_id)
-      .limit(1)
-      .single();
+    if (bound.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: `Bind refused: ${refused.map((r) => `${r.ref} (${r.reason})`).join(", ")}`, refused },
+        { status: 403 }
+      );
+    }
 
-    if (sessErr || !sess) throw new Error("Session not found");
-    if (!sess.user_id) throw new Error("Session has no user_id");
+    return NextResponse.json({
+      ok: true,
+      bound_user_id: sess.user_id,
+      bound_username: sess.username,
+      bound_count: bound.length,
+      refs: bound,
+      refused,
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "bind failed" }, { status: 400 });
+  }
+}
 
-    // bind only the provided refs
-    const { data: upd, error: updErr } = await sb
-      .from("fund_positions")
-      .update({ terminal_user_id: sess.user_id })
-      .in("position_ref", refs)
-      .select("position_ref");
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
 
-    if (updErr) throw updErr;
+// GET /api/fund/bind?ref=FN-... -> message for the depositing wallet to sign
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    if (!ref) throw new Error("Missing ref");
 
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const sess = await fundUser(sb, req);
+    if (!sess) return fundUnauthorized("Not signed in");
+
+    const issuedAt = new Date().toISOString();
     return NextResponse.json({
       ok: true,
-      bound_user_id: sess.user_id,
-      bound_username: sess.username ?? null,
-      bound_count: Array.isArray(upd) ? upd.length : 0,
-      refs: Array.isArray(upd) ? upd.map((r: any) => r.position_ref) : [],
+      ref,
+      issued_at: issuedAt,
+      message: bindMessage(ref, sess.user_id, issuedAt),
+      note: "Sign with the wallet that sent the deposit (personal_sign), then POST { ref, signature, issued_at } within 10 minutes.",
     });
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: e?.message ?? "bind failed" }, { status: 400 });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "bind message failed" }, { status: 400 });
   }
 }
@@ -1,26 +1,31 @@
-import { NextResponse } from "next/server";
+import { NextResponse, after } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { createPublicClient, http, Hex, parseAbiItem, decodeEventLog, formatUnits } from "viem";
-
-function env(name: string, fallback?: string): string {
-  const v = process.env[name];
-  if (v && v.trim()) return v.trim();
-  if (fallback != null) return fallback;
-  throw new Error(`Missing env: ${name}`);
-}
-
-function isHexTx(h: any): h is Hex {
+import { env } from "../../../lib/fund/env";
+import type { Hex } from "viem";
+import { chainClient, positionAsset } from "../../../lib/fund/chains";
+import { settleDeposit, type SettleResult } from "../../../lib/fund/confirmations";
+import { creditDeposits, recordTransfers, transfersTo } from "../../../lib/fund/deposits";
+import { drainJobs, enqueueJob } from "../../../lib/fund/jobs";
+import { bindPosition } from "../../../lib/fund/ownership";
+import { fundUser } from "../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../lib/maintenance";
+
+function isHexTx(h: unknown): h is Hex {
   return typeof h === "string" && /^0x([0-9a-fA-F]{64})$/.test(h);
 }
 
-const TRANSFER_ABI_ITEM = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+function settledStatus(r: SettleResult): string {
+  return r.outcome === "rolled_back" ? "awaiting_funds" : r.outcome;
+}
 
-export async function POST(req: Request) {
+// Public scope: the caller holds the ref and the deposit tx hash, everything else is checked on-chain
+async function handlePost(req: Request) {
   try {
-    const j = await req.json().catch(() => ({} as any));
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
     const ref = typeof j?.ref === "string" ? j.ref.trim() : "";
     const tx = typeof j?.tx_hash === "string" ? j.tx_hash.trim() : "";
-    const sessionId = typeof j?.session_id === "string" ? j.session_id.trim() : "";
+    const claimSecret = typeof j?.claim_secret === "string" ? j.claim_secret.trim() : "";
 
     if (!ref) throw new Error("Missing ref");
     if (!isHexTx(tx)) throw new Error("Bad tx_hash");
@@ -28,33 +33,16 @@ export async function POST(req: Request) {
     const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
       auth: { persistSession: false },
     });
-    // Maintenance gate (DB-authoritative)
-    const { data: flags, error: flagsErr } = await sb.rpc("rpc_admin_flags");
-    if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    const row: any = Array.isArray(flags) ? flags[0] : flags;
-    if (row && (row.pause_all || row.pause_reserve)) {
-      return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    }
-
+    const paused = await maintenanceGate(sb, "/api/fund/confirm");
+    if (paused) return paused;
 
-    // resolve terminal_user_id from dd_sessions (best-effort)
-    let terminalUserId: string | null = null;
-    if (sessionId) {
-      const { data: srow } = await sb
-        .from("dd_sessions")
-        .select("user_id")
-        .eq("session_id", sessionId)
-        .order("created_at", { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (srow?.user_id) terminalUserId = String(srow.user_id);
-    }
+    // signed-in terminal user from the Scan session cookie (best-effort)
+    const terminalUserId = (await fundUser(sb, req))?.user_id ?? null;
 
     const { data: pos, error } = await sb
       .from("fund_positions")
       .select(
-        "id, position_ref, issued_deposit_address, expected_min_usdt, expected_max_usdt, status, deposit_tx_hash, terminal_user_id"
+        "id, position_ref, chain, token, issued_deposit_address, expected_min_usdt, expected_max_usdt, status, deposit_tx_hash, deposit_block_number, deposit_block_hash, terminal_user_id"
       )
       .eq("position_ref", ref)
       .limit(1)
@@ -62,143 +50,129 @@ export async function POST(req: Request) {
 
     if (error || !pos) throw new Error("Position not found");
 
-    // do not overwrite once set
-    if (pos.deposit_tx_hash) {
-      // If position already confirmed but missing terminal linkage, attach it now (best-effort)
-      if (!pos.terminal_user_id && terminalUserId) {
-        await sb.from("fund_positions").update({ terminal_user_id: terminalUserId }).eq("id", pos.id);
+    const actor = { kind: "user" as const, source: "fund/confirm", id: terminalUserId };
+
+    // Attach terminal linkage if missing (best-effort, needs the claim secret like /api/fund/bind)
+    if (!pos.terminal_user_id && terminalUserId && claimSecret) {
+      const bound = await bindPosition(sb, {
+        ref,
+        terminalUserId,
+        proof: { kind: "claim_secret", claim_secret: claimSecret },
+        source: "fund/confirm",
+      }).catch(() => null);
+      if (bound?.outcome === "bound") pos.terminal_user_id = terminalUserId;
+    }
+
+    const asset = positionAsset(pos);
+    const client = chainClient(asset.chain);
+
+    // same tx as the credited deposit: nothing new to record
+    if (pos.deposit_tx_hash && String(pos.deposit_tx_hash).toLowerCase() === tx.toLowerCase()) {
+      // Positions left in funded_locked by an older/interrupted pipeline get a sweep job now
+      if (String(pos.status) === "funded_locked") {
+        await enqueueJob(sb, { kind: "sweep", position_id: pos.id, position_ref: ref });
+      }
+
+      // Re-confirming while still confirming just re-checks depth / reorgs
+      let settled: SettleResult | null = null;
+      if (String(pos.status) === "confirming") {
+        settled = await settleDeposit(sb, client, pos, actor);
       }
 
       return NextResponse.json({
         ok: true,
-        status: pos.status,
+        status: settled ? settledStatus(settled) : pos.status,
+        confirmations: settled?.confirmations ?? null,
+        required_confirmations: settled?.required ?? null,
         position_ref: ref,
         note: "Already confirmed (deposit_tx_hash set).",
-        terminal_user_id: (pos.terminal_user_id ?? terminalUserId) ?? null,
+        // the bound user id is only echoed back to that user
+        terminal_user_id: !pos.terminal_user_id || pos.terminal_user_id === terminalUserId ? terminalUserId : null,
       });
     }
 
-    if (String(pos.status) !== "awaiting_funds") {
-      throw new Error(`Position not confirmable in status=${pos.status}`);
-    }
-
-    const rpcUrl = env("BSC_RPC_URL");
-    const usdt = env("BSC_USDT_ADDRESS").toLowerCase() as Hex;
-    const decimals = Number(env("BSC_USDT_DECIMALS", "18"));
-
-    const client = createPublicClient({ transport: http(rpcUrl) });
+    const usdt = asset.token.address;
+    const decimals = asset.token.decimals;
 
     const receipt = await client.getTransactionReceipt({ hash: tx as Hex });
     if (!receipt) throw new Error("Receipt not found");
     if (receipt.status !== "success") throw new Error("Tx not successful");
 
-    const toAddr = String(pos.issued_deposit_address).toLowerCase();
-
-    // find a Transfer log emitted by USDT where "to" == deposit address
-    let amountRaw: bigint | null = null;
-
-    for (const lg of receipt.logs) {
-      if (String(lg.address).toLowerCase() !== usdt) continue;
-      if (!lg.topics || lg.topics.length < 3) continue;
-      if (
-        String(lg.topics[0]).toLowerCase() !==
-        "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef"
-      )
-        continue;
-
-      try {
-        const decoded = decodeEventLog({
-          abi: [TRANSFER_ABI_ITEM],
-          data: lg.data,
-          topics: lg.topics as any,
-        });
-
-        const to = String((decoded.args as any).to).toLowerCase();
-        if (to !== toAddr) continue;
-
-        amountRaw = BigInt((decoded.args as any).value);
-        break;
-      } catch {
-        continue;
-      }
-    }
-
-    if (amountRaw == null) throw new Error("No matching USDT Transfer(to=deposit) log found in tx");
-
-    const amount = Number(formatUnits(amountRaw, decimals));
-    const min = Number(pos.expected_min_usdt);
-    const max = Number(pos.expected_max_usdt);
+    // every USDT Transfer(to=deposit) in the tx is recorded, then all recorded transfers are aggregated
+    const transfers = transfersTo(receipt.logs, usdt, String(pos.issued_deposit_address));
+    if (transfers.length === 0) throw new Error(`No matching ${asset.token.symbol} Transfer(to=deposit) log found on ${asset.chain.name}`);
 
-    if (!Number.isFinite(amount)) throw new Error("Bad decoded amount");
-    if (amount < min || amount > max) throw new Error(`Amount out of bounds (${amount} not in [${min}, ${max}])`);
+    await recordTransfers(sb, pos, transfers, decimals);
 
-    // funded_at from the block timestamp
-    const blk = await client.getBlock({ blockNumber: receipt.blockNumber });
-    const fundedAtIso = new Date(Number(blk.timestamp) * 1000).toISOString();
+    const credit = await creditDeposits(sb, client, pos, actor, decimals);
 
-    const updatePayload: any = {
-      deposit_tx_hash: tx,
-      funded_usdt: amount,
-      funded_at: fundedAtIso,
-      status: "funded_locked",
-    };
-    if (terminalUserId) updatePayload.terminal_user_id = terminalUserId;
+    if (credit.outcome === "partial") {
+      return NextResponse.json({
+        ok: true,
+        position_ref: ref,
+        status: "awaiting_funds",
+        partial: true,
+        received_usdt: credit.received_usdt,
+        min_usdt: credit.min_usdt,
+        note: "Partial deposit recorded. Send the remainder to the same address and confirm again.",
+      });
+    }
 
-    const { data: updRows, error: updErr } = await sb
-      .from("fund_positions")
-      .update(updatePayload)
-      .eq("id", pos.id)
-      .eq("status", "awaiting_funds")
-      .is("deposit_tx_hash", null)
-      .select("id");
-
-    if (updErr) throw updErr;
-    if (!updRows || updRows.length === 0) throw new Error("Position updated by someone else");
-
-    // Auto-sweep immediately after confirm
-    const origin = new URL(req.url).origin;
-
-    let sweep: any = null;
-    try {
-      const sr = await fetch(`${origin}/api/fund/sweep`, {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ ref }),
-        cache: "no-store",
+    if (credit.outcome !== "credited") {
+      const late = String(pos.status) === "expired" && credit.outcome === "excess";
+      return NextResponse.json({
+        ok: true,
+        position_ref: ref,
+        status: late ? "flagged" : pos.status,
+        excess_usdt: credit.outcome === "excess" ? credit.excess_usdt : 0,
+        note: late
+          ? "Deposit arrived after the address expired; flagged for manual handling."
+          : "Transfer recorded after the position amount was fixed; queued for refund.",
       });
-      sweep = await sr.json();
-    } catch (e: any) {
-      sweep = { ok: false, error: e?.message ?? "sweep call failed" };
     }
 
-    // Auto-mint immediately after sweep success (idempotent route)
-    let mint: any = null;
-    if (sweep?.ok) {
-      try {
-        const mr = await fetch(`${origin}/api/fund/mint`, {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify({ ref }),
-          cache: "no-store",
-        });
-        mint = await mr.json();
-      } catch (e: any) {
-        mint = { ok: false, error: e?.message ?? "mint call failed" };
-      }
+    // Deep enough already -> funded_locked + sweep job; otherwise the indexer settles it later
+    const settled = await settleDeposit(
+      sb,
+      client,
+      {
+        ...pos,
+        deposit_tx_hash: credit.deposit_tx_hash,
+        deposit_block_number: Number(credit.block_number),
+        deposit_block_hash: credit.block_hash,
+      },
+      actor
+    );
+
+    // Hand sweep -> mint to the durable job queue (continues via /api/fund/jobs/run if this
+    // request dies); kick one worker pass after the response is sent.
+    if (settled.outcome === "funded_locked") {
+      after(async () => {
+        try {
+          await drainJobs(sb, { ref });
+        } catch {
+          // the scheduled worker will pick it up
+        }
+      });
     }
 
     return NextResponse.json({
       ok: true,
       position_ref: ref,
-      deposit_tx_hash: tx,
-      funded_usdt: amount,
-      funded_at: fundedAtIso,
+      deposit_tx_hash: credit.deposit_tx_hash,
+      funded_usdt: credit.funded_usdt,
+      excess_usdt: credit.excess_usdt,
+      funded_at: credit.funded_at,
       terminal_user_id: terminalUserId,
-      status: sweep?.ok ? "swept_locked" : "funded_locked",
-      sweep,
-      mint,
+      status: settledStatus(settled),
+      confirmations: settled.confirmations,
+      required_confirmations: settled.required,
     });
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: e?.message ?? "confirm failed" }, { status: 400 });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "confirm failed" }, { status: 400 });
   }
 }
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { sweepGasDust } from "../../../../lib/fund/gas-ledger";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+// BNB dust recovery tick (cron): returns leftover gas from finished deposit EOAs to the ops wallet.
+// ?dry_run=1 only reports what would be moved.
+async function run(req: Request) {
+  try {
+    if (!(await fundCaller(req, "internal"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const dryRun = url.searchParams.get("dry_run") === "1";
+    const limitParam = Number(url.searchParams.get("limit") ?? "");
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(200, limitParam) : undefined;
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = dryRun ? null : await maintenanceGate(sb, "/api/fund/gas/dust");
+    if (paused) return paused;
+
+    const result = await sweepGasDust(sb, { limit, dryRun });
+
+    return NextResponse.json({ ok: true, dry_run: dryRun, ...result });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "dust sweep failed" }, { status: 400 });
+  }
+}
+
+export async function GET(req: Request) {
+  return run(req);
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, run);
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { gasReport } from "../../../lib/fund/gas-ledger";
+import { fundCaller, fundUnauthorized } from "../../../lib/fund/route-auth";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/fund/gas[?ref=FN-...][&chain=bsc] gas ledger report: native gas spent (top-ups, fees,
+// dust returned) per funded USDT on one chain, bsc by default
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    const chain = (url.searchParams.get("chain") ?? "").trim();
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const report = await gasReport(sb, { ref: ref || undefined, chain: chain || undefined });
+
+    return NextResponse.json({ ok: true, ref: ref || null, ...report });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "gas report failed" }, { status: 400 });
+  }
+}
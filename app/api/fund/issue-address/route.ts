@@ -1,24 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { randomBytes, createHash, createCipheriv } from "crypto";
-import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
-
-function env(name: string): string {
-  const v = process.env[name];
-  if (!v || !v.trim()) throw new Error(`Missing env: ${name}`);
-  return v.trim();
-}
-
-// AES-256-GCM encrypt using FUND_KEY_ENC_SECRET (server-only)
-function encryptPrivKeyHex(privKeyHex: `0x${string}`, secret: string): string {
-  const key = createHash("sha256").update(secret, "utf8").digest(); // 32 bytes
-  const iv = randomBytes(12); // GCM recommended 12 bytes
-  const cipher = createCipheriv("aes-256-gcm", key, iv);
-  const ciphertext = Buffer.concat([cipher.update(privKeyHex, "utf8"), cipher.final()]);
-  const tag = cipher.getAuthTag();
-  // pack as base64: iv.tag.ciphertext
-  return Buffer.concat([iv, tag, ciphertext]).toString("base64");
-}
+import { env } from "../../../lib/fund/env";
+import { randomBytes } from "crypto";
+import { fundAsset } from "../../../lib/fund/chains";
+import { expiresAtFrom } from "../../../lib/fund/expiry";
+import { lockupDays } from "../../../lib/fund/lockup";
+import { newClaimSecret } from "../../../lib/fund/ownership";
+import { fundSigner } from "../../../lib/fund/signer";
+import { withIdempotencyKey } from "../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../lib/maintenance";
 
 function makePositionRef(): string {
   // short human-friendly ref
@@ -26,8 +16,13 @@ function makePositionRef(): string {
   return `FN-${b}`;
 }
 
-export async function POST() {
+// POST { chain?, token? } (defaults bsc / usdt; GET /api/fund/assets lists what is supported)
+async function handlePost(req: Request) {
   try {
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    // unsupported chain/token throws before anything is created
+    const asset = fundAsset(j?.chain ? String(j.chain) : null, j?.token ? String(j.token) : null);
+
     const supabaseUrl = env("SUPABASE_URL");
     const supabaseKey = env("SUPABASE_SERVICE_ROLE_KEY");
 
@@ -37,25 +32,18 @@ export async function POST() {
       throw new Error("Invalid FUND_MIN_USDT / FUND_MAX_USDT");
     }
 
-    const encSecret = env("FUND_KEY_ENC_SECRET");
-
     const sb = createClient(supabaseUrl, supabaseKey, { auth: { persistSession: false } });
 
-    // Maintenance gate (DB-authoritative)
-    const { data: flags, error: flagsErr } = await sb.rpc("rpc_admin_flags");
-    if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    const row: any = Array.isArray(flags) ? flags[0] : flags;
-    if (row && (row.pause_all || row.pause_reserve)) {
-      return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    }
-
+    const paused = await maintenanceGate(sb, "/api/fund/issue-address");
+    if (paused) return paused;
 
-    // Generate dedicated EOA deposit address for this position
-    const priv = generatePrivateKey();
-    const acct = privateKeyToAccount(priv);
-    const depositAddress = acct.address.toLowerCase();
+    // Generate dedicated EOA deposit address for this position (key stays with the signer)
+    const depositKey = await fundSigner(sb).createDepositKey();
+    const depositAddress = depositKey.address;
 
     const positionRef = makePositionRef();
+    // shown once; proves ownership for bind and ref lookups (only the hash is stored)
+    const claim = newClaimSecret();
 
     // Insert position
     const { data: pos, error: posErr } = await sb
@@ -63,47 +51,60 @@ export async function POST() {
       .insert({
         position_ref: positionRef,
         issued_deposit_address: depositAddress,
-        chain: "bsc",
-        token: "usdt",
+        chain: asset.chain.id,
+        token: asset.token.id,
         expected_min_usdt: min,
         expected_max_usdt: max,
         status: "awaiting_funds",
         locked: true,
+        expires_at: expiresAtFrom(new Date()),
+        lockup_days: lockupDays(),
+        claim_secret_hash: claim.hash,
       })
-      .select("id, position_ref, issued_deposit_address, chain, token, expected_min_usdt, expected_max_usdt, status, created_at")
+      .select("id, position_ref, issued_deposit_address, chain, token, expected_min_usdt, expected_max_usdt, status, created_at, expires_at, lockup_days")
       .single();
 
     if (posErr) throw posErr;
     if (!pos?.id) throw new Error("Failed to create position");
 
-    // Store encrypted private key (never return)
-    const enc = encryptPrivKeyHex(priv, encSecret);
-
-    const { error: keyErr } = await sb.from("fund_deposit_keys").insert({
-      position_id: pos.id,
-      enc_privkey: enc,
-    });
+    // Bind the deposit key to the position (never returned)
+    await depositKey.commit(pos.id);
 
-    if (keyErr) throw keyErr;
-
-    return NextResponse.json({
-      ok: true,
-      position: {
-        id: pos.id,
-        ref: pos.position_ref,
-        deposit_address: pos.issued_deposit_address,
-        chain: pos.chain,
-        token: pos.token,
-        min_usdt: Number(pos.expected_min_usdt),
-        max_usdt: Number(pos.expected_max_usdt),
-        status: pos.status,
-        created_at: pos.created_at,
+    return NextResponse.json(
+      {
+        ok: true,
+        position: {
+          id: pos.id,
+          ref: pos.position_ref,
+          deposit_address: pos.issued_deposit_address,
+          chain: pos.chain,
+          token: pos.token,
+          chain_name: asset.chain.name,
+          chain_id: asset.chain.chain_id,
+          token_symbol: asset.token.symbol,
+          token_address: asset.token.address,
+          token_decimals: asset.token.decimals,
+          confirmations: asset.chain.confirmations,
+          min_usdt: Number(pos.expected_min_usdt),
+          max_usdt: Number(pos.expected_max_usdt),
+          status: pos.status,
+          created_at: pos.created_at,
+          expires_at: pos.expires_at,
+          lockup_days: pos.lockup_days,
+          claim_secret: claim.secret,
+        },
       },
-    });
-  } catch (e: any) {
+      // carries the claim secret: never cached, never stored for Idempotency-Key replays
+      { headers: { "cache-control": "no-store" } }
+    );
+  } catch (e: unknown) {
     return NextResponse.json(
-      { ok: false, error: e?.message ?? "Failed to issue address" },
+      { ok: false, error: e instanceof Error ? e.message : "Failed to issue address" },
       { status: 400 }
     );
   }
 }
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { listJobs } from "../../../lib/fund/jobs";
+import { fundCaller, fundUnauthorized } from "../../../lib/fund/route-auth";
+
+export const dynamic = "force-dynamic";
+
+// Job history for one position: GET /api/fund/jobs?ref=FN-XXXXXXXX
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    if (!ref) throw new Error("Missing ref");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const jobs = await listJobs(sb, ref);
+
+    return NextResponse.json({
+      ok: true,
+      position_ref: ref,
+      jobs: jobs.map((j) => ({
+        id: j.id,
+        kind: j.kind,
+        status: j.status,
+        attempts: j.attempts,
+        run_after: j.run_after,
+        last_error: j.last_error,
+        result: j.result,
+        created_at: j.created_at,
+        updated_at: j.updated_at,
+      })),
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "jobs failed" }, { status: 400 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { drainJobs } from "../../../../lib/fund/jobs";
+import { processStuckOpsTxs } from "../../../../lib/fund/ops-tx";
+import { fundCaller, fundUnauthorized, purgeInternalNonces } from "../../../../lib/fund/route-auth";
+import { purgeIdempotencyKeys, withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+// Worker tick for the fund job queue. Hit on a schedule (cron) so sweep/mint
+// complete even when nobody has the Fund page open. Also speeds up stuck ops wallet txs
+// and drops idempotency keys, rate-limit windows and used internal-call nonces past retention.
+async function run(req: Request) {
+  try {
+    if (!(await fundCaller(req, "internal"))) return fundUnauthorized();
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/jobs/run");
+    if (paused) return paused;
+
+    const limit = Number(env("FUND_JOBS_BATCH", "10"));
+    if (!Number.isFinite(limit) || limit <= 0 || limit > 100) throw new Error("Bad FUND_JOBS_BATCH");
+
+    // unstick ops wallet nonces first, queued jobs may be waiting behind them
+    const opsTxs = await processStuckOpsTxs(sb);
+    const ran = await drainJobs(sb, { limit });
+    const purgedKeys = await purgeIdempotencyKeys(sb).catch(() => 0);
+    const { data: purgedWindows } = await sb.rpc("purge_scan_rate_limits");
+    const purgedNonces = await purgeInternalNonces(sb).catch(() => 0);
+
+    return NextResponse.json({
+      ok: true,
+      ran,
+      ops_txs: opsTxs,
+      purged_idempotency_keys: purgedKeys,
+      purged_rate_limit_windows: Number(purgedWindows ?? 0),
+      purged_internal_nonces: purgedNonces,
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "jobs run failed" }, { status: 400 });
+  }
+}
+
+export async function GET(req: Request) {
+  return run(req);
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, run);
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { recoverDepositKeys } from "../../../../lib/fund/hd-recovery";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+// Operator tool: regenerate HD deposit keys from FUND_HD_XPRV and verify them against the
+// issued addresses. restore=true also re-seals them into fund_deposit_keys.
+// Body: { from_index?: number, limit?: number, restore?: boolean }
+async function handlePost(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const fromIndex = j?.from_index == null ? 0 : Number(j.from_index);
+    const limit = j?.limit == null ? 500 : Number(j.limit);
+    if (!Number.isSafeInteger(fromIndex) || fromIndex < 0) throw new Error("Bad from_index");
+    if (!Number.isFinite(limit) || limit <= 0 || limit > 5000) throw new Error("Bad limit");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/keys/recover");
+    if (paused) return paused;
+
+    const report = await recoverDepositKeys(sb, { fromIndex, limit, restore: j?.restore === true });
+
+    return NextResponse.json({ ok: report.mismatched.length === 0, ...report });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "recovery failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { reencryptDepositKeys } from "../../../../lib/fund/rekey";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+// Operator tool for FUND_KEY_ENC_SECRET rotation: re-seal deposit keys with FUND_KEY_ENC_ACTIVE.
+// Call repeatedly until remaining=0 and issues is empty, then retire the old secret.
+// Body: { limit?: number, dry_run?: boolean }
+async function handlePost(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const limit = j?.limit == null ? 200 : Number(j.limit);
+    if (!Number.isFinite(limit) || limit <= 0 || limit > 1000) throw new Error("Bad limit");
+
+    if (env("FUND_SIGNER", "env") !== "env") throw new Error("Deposit keys are not stored locally (FUND_SIGNER != env)");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/keys/rekey");
+    if (paused) return paused;
+
+    const result = await reencryptDepositKeys(sb, { limit, dryRun: j?.dry_run === true });
+
+    return NextResponse.json({ ok: result.issues.length === 0, ...result });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "rekey failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
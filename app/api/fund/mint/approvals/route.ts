@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { listMints, mintLimits, type MintRowStatus } from "../../../../lib/fund/mint-guard";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+
+const MINT_STATUSES = new Set(["pending_approval", "authorized", "minted", "rejected"]);
+
+// GET /api/fund/mint/approvals?status=pending_approval (operator queue + active limits)
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const status = (url.searchParams.get("status") ?? "pending_approval").trim();
+    if (status && !MINT_STATUSES.has(status)) throw new Error("Bad status");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const mints = await listMints(sb, { status: (status || undefined) as MintRowStatus | undefined });
+
+    return NextResponse.json({ ok: true, limits: mintLimits(), mints });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "mint approvals failed" }, { status: 400 });
+  }
+}
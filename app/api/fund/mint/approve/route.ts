@@ -0,0 +1,56 @@
+import { NextResponse, after } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { drainJobs } from "../../../../lib/fund/jobs";
+import { approveMint } from "../../../../lib/fund/mint-guard";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+// Two-step operator approval for mints above FUND_MINT_APPROVAL_THRESHOLD.
+// The second (different) operator authorizes the mint and re-queues the "mint" job.
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const ref = typeof j?.ref === "string" ? j.ref.trim() : "";
+    const operator = caller.id;
+
+    if (!ref) throw new Error("Missing ref");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/mint/approve");
+    if (paused) return paused;
+
+    const m = await approveMint(sb, ref, operator);
+
+    if (m.status === "authorized") {
+      // mint right away; the cron worker picks it up if this fails
+      after(async () => {
+        await drainJobs(sb, { ref: m.position_ref, limit: 1 }).catch(() => null);
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      mint: {
+        position_ref: m.position_ref,
+        status: m.status,
+        amount_usddd: Number(m.amount_usddd),
+        first_approved_by: m.first_approved_by,
+        second_approved_by: m.second_approved_by,
+      },
+      note: m.status === "authorized" ? "Authorized. Mint queued." : "First approval recorded. Needs a second operator.",
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "mint approve failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
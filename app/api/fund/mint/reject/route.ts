@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { rejectMint } from "../../../../lib/fund/mint-guard";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+// Reject a pending mint: the position is flagged for manual handling (e.g. refund)
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const ref = typeof j?.ref === "string" ? j.ref.trim() : "";
+    const operator = caller.id;
+    const reason = typeof j?.reason === "string" ? j.reason.trim() : "";
+
+    if (!ref) throw new Error("Missing ref");
+    if (!reason) throw new Error("Missing reason");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/mint/reject");
+    if (paused) return paused;
+
+    const m = await rejectMint(sb, ref, operator, reason);
+
+    return NextResponse.json({ ok: true, mint: { position_ref: m.position_ref, status: m.status } });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "mint reject failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
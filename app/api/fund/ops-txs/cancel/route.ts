@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { cancelOpsTx } from "../../../../lib/fund/ops-tx";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+// Operator cancel: replaces a pending ops tx (same nonce, higher gas price) with a 0-value self transfer.
+// The flow that sent it fails and retries through its job.
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const id = typeof j?.id === "string" ? j.id.trim() : "";
+    const operator = caller.id;
+
+    if (!id) throw new Error("Missing id");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/ops-txs/cancel");
+    if (paused) return paused;
+
+    const hash = await cancelOpsTx(sb, id, operator);
+
+    return NextResponse.json({ ok: true, id, cancel_tx_hash: hash, note: "Cancel sent; the job worker settles it." });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "ops tx cancel failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import type { Hex } from "viem";
+import { env } from "../../../../lib/fund/env";
+import { resolveOpsTxReview } from "../../../../lib/fund/ops-tx";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+function isHexTx(h: unknown): h is Hex {
+  return typeof h === "string" && /^0x([0-9a-fA-F]{64})$/.test(h);
+}
+
+// Operator resolution of an ops tx in "review" (nonce consumed, no receipt for any known hash):
+// POST { id, outcome: "failed", note }            nothing of ours mined; the step may send again
+// POST { id, outcome: "mined", tx_hash, note }    this tx used the nonce (checked on-chain)
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const id = typeof j?.id === "string" ? j.id.trim() : "";
+    const note = typeof j?.note === "string" ? j.note.trim() : "";
+    const outcome = j?.outcome === "mined" || j?.outcome === "failed" ? j.outcome : null;
+    const txHash = isHexTx(j?.tx_hash) ? j.tx_hash : null;
+
+    if (!id) throw new Error("Missing id");
+    if (!outcome) throw new Error("Bad outcome");
+    if (!note) throw new Error("Missing note");
+    if (outcome === "mined" && !txHash) throw new Error("Bad tx_hash");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/ops-txs/resolve");
+    if (paused) return paused;
+
+    const tx = await resolveOpsTxReview(
+      sb,
+      id,
+      caller.id,
+      outcome === "mined" && txHash ? { outcome, tx_hash: txHash, note } : { outcome: "failed", note }
+    );
+
+    return NextResponse.json({ ok: true, id: tx.id, status: tx.status, tx_hash: tx.tx_hash });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "ops tx resolve failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
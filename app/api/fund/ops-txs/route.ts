@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { listOpsTxs, type OpsTxStatus } from "../../../lib/fund/ops-tx";
+import { fundCaller, fundUnauthorized } from "../../../lib/fund/route-auth";
+
+export const dynamic = "force-dynamic";
+
+const OPS_TX_STATUSES = new Set(["signing", "pending", "cancelling", "review", "mined", "cancelled", "failed"]);
+
+// GET /api/fund/ops-txs?ref=FN-...&status=pending (ops wallet txs with their replacement hashes)
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    const status = (url.searchParams.get("status") ?? "").trim();
+    if (status && !OPS_TX_STATUSES.has(status)) throw new Error("Bad status");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const txs = await listOpsTxs(sb, { ref: ref || undefined, status: (status || undefined) as OpsTxStatus | undefined });
+
+    return NextResponse.json({ ok: true, txs });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "ops txs failed" }, { status: 400 });
+  }
+}
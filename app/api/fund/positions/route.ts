@@ -1,42 +1,49 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { accrualHistory } from "../../../lib/fund/accrual-ledger";
+import { refLookupAllowed } from "../../../lib/fund/ownership";
+import { fundUnauthorized, fundUser } from "../../../lib/fund/route-auth";
+import { maintenanceGate } from "../../../lib/maintenance";
 
-function env(name: string): string {
-  const v = process.env[name];
-  if (!v || !v.trim()) throw new Error(`Missing env: ${name}`);
-  return v.trim();
+const MAX_REFS = 50;
+
+// Attach the authoritative accrual history (ledger) to each position
+async function withAccrual(sb: SupabaseClient, rows: { id: string }[]) {
+  const history = await accrualHistory(sb, rows.map((r) => r.id));
+  return rows.map((r) => ({ ...r, accrual_history: history.get(r.id) ?? [] }));
 }
 
 export async function POST(req: Request) {
   try {
-    const j = await req.json().catch(() => ({} as any));
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
 
-    const session_id = typeof j?.session_id === "string" ? j.session_id.trim() : "";
-    const refs: string[] = Array.isArray(j?.refs) ? j.refs.map((x: any) => String(x).trim()).filter(Boolean) : [];
+    // claims: [{ ref, claim_secret }]; bare refs only reach positions issued before claim secrets
+    const secrets = new Map<string, string | null>();
+    if (Array.isArray(j?.claims)) {
+      for (const c of j.claims.slice(0, MAX_REFS)) {
+        const ref = typeof c?.ref === "string" ? c.ref.trim() : "";
+        if (ref) secrets.set(ref, typeof c?.claim_secret === "string" ? c.claim_secret.trim() : null);
+      }
+    }
+    if (Array.isArray(j?.refs)) {
+      for (const r of j.refs.slice(0, MAX_REFS)) {
+        const ref = String(r).trim();
+        if (ref && !secrets.has(ref)) secrets.set(ref, null);
+      }
+    }
+    const refs = Array.from(secrets.keys()).slice(0, MAX_REFS);
 
     const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
       auth: { persistSession: false },
     });
-    // Maintenance gate (DB-authoritative)
-    const { data: flags, error: flagsErr } = await sb.rpc("rpc_admin_flags");
-    if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    const row: any = Array.isArray(flags) ? flags[0] : flags;
-    if (row && row.pause_all) {
-      return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    }
+    const paused = await maintenanceGate(sb, "/api/fund/positions");
+    if (paused) return paused;
 
-
-    // Mode A: session_id -> resolve terminal user -> return all bound positions
-    if (session_id) {
-      const { data: sess, error: sessErr } = await sb
-        .from("dd_sessions")
-        .select("user_id")
-        .eq("session_id", session_id)
-        .limit(1)
-        .single();
-
-      if (sessErr || !sess) throw new Error("Session not found");
-      if (!sess.user_id) throw new Error("Session has no user_id");
+    // Mode A (user scope): { session: true } + Scan session cookie -> all bound positions
+    if (j?.session === true) {
+      const sess = await fundUser(sb, req);
+      if (!sess) return fundUnauthorized("Not signed in");
 
       const { data, error } = await sb
         .from("fund_positions")
@@ -44,6 +51,8 @@ export async function POST(req: Request) {
           id,
           position_ref,
           issued_deposit_address,
+          chain,
+          token,
           funded_usdt,
           funded_at,
           deposit_tx_hash,
@@ -54,8 +63,14 @@ export async function POST(req: Request) {
           gas_topup_bnb,
           gas_topup_at,
           usddd_allocated,
-          usddd_accrued_display,
+          usddd_accrued,
+          accrued_through,
+          usddd_accrual_started_at,
           created_at,
+          expires_at,
+          unlock_at,
+          withdraw_requested_at,
+          withdraw_tx_hash,
           terminal_user_id
         `)
         .eq("terminal_user_id", sess.user_id);
@@ -65,11 +80,11 @@ export async function POST(req: Request) {
       return NextResponse.json({
         ok: true,
         mode: "terminal_user",
-        positions: data ?? [],
+        positions: await withAccrual(sb, data ?? []),
       });
     }
 
-    // Mode B: refs -> return those positions (existing behavior)
+    // Mode B (public): refs + ownership proof -> those positions, without the bound user id
     if (refs.length === 0) {
       return NextResponse.json({ ok: true, mode: "refs", positions: [] });
     }
@@ -80,6 +95,8 @@ export async function POST(req: Request) {
         id,
         position_ref,
         issued_deposit_address,
+        chain,
+        token,
         funded_usdt,
         funded_at,
         deposit_tx_hash,
@@ -90,16 +107,27 @@ export async function POST(req: Request) {
         gas_topup_bnb,
         gas_topup_at,
         usddd_allocated,
-        usddd_accrued_display,
+        usddd_accrued,
+        accrued_through,
+        usddd_accrual_started_at,
         created_at,
-        terminal_user_id
+        expires_at,
+        unlock_at,
+        withdraw_requested_at,
+        withdraw_tx_hash,
+        terminal_user_id,
+        claim_secret_hash
       `)
       .in("position_ref", refs);
 
     if (error) throw error;
 
-    return NextResponse.json({ ok: true, mode: "refs", positions: data ?? [] });
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: e?.message ?? "positions failed" }, { status: 400 });
+    const visible = (data ?? [])
+      .filter((p) => refLookupAllowed(p, secrets.get(p.position_ref)))
+      .map((p) => ({ ...p, terminal_user_id: undefined, claim_secret_hash: undefined }));
+
+    return NextResponse.json({ ok: true, mode: "refs", positions: await withAccrual(sb, visible) });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "positions failed" }, { status: 400 });
   }
 }
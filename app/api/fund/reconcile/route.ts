@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { listReconciliations, reconcileSupply, type DriftDirection } from "../../../lib/fund/reconcile";
+import { fundCaller, fundUnauthorized } from "../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../lib/maintenance";
+
+// POST { mode: "dry_run" | "execute", ref?, direction?: "excess" | "shortfall", limit? } (operator scope)
+// Compares on-chain USDDD on deposit EOAs with allocation + accrual; execute burns/tops up drifts.
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const mode = j?.mode === "execute" ? "execute" : "dry_run";
+    const ref = typeof j?.ref === "string" ? j.ref.trim() : "";
+    const direction = j?.direction === "excess" || j?.direction === "shortfall" ? (j.direction as DriftDirection) : undefined;
+    const limit = Number.isFinite(Number(j?.limit)) ? Math.min(500, Math.max(1, Number(j.limit))) : undefined;
+    const operator = caller.id;
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = mode === "execute" ? await maintenanceGate(sb, "/api/fund/reconcile") : null;
+    if (paused) return paused;
+
+    const run = await reconcileSupply(sb, {
+      mode,
+      ref: ref || undefined,
+      direction,
+      limit,
+      actor: { kind: "operator", source: "fund/reconcile", id: operator || null },
+    });
+
+    return NextResponse.json({ ok: true, ...run });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "reconcile failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
+
+// GET /api/fund/reconcile?ref=FN-...&run_id=... (audit trail)
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    const runId = (url.searchParams.get("run_id") ?? "").trim();
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const reconciliations = await listReconciliations(sb, { ref: ref || undefined, runId: runId || undefined });
+
+    return NextResponse.json({ ok: true, reconciliations });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "reconciliations failed" }, { status: 400 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { approveRefund, executeRefund } from "../../../../lib/fund/refunds";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+// Operator approval: requested -> approved, then sends the USDT back from the deposit EOA.
+// Re-calling on an approved refund (e.g. after a failed send) retries the send.
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const id = typeof j?.id === "string" ? j.id.trim() : "";
+    const operator = caller.id;
+
+    if (!id) throw new Error("Missing id");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/refunds/approve");
+    if (paused) return paused;
+
+    const { data: current, error } = await sb.from("fund_refunds").select("status").eq("id", id).maybeSingle();
+    if (error || !current) throw new Error("Refund not found");
+
+    if (current.status === "requested") await approveRefund(sb, id, operator);
+
+    const refund = await executeRefund(sb, id, { kind: "operator", source: "fund/refunds/approve", id: operator });
+
+    return NextResponse.json({
+      ok: true,
+      refund: {
+        id: refund.id,
+        position_ref: refund.position_ref,
+        to_address: refund.to_address,
+        amount_usdt: Number(refund.amount_usdt),
+        status: refund.status,
+        refund_tx_hash: refund.refund_tx_hash,
+      },
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "refund approve failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { rejectRefund } from "../../../../lib/fund/refunds";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const id = typeof j?.id === "string" ? j.id.trim() : "";
+    const operator = caller.id;
+    const reason = typeof j?.reason === "string" ? j.reason.trim() : "";
+
+    if (!id) throw new Error("Missing id");
+    if (!reason) throw new Error("Missing reason");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/refunds/reject");
+    if (paused) return paused;
+
+    const refund = await rejectRefund(sb, id, operator, reason);
+
+    return NextResponse.json({ ok: true, refund: { id: refund.id, position_ref: refund.position_ref, status: refund.status } });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "refund reject failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { Hex } from "viem";
+import { env } from "../../../lib/fund/env";
+import { listRefunds, requestRefund, type RefundStatus } from "../../../lib/fund/refunds";
+import { fundCaller, fundUnauthorized, fundUser } from "../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+function isHexTx(h: unknown): h is Hex {
+  return typeof h === "string" && /^0x([0-9a-fA-F]{64})$/.test(h);
+}
+
+const REFUND_STATUSES = new Set(["requested", "approved", "sending", "sent", "rejected"]);
+
+// Refund request for an out-of-bounds deposit (replaces the recovery email for amount issues).
+// Owner scope: the Scan session bound to the position, or its claim_secret; operators may file too.
+// The refund only ever goes back to the sending address, after operator approval.
+async function handlePost(req: Request) {
+  try {
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const ref = typeof j?.ref === "string" ? j.ref.trim() : "";
+    const tx = typeof j?.tx_hash === "string" ? j.tx_hash.trim() : "";
+    const claimSecret = typeof j?.claim_secret === "string" ? j.claim_secret.trim() : null;
+
+    if (!ref) throw new Error("Missing ref");
+    if (!isHexTx(tx)) throw new Error("Bad tx_hash");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/refunds");
+    if (paused) return paused;
+
+    const operator = await fundCaller(req, "operator");
+    const terminalUserId = operator ? null : (await fundUser(sb, req))?.user_id ?? null;
+    if (!operator && !terminalUserId && !claimSecret) return fundUnauthorized("Sign in or pass the claim_secret");
+
+    const refund = await requestRefund(sb, {
+      ref,
+      txHash: tx,
+      requester: operator ? { kind: "operator", id: operator.id } : { kind: "owner", terminalUserId, claimSecret },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      refund: {
+        id: refund.id,
+        position_ref: refund.position_ref,
+        deposit_tx_hash: refund.deposit_tx_hash,
+        to_address: refund.to_address,
+        amount_usdt: Number(refund.amount_usdt),
+        status: refund.status,
+      },
+      note: "Refund requested. It is sent back to the sending address after operator approval.",
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "refund request failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
+
+// GET /api/fund/refunds?ref=FN-...&status=requested (operator queue)
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    const status = (url.searchParams.get("status") ?? "").trim();
+    if (status && !REFUND_STATUSES.has(status)) throw new Error("Bad status");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const refunds = await listRefunds(sb, { ref: ref || undefined, status: (status || undefined) as RefundStatus | undefined });
+
+    return NextResponse.json({ ok: true, refunds });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "refunds failed" }, { status: 400 });
+  }
+}
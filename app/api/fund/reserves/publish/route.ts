@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { publishReserveSnapshot } from "../../../../lib/fund/reserves";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+// Reserve snapshot tick (cron or operator): reads balances at one block, publishes the
+// liability Merkle root and stores the leaves and proofs served by GET /api/fund/reserves?ref=...
+async function run(req: Request) {
+  try {
+    if (!(await fundCaller(req, "internal"))) return fundUnauthorized();
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/reserves/publish");
+    if (paused) return paused;
+
+    const snapshot = await publishReserveSnapshot(sb);
+
+    return NextResponse.json({ ok: true, snapshot });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "reserve snapshot failed" }, { status: 400 });
+  }
+}
+
+export async function GET(req: Request) {
+  return run(req);
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, run);
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { latestReserveSnapshot, liabilityProof, reserveReport } from "../../../lib/fund/reserves";
+import { fundCaller, fundUnauthorized } from "../../../lib/fund/route-auth";
+import { maintenanceGate } from "../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+// Public proof of reserves.
+//   GET                         latest published snapshot (on-chain assets vs DB liabilities + Merkle root)
+//   GET ?ref=FN-...[&snapshot=] inclusion proof of one position's liability
+//   GET ?live=1                 fresh report with drifted refs, not published (no proofs); operator scope, it reads every chain
+export async function GET(req: Request) {
+  try {
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const paused = await maintenanceGate(sb, "/api/fund/reserves");
+    if (paused) return paused;
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    const snapshot = (url.searchParams.get("snapshot") ?? "").trim();
+
+    if (ref) {
+      const proof = await liabilityProof(sb, ref, snapshot || undefined);
+      return NextResponse.json({
+        ok: true,
+        ...proof,
+        note: "leaf = keccak256(abi.encode(position_ref, liability_raw)), liability_raw in 6 decimals; pairs hashed sorted.",
+      });
+    }
+
+    if (url.searchParams.get("live") === "1") {
+      if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+      return NextResponse.json({ ok: true, live: true, ...(await reserveReport(sb)) });
+    }
+
+    const latest = await latestReserveSnapshot(sb);
+    if (!latest) throw new Error("No reserve snapshot published yet");
+
+    return NextResponse.json({ ok: true, snapshot: latest });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "reserves failed" }, { status: 400 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import {
+  loginWithLegacySessionId,
+  loginWithTerminalToken,
+  revokeUserSession,
+  revokeUserSessions,
+  USER_COOKIE,
+  userSessionCookie,
+  userSessionFromRequest,
+} from "../../../lib/fund/user-session";
+
+export const dynamic = "force-dynamic";
+
+// Scan sign-in for Fund users (user scope). POST { login_token } (handoff link from the Terminal)
+// or, during the legacy migration window only, { legacy_session_id } sets the httpOnly session cookie.
+// GET returns the signed-in terminal user, DELETE signs out (?all=1 revokes every session of the user).
+// Not behind the maintenance gate: signing in stays possible during a pause or a flags outage.
+export async function POST(req: Request) {
+  try {
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const loginToken = typeof j?.login_token === "string" ? j.login_token.trim() : "";
+    const sessionId = typeof j?.legacy_session_id === "string" ? j.legacy_session_id.trim() : "";
+
+    if (!loginToken && !sessionId) throw new Error("Missing login_token");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const userAgent = req.headers.get("user-agent");
+    let login;
+    try {
+      login = loginToken
+        ? await loginWithTerminalToken(sb, loginToken, userAgent)
+        : await loginWithLegacySessionId(sb, sessionId, userAgent);
+    } catch (e: unknown) {
+      return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "login failed" }, { status: 401 });
+    }
+    const { session, token } = login;
+
+    const res = NextResponse.json({
+      ok: true,
+      terminal_user_id: session.terminal_user_id,
+      username: session.username,
+      expires_at: new Date(session.exp * 1000).toISOString(),
+    });
+    res.cookies.set(userSessionCookie(token, session.exp));
+    return res;
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "login failed" }, { status: 400 });
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const session = await userSessionFromRequest(sb, req);
+    if (!session) return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 401 });
+
+    return NextResponse.json({
+      ok: true,
+      terminal_user_id: session.terminal_user_id,
+      username: session.username,
+      expires_at: new Date(session.exp * 1000).toISOString(),
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "session failed" }, { status: 400 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const all = url.searchParams.get("all") === "1";
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const session = await userSessionFromRequest(sb, req);
+    let revoked = 0;
+    if (session && all) {
+      revoked = await revokeUserSessions(sb, session.terminal_user_id, "user logout (all sessions)");
+    } else if (session) {
+      await revokeUserSession(sb, session.id, "user logout");
+      revoked = 1;
+    }
+
+    const res = NextResponse.json({ ok: true, revoked });
+    res.cookies.set({ ...userSessionCookie("", 0), name: USER_COOKIE, maxAge: 0 });
+    return res;
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "logout failed" }, { status: 400 });
+  }
+}
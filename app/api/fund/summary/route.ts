@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { latestReserveSnapshot } from "../../../lib/fund/reserves";
+import { statusesInBucket } from "../../../lib/fund/status";
+import { maintenanceGate } from "../../../lib/maintenance";
 
 function env(name: string): string {
   const v = process.env[name];
@@ -7,7 +10,8 @@ function env(name: string): string {
   return v.trim();
 }
 
-const ACTIVE_STATUSES = new Set(["funded_locked", "swept_locked"]);
+const ACTIVE_STATUSES = new Set<string>(statusesInBucket("active"));
+const PENDING_STATUSES = new Set<string>(statusesInBucket("pending"));
 
 export async function GET(req: Request) {
   try {
@@ -15,14 +19,8 @@ export async function GET(req: Request) {
     const supabaseKey = env("SUPABASE_SERVICE_ROLE_KEY");
     const sb = createClient(supabaseUrl, supabaseKey, { auth: { persistSession: false } });
 
-    // Maintenance gate (DB-authoritative)
-    const { data: flags, error: flagsErr } = await sb.rpc("rpc_admin_flags");
-    if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    const row: any = Array.isArray(flags) ? flags[0] : flags;
-    if (row && row.pause_all) {
-      return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    }
-
+    const paused = await maintenanceGate(sb, "/api/fund/summary");
+    if (paused) return paused;
 
     const url = new URL(req.url);
     const terminalUserId = (url.searchParams.get("terminal_user_id") || "").trim() || null;
@@ -55,11 +53,11 @@ export async function GET(req: Request) {
       }
     }
 
-    const pending = (counts["awaiting_funds"] ?? 0) + (counts["issued"] ?? 0);
+    const reserves = await latestReserveSnapshot(sb);
 
-    const fundedLocked = counts["funded_locked"] ?? 0;
-    const sweptLocked = counts["swept_locked"] ?? 0;
-    const active = fundedLocked + sweptLocked;
+    const sumOf = (set: Set<string>) => Array.from(set).reduce((n, s) => n + (counts[s] ?? 0), 0);
+    const pending = sumOf(PENDING_STATUSES);
+    const active = sumOf(ACTIVE_STATUSES);
 
     return NextResponse.json({
       ok: true,
@@ -87,10 +85,24 @@ export async function GET(req: Request) {
           }
         : null,
 
+      // Latest published proof of reserves (on-chain); details at /api/fund/reserves
+      reserves: reserves
+        ? {
+            snapshot_id: reserves.id,
+            created_at: reserves.created_at,
+            block_number: reserves.block_number,
+            merkle_root: reserves.merkle.root,
+            treasury_usdt: reserves.assets.treasury_usdt,
+            liabilities_usdt: reserves.liabilities.total_usdt,
+            reserve_ratio: reserves.checks.reserve_ratio,
+            usdt_covered: reserves.checks.usdt_covered,
+          }
+        : null,
+
       note:
-        "Fund Network summary (Scan). Active positions = funded_locked + swept_locked. Add ?terminal_user_id=... for per-user totals.",
+        "Fund Network summary (Scan). Active/pending buckets come from the fund status table. Add ?terminal_user_id=... for per-user totals. Proof of reserves: /api/fund/reserves.",
     });
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: e?.message ?? "summary failed" }, { status: 400 });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "summary failed" }, { status: 400 });
   }
 }
@@ -0,0 +1,48 @@
+import { NextResponse, after } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../../lib/fund/env";
+import { drainJobs } from "../../../../lib/fund/jobs";
+import { approveWithdrawal } from "../../../../lib/fund/withdrawals";
+import { fundCaller, fundUnauthorized } from "../../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../../lib/maintenance";
+
+// Operator approval: requested -> approved and queues the "withdraw" settlement job
+// (burn USDDD, pay USDT). Settlement retries through the job worker.
+async function handlePost(req: Request) {
+  try {
+    const caller = await fundCaller(req, "operator");
+    if (!caller) return fundUnauthorized();
+
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const id = typeof j?.id === "string" ? j.id.trim() : "";
+    const operator = caller.id;
+
+    if (!id) throw new Error("Missing id");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/withdrawals/approve");
+    if (paused) return paused;
+
+    const w = await approveWithdrawal(sb, id, operator);
+
+    // settle right away; the cron worker picks it up if this fails
+    after(async () => {
+      await drainJobs(sb, { ref: w.position_ref, limit: 1 }).catch(() => null);
+    });
+
+    return NextResponse.json({
+      ok: true,
+      withdrawal: { id: w.id, position_ref: w.position_ref, status: w.status, payout_usdt: Number(w.payout_usdt) },
+      note: "Approved. Settlement queued.",
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "withdrawal approve failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
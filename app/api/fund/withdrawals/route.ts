@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { env } from "../../../lib/fund/env";
+import { listWithdrawals, requestWithdrawal, type WithdrawalStatus } from "../../../lib/fund/withdrawals";
+import { fundCaller, fundUnauthorized, fundUser } from "../../../lib/fund/route-auth";
+import { withIdempotencyKey } from "../../../lib/fund/idempotency";
+import { maintenanceGate } from "../../../lib/maintenance";
+
+export const dynamic = "force-dynamic";
+
+const WITHDRAWAL_STATUSES = new Set(["requested", "approved", "settling", "settled", "rejected"]);
+
+// Withdrawal request for an unlocked swept_locked position (user scope). The Scan session must
+// belong to the position's bound terminal_user_id.
+async function handlePost(req: Request) {
+  try {
+    const j: Record<string, unknown> = await req.json().catch(() => ({}));
+    const ref = typeof j?.ref === "string" ? j.ref.trim() : "";
+    const toAddress = typeof j?.to_address === "string" ? j.to_address.trim() : "";
+
+    if (!ref) throw new Error("Missing ref");
+    if (!toAddress) throw new Error("Missing to_address");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+    const paused = await maintenanceGate(sb, "/api/fund/withdrawals");
+    if (paused) return paused;
+
+    const sess = await fundUser(sb, req);
+    if (!sess) return fundUnauthorized("Not signed in");
+
+    const w = await requestWithdrawal(sb, { ref, terminalUserId: sess.user_id, toAddress });
+
+    return NextResponse.json({
+      ok: true,
+      withdrawal: {
+        id: w.id,
+        position_ref: w.position_ref,
+        to_address: w.to_address,
+        usddd_principal: Number(w.usddd_principal),
+        usddd_accrued: Number(w.usddd_accrued),
+        payout_usdt: Number(w.payout_usdt),
+        status: w.status,
+      },
+      status: "withdraw_requested",
+      note: "Withdrawal requested. Accrual has stopped; USDT is sent after operator approval.",
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "withdrawal request failed" }, { status: 400 });
+  }
+}
+
+export async function POST(req: Request) {
+  return withIdempotencyKey(req, handlePost);
+}
+
+// GET /api/fund/withdrawals?ref=FN-...&status=requested (operator queue)
+export async function GET(req: Request) {
+  try {
+    if (!(await fundCaller(req, "operator"))) return fundUnauthorized();
+
+    const url = new URL(req.url);
+    const ref = (url.searchParams.get("ref") ?? "").trim();
+    const status = (url.searchParams.get("status") ?? "").trim();
+    if (status && !WITHDRAWAL_STATUSES.has(status)) throw new Error("Bad status");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const withdrawals = await listWithdrawals(sb, {
+      ref: ref || undefined,
+      status: (status || undefined) as WithdrawalStatus | undefined,
+    });
+
+    return NextResponse.json({ ok: true, withdrawals });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "withdrawals failed" }, { status: 400 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { maintenanceGate } from "../../../lib/maintenance";
 
 function reqEnv(name: string) {
   const v = process.env[name];
@@ -26,11 +27,8 @@ export async function GET(req: Request) {
     auth: { persistSession: false },
   });
 
-  // Maintenance gate (DB-authoritative)
-  const { data: flags, error: flagsErr } = await supabase.rpc("rpc_admin_flags");
-  if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-  const row: any = Array.isArray(flags) ? flags[0] : flags;
-  if (row && row.pause_all) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
+  const paused = await maintenanceGate(supabase, "/api/golden-finds/payment");
+  if (paused) return paused;
 
   // 1) Find event by claim_code
   const { data: ev, error: evErr } = await supabase
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { maintenanceGate } from "../../../lib/maintenance";
 
 function env(name: string) {
   const v = process.env[name];
@@ -18,11 +19,8 @@ function todayUTC(): string {
 }
 
 export async function GET() {
-  // Maintenance gate (DB-authoritative)
-  const { data: flags, error: flagsErr } = await supabase.rpc("rpc_admin_flags");
-  if (flagsErr) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-  const row: any = Array.isArray(flags) ? flags[0] : flags;
-  if (row && row.pause_all) return NextResponse.json({ ok: false, paused: true }, { status: 503 });
+  const paused = await maintenanceGate(supabase, "/api/golden/today");
+  if (paused) return paused;
 
   try {
     const day = todayUTC();
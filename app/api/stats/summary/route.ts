@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { maintenanceGate } from "../../../lib/maintenance";
 
 function reqEnv(name: string) {
   const v = process.env[name];
@@ -17,28 +19,10 @@ function isRpcErr(v: unknown): v is RpcErr {
 }
 
 export async function GET() {
-  // Maintenance gate (DB-authoritative)
-  try {
-    const fr = await fetch(`${SUPABASE_URL}/rest/v1/rpc/rpc_admin_flags`, {
-      method: "POST",
-      headers: {
-        apikey: SUPABASE_SERVICE_ROLE_KEY,
-        Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({}),
-    });
-
-    const ft = await fr.text();
-    const fj = ft ? JSON.parse(ft) : null;
+  const sb = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } });
+  const paused = await maintenanceGate(sb, "/api/stats/summary");
+  if (paused) return paused;
 
-    if (fr.ok && fj && typeof fj === "object" && Boolean((fj as any).pause_all)) {
-      return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-    }
-  } catch {
-    // If flags cannot be read, fail closed (maintenance).
-    return NextResponse.json({ ok: false, paused: true }, { status: 503 });
-  }
   // Call the same RPC used by digdug-terminal: /rest/v1/rpc/stats_summary
   const r = await fetch(`${SUPABASE_URL}/rest/v1/rpc/stats_summary`, {
     method: "POST",
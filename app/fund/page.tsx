@@ -4,6 +4,7 @@ import Image from "next/image";
 import Link from "next/link";
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { getPublicFlags } from "../lib/flags";
+import { fundStage } from "../lib/fund/status";
 import { FundMaintenance } from "../_maintenance/FundMaintenance";
 
 type BuildMeta = { version: string; build: string; deployed_at: string };
@@ -27,6 +28,8 @@ type IssuedPosition = {
   deposit_address: string;
   chain: string;
   token: string;
+  chain_name?: string;
+  token_symbol?: string;
   min_usdt: number;
   max_usdt: number;
   status: string;
@@ -41,6 +44,8 @@ type DbPosition = {
   id: string;
   position_ref: string;
   issued_deposit_address: string;
+  chain?: string | null;
+  token?: string | null;
   status: string;
   created_at: string;
 
@@ -56,9 +61,22 @@ type DbPosition = {
   swept_at?: string | null;
 
   usddd_allocated?: number | string | null;
-  usddd_accrued_display?: number | string | null;
+  usddd_accrued?: number | string | null;
+  accrued_through?: string | null;
   usddd_accrual_started_at?: string | null;
-
+  accrual_history?: {
+    accrual_date: string;
+    period_start: string;
+    period_end: string;
+    principal_usddd: number;
+    rate_pct: number;
+    amount_usddd: number;
+  }[];
+
+  expires_at?: string | null;
+  unlock_at?: string | null;
+  withdraw_requested_at?: string | null;
+  withdraw_tx_hash?: string | null;
   terminal_user_id?: string | null;
 };
 
@@ -69,12 +87,32 @@ const LINKS = {
   docs: "https://github.com/noblegatefze/digdug-whitepaper",
 };
 
+// Chains/tokens a position can be issued on (GET /api/fund/assets)
+type FundAssetOption = {
+  chain: string;
+  chain_name: string;
+  chain_id: number;
+  token: string;
+  symbol: string;
+  token_address: string;
+  decimals: number;
+  confirmations: number;
+  explorer: string;
+};
+
+// Signed-in Scan session (GET /api/fund/session)
+type TerminalUser = { terminal_user_id: string; username: string | null };
+
+// JSON body of a /api/fund call: ok/error plus the fields the caller reads
+type ApiResp<T = object> = { ok?: boolean; error?: string } & Partial<T>;
+
 const BSC_SCAN_BASE = "https://bscscan.com";
 const USDDD_TOKEN_BEP20 = "0x03f65216F340bAC39c8d1911288B1c7CA071e9c3";
 
 const LOCAL_REFS_KEY = "usddd_fund_refs_v1";
-const LOCAL_SESSION_KEY = "usddd_terminal_session_id_v1";
+const LOCAL_SESSION_KEY = "usddd_terminal_session_id_v1"; // legacy, migrated on load
 const LOCAL_DISMISSED_KEY = "usddd_dismissed_positions_v1";
+const LOCAL_CLAIMS_KEY = "usddd_fund_claims_v1"; // ref -> claim secret from issue-address
 
 function fmtPct2(n: number) {
   return `${(Number.isFinite(n) ? n : 0).toFixed(2)}%`;
@@ -205,34 +243,63 @@ function saveRefs(refs: string[]) {
   }
 }
 
-function readSessionId(): string {
+function readClaims(): Record<string, string> {
   try {
-    return (localStorage.getItem(LOCAL_SESSION_KEY) ?? "").trim();
+    const raw = localStorage.getItem(LOCAL_CLAIMS_KEY);
+    if (!raw) return {};
+    const j = JSON.parse(raw);
+    if (!j || typeof j !== "object" || Array.isArray(j)) return {};
+    return Object.fromEntries(Object.entries(j).filter(([, v]) => typeof v === "string")) as Record<string, string>;
   } catch {
-    return "";
+    return {};
   }
 }
-function saveSessionId(v: string) {
+function saveClaim(ref: string, secret: string) {
   try {
-    if (!v.trim()) localStorage.removeItem(LOCAL_SESSION_KEY);
-    else localStorage.setItem(LOCAL_SESSION_KEY, v.trim());
+    localStorage.setItem(LOCAL_CLAIMS_KEY, JSON.stringify({ ...readClaims(), [ref]: secret }));
   } catch {
     // ignore
   }
 }
+// ownership proof for bind / ref lookups; refs issued before claim secrets go without one
+function claimsFor(refs: string[]): { ref: string; claim_secret?: string }[] {
+  const claims = readClaims();
+  return refs.map((ref) => (claims[ref] ? { ref, claim_secret: claims[ref] } : { ref }));
+}
+
+// older builds kept the pasted Terminal session_id here; it is traded for a Scan session once, then dropped
+function takeLegacySessionId(): string {
+  try {
+    const v = (localStorage.getItem(LOCAL_SESSION_KEY) ?? "").trim();
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+    return v;
+  } catch {
+    return "";
+  }
+}
+
+async function startScanSession(body: { login_token: string } | { legacy_session_id: string }): Promise<TerminalUser> {
+  const r = await fetch("/api/fund/session", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+    cache: "no-store",
+  });
+  const j: ApiResp<TerminalUser> | null = await r.json().catch(() => null);
+  if (!j?.ok) throw new Error(j?.error ?? "Sign-in failed");
+  return { terminal_user_id: String(j.terminal_user_id), username: j.username ?? null };
+}
 
 function statusToStage(status: string) {
-  const s = String(status || "");
-  if (s === "awaiting_funds") return { title: "Awaiting", hint: "Send USDT (BEP-20) then confirm with tx hash." };
-  if (s === "funded_locked") return { title: "Funded", hint: "Deposit verified. Next: sweep (automatic)." };
-  if (s === "swept_locked") return { title: "Allocated", hint: "USDDD allocated. Accrual active. Withdraw locked." };
-  return { title: s || "Unknown", hint: "Status reported by protocol." };
+  // derived from the shared fund status table (same one the API routes enforce)
+  const { title, hint } = fundStage(status);
+  return { title, hint };
 }
 
-function TxLink({ hash }: { hash: string }) {
+function TxLink({ hash, explorer }: { hash: string; explorer?: string }) {
   return (
     <a
-      href={`${BSC_SCAN_BASE}/tx/${hash}`}
+      href={`${explorer || BSC_SCAN_BASE}/tx/${hash}`}
       target="_blank"
       rel="noreferrer"
       className="font-mono text-[11px] text-slate-200 hover:underline"
@@ -247,6 +314,7 @@ export default function FundNetworkPage() {
   // ---- FLAGS GATE (do not early-return before hooks) ----
   const [paused, setPaused] = useState(false);
   const [flagsLoaded, setFlagsLoaded] = useState(false);
+  const [issuePaused, setIssuePaused] = useState<string | null>(null);
 
   useEffect(() => {
     let alive = true;
@@ -255,6 +323,7 @@ export default function FundNetworkPage() {
         const flags = await getPublicFlags();
         if (!alive) return;
         setPaused(Boolean(flags?.pause_all));
+        if (flags?.pause_fund_issue) setIssuePaused(flags.pause_reason?.trim() || "New fund positions are paused.");
       } finally {
         if (alive) setFlagsLoaded(true);
       }
@@ -271,6 +340,8 @@ export default function FundNetworkPage() {
   const [ack, setAck] = useState(false);
   const [issuing, setIssuing] = useState(false);
   const [issueErr, setIssueErr] = useState<string | null>(null);
+  const [assets, setAssets] = useState<FundAssetOption[]>([]);
+  const [assetKey, setAssetKey] = useState("bsc:usdt");
 
   const [hideAwaiting, setHideAwaiting] = useState(true);
   const [dismissedRefs, setDismissedRefs] = useState<string[]>([]);
@@ -287,11 +358,11 @@ export default function FundNetworkPage() {
     total_funded_usdt: number;
   } | null>(null);
 
-  const [sessionId, setSessionId] = useState<string>("");
-  const sessionIdRef = useRef<string>("");
+  const [terminalUser, setTerminalUser] = useState<TerminalUser | null>(null);
+  const terminalUserRef = useRef<TerminalUser | null>(null);
   useEffect(() => {
-    sessionIdRef.current = sessionId;
-  }, [sessionId]);
+    terminalUserRef.current = terminalUser;
+  }, [terminalUser]);
 
   const [bindErr, setBindErr] = useState<string | null>(null);
   const [binding, setBinding] = useState(false);
@@ -309,7 +380,19 @@ export default function FundNetworkPage() {
     message?: string;
     tries: number;
     major: boolean;
+    refundable?: boolean;
+    recoveryFallback?: boolean;
   }>({ open: false, ref: "", tx: "", stage: "idle", tries: 0, major: false });
+  const [refunding, setRefunding] = useState(false);
+
+  const [withdrawModal, setWithdrawModal] = useState<{
+    open: boolean;
+    ref: string;
+    to: string;
+    busy: boolean;
+    message?: string;
+    done?: boolean;
+  }>({ open: false, ref: "", to: "", busy: false });
 
   // ---- derived model ----
   const model = activity?.model ?? {};
@@ -329,36 +412,30 @@ export default function FundNetworkPage() {
 
   const rewardEff = typeof model.reward_efficiency_usd_per_usddd === "number" ? model.reward_efficiency_usd_per_usddd : null;
 
-  // accrual clock
+  // clock for lockup countdowns
   const [nowMs, setNowMs] = useState<number>(() => Date.now());
   useEffect(() => {
     const t = setInterval(() => setNowMs(Date.now()), 5000);
     return () => clearInterval(t);
   }, []);
 
+  // authoritative: allocation + accrual booked in the server ledger
   function computeAccruedTotalUsddd(p: DbPosition): number | null {
     const principal = Number(p?.usddd_allocated ?? 0);
     if (!Number.isFinite(principal) || principal <= 0) return null;
 
-    const startMs = p?.swept_at ? Date.parse(String(p.swept_at)) : NaN;
-    if (!Number.isFinite(startMs)) return principal;
-    if (typeof appliedAccrualPct !== "number") return principal;
-
-    const elapsedSec = Math.max(0, (nowMs - startMs) / 1000);
-    const yearSec = 365 * 24 * 60 * 60;
-    const yieldAmt = principal * (appliedAccrualPct / 100) * (elapsedSec / yearSec);
-    const total = principal + yieldAmt;
-    return Number.isFinite(total) ? total : principal;
+    const accrued = Number(p?.usddd_accrued ?? 0);
+    return principal + (Number.isFinite(accrued) ? accrued : 0);
   }
 
   // ---- helpers ----
   async function hydrateDbByRefsOrSession() {
-    const sid = sessionIdRef.current.trim();
+    const signedIn = Boolean(terminalUserRef.current);
     const refs = readSavedRefs();
 
     setLoadingDb(true);
     try {
-      const body: any = sid ? { session_id: sid } : { refs };
+      const body: Record<string, unknown> = signedIn ? { session: true } : { claims: claimsFor(refs) };
       const r = await fetch("/api/fund/positions", {
         method: "POST",
         headers: { "content-type": "application/json" },
@@ -366,15 +443,22 @@ export default function FundNetworkPage() {
         cache: "no-store",
       });
 
-      const j: any = await r.json().catch(() => null);
+      // session expired or revoked: fall back to this browser's refs on the next pass
+      if (signedIn && r.status === 401) {
+        setTerminalUser(null);
+        setBound(false);
+        return;
+      }
+
+      const j: ApiResp<{ positions: DbPosition[]; mode: string }> | null = await r.json().catch(() => null);
       if (j?.ok && Array.isArray(j.positions)) {
-        const arr = (j.positions as DbPosition[]).slice().sort((a, b) => {
+        const arr = j.positions.slice().sort((a, b) => {
           const ta = Date.parse(String(a.created_at || ""));
           const tb = Date.parse(String(b.created_at || ""));
           return (Number.isFinite(tb) ? tb : 0) - (Number.isFinite(ta) ? ta : 0);
         });
         setDbPositions(arr);
-        setBound(Boolean(sid) && j.mode === "terminal_user");
+        setBound(signedIn && j.mode === "terminal_user");
       }
     } catch {
       // ignore
@@ -386,19 +470,19 @@ export default function FundNetworkPage() {
   function isMajorConfirmError(msg: string) {
     const m = String(msg || "").toLowerCase();
     return (
-      m.includes("amount out of bounds") ||
-      m.includes("no matching usdt transfer") ||
+      /no matching \w+ transfer/.test(m) ||
       m.includes("send only usdt") ||
       m.includes("wrong token") ||
       m.includes("wrong chain")
     );
   }
 
+  // Fallback for deposits the refund request cannot handle (wrong token/chain, several senders)
   function mailtoRecovery(ref: string, tx: string) {
     const to = "hq@noblegate.ae";
     const subject = encodeURIComponent(`USDDD Fund Recovery Request - ${ref}`);
     const body = encodeURIComponent(
-      `Hello HQ,\n\nI need help recovering a deposit sent to a USDDD Fund Network address.\n\nRef: ${ref}\nTx hash: ${tx}\nSession id (if available): ${sessionIdRef.current.trim()}\n\nNotes:\n- I may have used the wrong token/chain or made an incorrect transfer.\n- Please advise the recovery process.\n\nThank you.`
+      `Hello HQ,\n\nI need help recovering a deposit sent to a USDDD Fund Network address.\n\nRef: ${ref}\nTx hash: ${tx}\nTerminal user (if linked): ${terminalUserRef.current?.terminal_user_id ?? ""}\n\nNotes:\n- I may have used the wrong token/chain or made an incorrect transfer.\n- Please advise the recovery process.\n\nThank you.`
     );
     window.location.href = `mailto:${to}?subject=${subject}&body=${body}`;
   }
@@ -406,12 +490,70 @@ export default function FundNetworkPage() {
   // ---- effects (guarded when paused) ----
   useEffect(() => {
     if (!flagsLoaded || paused) return;
-    setSessionId(readSessionId());
     setDismissedRefs(readDismissedRefs());
-    void hydrateDbByRefsOrSession();
+
+    let cancelled = false;
+    (async () => {
+      // Terminal handoff link: /fund?login=<token>; the token is single-use, strip it from the URL
+      const url = new URL(window.location.href);
+      const loginToken = (url.searchParams.get("login") ?? "").trim();
+      if (loginToken) {
+        url.searchParams.delete("login");
+        window.history.replaceState(null, "", url.pathname + url.search + url.hash);
+      }
+      const legacySessionId = takeLegacySessionId();
+
+      let user: TerminalUser | null = null;
+      try {
+        if (loginToken) user = await startScanSession({ login_token: loginToken });
+        else if (legacySessionId) user = await startScanSession({ legacy_session_id: legacySessionId });
+      } catch (e: unknown) {
+        if (!cancelled) setBindErr(e instanceof Error ? e.message : "Sign-in failed");
+      }
+
+      if (!user) {
+        try {
+          const r = await fetch("/api/fund/session", { cache: "no-store" });
+          const j: ApiResp<TerminalUser> | null = await r.json().catch(() => null);
+          if (j?.ok) user = { terminal_user_id: String(j.terminal_user_id), username: j.username ?? null };
+        } catch {
+          // ignore (not signed in)
+        }
+      }
+
+      if (cancelled) return;
+      terminalUserRef.current = user;
+      setTerminalUser(user);
+      void hydrateDbByRefsOrSession();
+    })();
+    return () => {
+      cancelled = true;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [flagsLoaded, paused]);
 
+  useEffect(() => {
+    if (!flagsLoaded || paused) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const r = await fetch("/api/fund/assets");
+        const j: ApiResp<{ assets: FundAssetOption[]; default: { chain: string; token: string } }> | null = await r
+          .json()
+          .catch(() => null);
+        if (!cancelled && j?.ok && Array.isArray(j.assets)) {
+          setAssets(j.assets);
+          if (j.default) setAssetKey(`${j.default.chain}:${j.default.token}`);
+        }
+      } catch {
+        // ignore (issue-address falls back to the default chain/token)
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [flagsLoaded, paused]);
+
   useEffect(() => {
     if (!flagsLoaded || paused) return;
     let cancelled = false;
@@ -456,7 +598,7 @@ export default function FundNetworkPage() {
       clearInterval(t);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [flagsLoaded, paused, sessionId]);
+  }, [flagsLoaded, paused, terminalUser?.terminal_user_id]);
 
   useEffect(() => {
     if (!flagsLoaded || paused) return;
@@ -495,7 +637,7 @@ export default function FundNetworkPage() {
   const visibleDbPositions = useMemo(() => {
     return dbPositions.filter((p) => {
       if (dismissedSet.has(p.position_ref)) return false;
-      if (hideAwaiting && String(p.status) === "awaiting_funds") return false;
+      if (hideAwaiting && (String(p.status) === "awaiting_funds" || String(p.status) === "expired")) return false;
       return true;
     });
   }, [dbPositions, dismissedSet, hideAwaiting]);
@@ -514,24 +656,47 @@ export default function FundNetworkPage() {
     }, 0);
   }, [visibleDbPositions]);
 
+  const selectedAsset = assets.find((a) => `${a.chain}:${a.token}` === assetKey) ?? null;
+
+  function explorerFor(chain?: string | null): string | undefined {
+    return assets.find((a) => a.chain === (chain || "bsc"))?.explorer || undefined;
+  }
+
   // ---- actions ----
+  // Idempotency-Key per user action: reused while the server may not have answered yet (network
+  // error, double click), dropped once a response came back so the next attempt is a new request
+  const actionKeys = useRef<Record<string, string>>({});
+  function actionKey(action: string): string {
+    return (actionKeys.current[action] ??= crypto.randomUUID());
+  }
+  function actionAnswered(action: string, r: Response) {
+    if (r.status !== 409) delete actionKeys.current[action];
+  }
+
   async function issueNewPosition() {
     if (!ack) return;
     setIssueErr(null);
     setIssuing(true);
     try {
-      const r = await fetch("/api/fund/issue-address", { method: "POST" });
-      const j: any = await r.json().catch(() => null);
-      if (!r.ok || !j?.ok) {
+      const [chain, token] = assetKey.split(":");
+      const r = await fetch("/api/fund/issue-address", {
+        method: "POST",
+        headers: { "content-type": "application/json", "idempotency-key": actionKey("issue") },
+        body: JSON.stringify({ chain, token }),
+      });
+      actionAnswered("issue", r);
+      const j: ApiResp<{ position: IssuedPosition & { claim_secret?: string } }> | null = await r.json().catch(() => null);
+      if (!r.ok || !j?.ok || !j.position) {
         setIssueErr(j?.error ?? "Failed to generate deposit address");
         return;
       }
 
-      const p = j.position as IssuedPosition;
+      const p = j.position;
       setPositions((prev) => [p, ...prev]);
 
       const refs = Array.from(new Set([...readSavedRefs(), p.ref]));
       saveRefs(refs);
+      if (p.claim_secret) saveClaim(p.ref, p.claim_secret);
 
       void hydrateDbByRefsOrSession();
 
@@ -539,19 +704,18 @@ export default function FundNetworkPage() {
         const el = document.getElementById("receipts");
         if (el) el.scrollIntoView({ behavior: "smooth", block: "start" });
       }, 50);
-    } catch (e: any) {
-      setIssueErr(e?.message ?? "Failed to generate deposit address");
+    } catch (e: unknown) {
+      setIssueErr(e instanceof Error ? e.message : "Failed to generate deposit address");
     } finally {
       setIssuing(false);
     }
   }
 
   async function bindToTerminal() {
-    const sid = sessionId.trim();
     setBindErr(null);
 
-    if (!sid) {
-      setBindErr("Enter your Terminal session_id.");
+    if (!terminalUserRef.current) {
+      setBindErr("Open Fund from the Terminal to sign in first.");
       return;
     }
 
@@ -559,33 +723,49 @@ export default function FundNetworkPage() {
     try {
       const refs = readSavedRefs();
       if (refs.length === 0) {
-        setBindErr("No saved refs in this browser yet. Generate a position first.");
+        setBound(true);
+        await hydrateDbByRefsOrSession();
         return;
       }
 
       const r = await fetch("/api/fund/bind", {
         method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ session_id: sid, refs }),
+        headers: { "content-type": "application/json", "idempotency-key": actionKey("bind") },
+        body: JSON.stringify({ claims: claimsFor(refs) }),
         cache: "no-store",
       });
+      actionAnswered("bind", r);
 
-      const j: any = await r.json().catch(() => null);
+      const j: ApiResp<{ refused: { ref: string; reason: string }[] }> | null = await r.json().catch(() => null);
       if (!j?.ok) {
         setBindErr(j?.error ?? "Bind failed");
         return;
       }
 
-      saveSessionId(sid);
       setBound(true);
+      if (Array.isArray(j.refused) && j.refused.length > 0) {
+        setBindErr(`Not bound: ${j.refused.map((x) => `${x.ref} (${x.reason})`).join(", ")}`);
+      }
       await hydrateDbByRefsOrSession();
-    } catch (e: any) {
-      setBindErr(e?.message ?? "Bind failed");
+    } catch (e: unknown) {
+      setBindErr(e instanceof Error ? e.message : "Bind failed");
     } finally {
       setBinding(false);
     }
   }
 
+  async function signOut() {
+    try {
+      await fetch("/api/fund/session", { method: "DELETE", cache: "no-store" });
+    } catch {
+      // ignore (the cookie expires on its own)
+    }
+    terminalUserRef.current = null;
+    setTerminalUser(null);
+    setBound(false);
+    await hydrateDbByRefsOrSession();
+  }
+
   async function confirmDeposit(ref: string) {
     const tx = (txInputs[ref] ?? "").trim();
     if (!tx) {
@@ -607,12 +787,18 @@ export default function FundNetworkPage() {
     }));
 
     try {
+      const action = `confirm:${ref}:${tx}`;
       const r = await fetch("/api/fund/confirm", {
         method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ ref, tx_hash: tx, session_id: sessionIdRef.current.trim() || null }),
+        headers: { "content-type": "application/json", "idempotency-key": actionKey(action) },
+        body: JSON.stringify({
+          ref,
+          tx_hash: tx,
+          claim_secret: readClaims()[ref] ?? null,
+        }),
         cache: "no-store",
       });
+      actionAnswered(action, r);
 
       const j: any = await r.json().catch(() => null);
       if (!j?.ok) {
@@ -629,25 +815,38 @@ export default function FundNetworkPage() {
         return;
       }
 
-      // success
+      // success (partial / over-max deposits are tracked server-side, not errors)
+      let message = "Position added OK";
+      if (j.partial) {
+        message = `Partial deposit recorded: ${fmtDec(Number(j.received_usdt ?? 0), 2)} USDT of min ${fmtDec(Number(j.min_usdt ?? 0), 2)}. Send the rest to the same address and confirm again.`;
+      } else if (Number(j.excess_usdt ?? 0) > 0) {
+        message = `Position added OK. ${fmtDec(Number(j.excess_usdt), 2)} USDT above the maximum is queued for refund.`;
+      } else if (j.status === "confirming") {
+        message = `Deposit seen. Waiting for confirmations (${j.confirmations ?? 0}/${j.required_confirmations ?? "?"}).`;
+      }
+
+      const refundable = Boolean(j.partial) || Number(j.excess_usdt ?? 0) > 0;
       setConfirmModal((prev) => ({
         ...prev,
         open: true,
         stage: "success",
-        message: "Position added OK",
+        message,
         major: false,
+        refundable,
       }));
 
       await hydrateDbByRefsOrSession();
 
-      setPositions((prev) => prev.filter((p) => p.ref !== ref));
+      if (!j.partial) setPositions((prev) => prev.filter((p) => p.ref !== ref));
       setTxInputs((prev) => ({ ...prev, [ref]: "" }));
 
-      setTimeout(() => {
-        setConfirmModal((prev) => ({ ...prev, open: false, stage: "idle", message: undefined }));
-      }, 900);
-    } catch (e: any) {
-      const msg = String(e?.message ?? "Confirm failed");
+      if (!refundable) {
+        setTimeout(() => {
+          setConfirmModal((prev) => ({ ...prev, open: false, stage: "idle", message: undefined }));
+        }, message === "Position added OK" ? 900 : 4000);
+      }
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : "Confirm failed";
       const major = isMajorConfirmError(msg);
       setConfirmErr((prev) => ({ ...prev, [ref]: msg }));
       setConfirmModal((prev) => ({
@@ -662,6 +861,74 @@ export default function FundNetworkPage() {
     }
   }
 
+  async function requestRefund(ref: string, tx: string) {
+    setRefunding(true);
+    try {
+      const action = `refund:${ref}:${tx}`;
+      const r = await fetch("/api/fund/refunds", {
+        method: "POST",
+        headers: { "content-type": "application/json", "idempotency-key": actionKey(action) },
+        body: JSON.stringify({ ref, tx_hash: tx, claim_secret: readClaims()[ref] ?? null }),
+        cache: "no-store",
+      });
+      actionAnswered(action, r);
+      const j: ApiResp<{ refund: { amount_usdt: number | string; to_address: string } }> | null = await r
+        .json()
+        .catch(() => null);
+      setConfirmModal((prev) => ({
+        ...prev,
+        refundable: false,
+        major: j?.ok ? false : prev.major,
+        recoveryFallback: !j?.ok,
+        message: j?.ok
+          ? `Refund of ${fmtDec(Number(j.refund?.amount_usdt ?? 0), 2)} USDT requested to ${String(j.refund?.to_address ?? "").slice(0, 10)}... It is sent after operator approval.`
+          : String(j?.error ?? "Refund request failed"),
+      }));
+      await hydrateDbByRefsOrSession();
+    } catch (e: unknown) {
+      setConfirmModal((prev) => ({
+        ...prev,
+        recoveryFallback: true,
+        message: e instanceof Error ? e.message : "Refund request failed",
+      }));
+    } finally {
+      setRefunding(false);
+    }
+  }
+
+  async function requestWithdrawal() {
+    const { ref, to } = withdrawModal;
+    if (!/^0x[0-9a-fA-F]{40}$/.test(to.trim())) {
+      setWithdrawModal((prev) => ({ ...prev, message: "Enter a valid BEP-20 address (0x...)." }));
+      return;
+    }
+
+    setWithdrawModal((prev) => ({ ...prev, busy: true, message: undefined }));
+    try {
+      const action = `withdraw:${ref}:${to.trim()}`;
+      const r = await fetch("/api/fund/withdrawals", {
+        method: "POST",
+        headers: { "content-type": "application/json", "idempotency-key": actionKey(action) },
+        body: JSON.stringify({ ref, to_address: to.trim() }),
+        cache: "no-store",
+      });
+      actionAnswered(action, r);
+      const j: ApiResp<{ withdrawal: { payout_usdt: number | string } }> | null = await r.json().catch(() => null);
+      setWithdrawModal((prev) => ({
+        ...prev,
+        done: Boolean(j?.ok),
+        message: j?.ok
+          ? `Withdrawal of ${fmtDec(Number(j.withdrawal?.payout_usdt ?? 0), 4)} USDT requested. It is sent after operator approval.`
+          : String(j?.error ?? "Withdrawal request failed"),
+      }));
+      if (j?.ok) await hydrateDbByRefsOrSession();
+    } catch (e: unknown) {
+      setWithdrawModal((prev) => ({ ...prev, message: e instanceof Error ? e.message : "Withdrawal request failed" }));
+    } finally {
+      setWithdrawModal((prev) => ({ ...prev, busy: false }));
+    }
+  }
+
   // ---- RENDER GATE ----
   if (!flagsLoaded) {
     return (
@@ -774,6 +1041,20 @@ export default function FundNetworkPage() {
               <div className="text-[12px] text-slate-400">Status</div>
               <div className="mt-1 text-[13px] text-slate-200">{confirmModal.message ?? "--"}</div>
 
+              {confirmModal.stage === "success" && confirmModal.refundable ? (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    disabled={refunding}
+                    onClick={() => void requestRefund(confirmModal.ref, confirmModal.tx)}
+                    className="rounded-md border border-amber-900/60 bg-amber-950/30 px-3 py-2 text-[12px] text-amber-100 hover:bg-amber-950/50 disabled:opacity-60"
+                    title="Return the out-of-bounds amount to the sending address"
+                  >
+                    {refunding ? "Requesting..." : "Request refund"}
+                  </button>
+                </div>
+              ) : null}
+
               {confirmModal.stage === "error" ? (
                 <div className="mt-3 space-y-2">
                   <div className="text-[11px] text-slate-500">If you entered the wrong tx hash, close, correct it, and confirm again.</div>
@@ -783,11 +1064,22 @@ export default function FundNetworkPage() {
                       <div className="mt-2 flex flex-wrap gap-2">
                         <button
                           type="button"
-                          onClick={() => mailtoRecovery(confirmModal.ref, confirmModal.tx)}
-                          className="rounded-md border border-amber-900/60 bg-amber-950/30 px-3 py-2 text-[12px] text-amber-100 hover:bg-amber-950/50"
+                          disabled={refunding}
+                          onClick={() => void requestRefund(confirmModal.ref, confirmModal.tx)}
+                          className="rounded-md border border-amber-900/60 bg-amber-950/30 px-3 py-2 text-[12px] text-amber-100 hover:bg-amber-950/50 disabled:opacity-60"
+                          title="Return the deposit to the sending address"
                         >
-                          Request recovery (email HQ)
+                          {refunding ? "Requesting..." : "Request refund"}
                         </button>
+                        {confirmModal.recoveryFallback ? (
+                          <button
+                            type="button"
+                            onClick={() => mailtoRecovery(confirmModal.ref, confirmModal.tx)}
+                            className="rounded-md border border-amber-900/60 bg-amber-950/30 px-3 py-2 text-[12px] text-amber-100 hover:bg-amber-950/50"
+                          >
+                            Request recovery (email HQ)
+                          </button>
+                        ) : null}
                         <button
                           type="button"
                           onClick={() => setConfirmModal((p) => ({ ...p, open: false, stage: "idle" }))}
@@ -893,6 +1185,54 @@ export default function FundNetworkPage() {
         </div>
       ) : null}
 
+      {/* Withdraw modal */}
+      {withdrawModal.open ? (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+          <div className="relative w-[92%] max-w-md rounded-xl border border-slate-800/70 bg-[#0b0f14]/95 p-4 shadow-xl">
+            <div className="text-sm font-semibold text-slate-100">Withdraw position</div>
+            <div className="mt-2 text-[12px] text-slate-400">
+              Ref: <span className="font-mono text-slate-200">{withdrawModal.ref}</span>
+            </div>
+            <div className="mt-2 text-[12px] text-slate-400">
+              Allocated USDDD plus accrual is redeemed and paid out as USDT (BEP-20). Accrual stops when you request.
+            </div>
+
+            {!withdrawModal.done ? (
+              <input
+                value={withdrawModal.to}
+                onChange={(e) => setWithdrawModal((prev) => ({ ...prev, to: e.target.value }))}
+                placeholder="Payout address (0x...)"
+                className="mt-3 w-full rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1.5 font-mono text-[12px] text-slate-200 outline-none"
+              />
+            ) : null}
+
+            {withdrawModal.message ? <div className="mt-2 text-[12px] text-slate-300">{withdrawModal.message}</div> : null}
+
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setWithdrawModal({ open: false, ref: "", to: "", busy: false })}
+                className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-950/70"
+              >
+                {withdrawModal.done ? "Close" : "Cancel"}
+              </button>
+
+              {!withdrawModal.done ? (
+                <button
+                  type="button"
+                  onClick={requestWithdrawal}
+                  disabled={withdrawModal.busy}
+                  className="rounded-md border border-emerald-900/60 bg-emerald-950/30 px-3 py-2 text-[12px] text-emerald-100 hover:bg-emerald-950/50 disabled:opacity-60"
+                >
+                  {withdrawModal.busy ? "Requesting..." : "Request withdrawal"}
+                </button>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      ) : null}
+
       <div className="mx-auto max-w-6xl px-4 pt-6 pb-24">
         <div className="grid min-w-0 gap-4 md:grid-cols-12">
           {/* LEFT */}
@@ -911,27 +1251,26 @@ export default function FundNetworkPage() {
                   <div className="text-[12px] font-semibold text-slate-200">Understanding</div>
                   <ul className="mt-2 list-disc space-y-1 pl-5 text-[12px] text-slate-400 break-words">
                     <li>Each position uses a unique deposit address. Do not reuse old addresses.</li>
-                    <li>Send only USDT on BNB Chain (BEP-20). Other tokens/chains may be unrecoverable.</li>
+                    <li>
+                      Send only {selectedAsset ? `${selectedAsset.symbol} on ${selectedAsset.chain_name}` : "USDT on BNB Chain (BEP-20)"}, the
+                      token and chain the address was issued for. Other tokens/chains may be unrecoverable.
+                    </li>
                     <li>For safety, deposits are confirmed by tx hash (receipt-verified).</li>
-                    <li>Withdrawals remain locked until admin unlock.</li>
+                    <li>Withdrawals unlock after the position lockup period and are paid after operator approval.</li>
                   </ul>
 
                   <div className="mt-3 rounded-md border border-slate-800/60 bg-slate-950/30 px-3 py-2 text-[12px] text-slate-300">
                     <div className="font-semibold text-slate-200">Link to Terminal (recommended)</div>
                     <div className="mt-1 text-slate-400">
-                      To access positions across devices, link this page to your DIGDUG Terminal session (no password required here).
+                      To access positions across devices, link this page to your DIGDUG Terminal account (no password required here).
                     </div>
+                    {terminalUser ? (
+                      <div className="mt-1 text-slate-300">
+                        Signed in as {terminalUser.username ?? terminalUser.terminal_user_id}
+                      </div>
+                    ) : null}
 
                     <div className="mt-2 flex flex-wrap items-center gap-2">
-                      <input
-                        value={sessionId}
-                        onChange={(e) => {
-                          setSessionId(e.target.value);
-                          saveSessionId(e.target.value);
-                        }}
-                        placeholder="Terminal session_id"
-                        className="w-full md:w-[420px] rounded-md border border-slate-800 bg-slate-950/50 px-3 py-2 text-[12px] text-slate-200 placeholder:text-slate-600"
-                      />
                       <button
                         type="button"
                         onClick={bindToTerminal}
@@ -949,10 +1288,22 @@ export default function FundNetworkPage() {
                       >
                         Open Terminal
                       </a>
+
+                      {terminalUser ? (
+                        <button
+                          type="button"
+                          onClick={signOut}
+                          className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-2 text-[12px] text-slate-200 hover:bg-slate-950/70"
+                        >
+                          Sign out
+                        </button>
+                      ) : null}
                     </div>
 
                     {bindErr ? <div className="mt-2 text-[12px] text-amber-200">{bindErr}</div> : null}
-                    <div className="mt-2 text-[11px] text-slate-500">Tip: open Terminal in a separate tab, log in, then copy your session_id.</div>
+                    <div className="mt-2 text-[11px] text-slate-500">
+                      Tip: use the Fund link in Terminal to sign in here directly.
+                    </div>
                   </div>
 
                   <div className="mt-3 text-[12px] text-slate-500">By continuing, you confirm you understand the protocol terms above.</div>
@@ -963,11 +1314,30 @@ export default function FundNetworkPage() {
             <div className="mt-4 flex flex-wrap items-center gap-2">
               {ack ? (
                 <>
+                  {assets.length > 1 ? (
+                    <select
+                      value={assetKey}
+                      onChange={(e) => setAssetKey(e.target.value)}
+                      disabled={issuing || positions.length > 0}
+                      title="Chain and token of the deposit"
+                      className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1.5 text-[12px] text-slate-200 disabled:opacity-60"
+                    >
+                      {assets.map((a) => (
+                        <option key={`${a.chain}:${a.token}`} value={`${a.chain}:${a.token}`}>
+                          {a.symbol} · {a.chain_name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+
                   <button
                     type="button"
                     onClick={issueNewPosition}
-                    disabled={issuing || positions.length > 0}
-                    title={positions.length > 0 ? "Finish or dismiss your current receipt first." : "Generate a unique deposit address"}
+                    disabled={issuing || positions.length > 0 || Boolean(issuePaused)}
+                    title={
+                      issuePaused ??
+                      (positions.length > 0 ? "Finish or dismiss your current receipt first." : "Generate a unique deposit address")
+                    }
                     className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-1.5 text-[12px] text-slate-200 hover:bg-slate-950/70 disabled:opacity-60"
                   >
                     {issuing ? "Generating..." : "Generate Deposit Address & Fund Network"}
@@ -977,7 +1347,7 @@ export default function FundNetworkPage() {
                     type="button"
                     disabled
                     className="rounded-md border border-slate-800 bg-slate-950/40 px-3 py-1.5 text-[12px] text-slate-400 opacity-70 cursor-not-allowed"
-                    title="Locked until admin unlock"
+                    title="Withdraw per position from the table below once its lockup ends"
                   >
                     Withdraw (Locked)
                   </button>
@@ -1039,7 +1409,9 @@ export default function FundNetworkPage() {
                         <span className="text-[11px] text-slate-600">Generate a new address after dismissing or confirming.</span>
                       </div>
 
-                      <div className="mt-2 text-[12px] text-slate-400">Unique deposit address (USDT BEP-20)</div>
+                      <div className="mt-2 text-[12px] text-slate-400">
+                        Unique deposit address ({p.token_symbol ?? p.token.toUpperCase()} on {p.chain_name ?? (p.chain === "bsc" ? "BNB Chain" : p.chain)})
+                      </div>
                       <div className="mt-2 flex flex-wrap items-center gap-2">
                         <code className="flex-1 break-all rounded-md border border-slate-800 bg-slate-950/60 px-3 py-2 text-[12px] text-slate-200">
                           {p.deposit_address}
@@ -1081,7 +1453,7 @@ export default function FundNetworkPage() {
 
                       {p.deposit_tx_hash ? (
                         <div className="mt-2 text-[12px] text-slate-400">
-                          Deposit tx: <TxLink hash={p.deposit_tx_hash} />
+                          Deposit tx: <TxLink hash={p.deposit_tx_hash} explorer={explorerFor(p.chain)} />
                         </div>
                       ) : null}
                     </div>
@@ -1187,7 +1559,7 @@ export default function FundNetworkPage() {
                   {hideAwaiting ? "Hide Awaiting: ON" : "Hide Awaiting: OFF"}
                 </button>
 
-                <div className="text-[11px] text-slate-500">{loadingDb ? "Refreshing..." : "Withdraw shown but locked"}</div>
+                <div className="text-[11px] text-slate-500">{loadingDb ? "Refreshing..." : "Withdraw unlocks after lockup"}</div>
               </div>
             </div>
 
@@ -1233,17 +1605,17 @@ export default function FundNetworkPage() {
                           </td>
 
                           <td className="py-2 pr-4">
-                            {p.deposit_tx_hash ? <TxLink hash={p.deposit_tx_hash} /> : <span className="text-slate-600">--</span>}
+                            {p.deposit_tx_hash ? <TxLink hash={p.deposit_tx_hash} explorer={explorerFor(p.chain)} /> : <span className="text-slate-600">--</span>}
                           </td>
 
                           <td className="py-2 pr-4">
-                            {p.sweep_tx_hash ? <TxLink hash={p.sweep_tx_hash} /> : <span className="text-slate-600">--</span>}
+                            {p.sweep_tx_hash ? <TxLink hash={p.sweep_tx_hash} explorer={explorerFor(p.chain)} /> : <span className="text-slate-600">--</span>}
                           </td>
 
                           <td className="py-2 pr-4">
                             {p.gas_topup_tx_hash ? (
                               <div className="text-[11px]">
-                                <TxLink hash={p.gas_topup_tx_hash} />
+                                <TxLink hash={p.gas_topup_tx_hash} explorer={explorerFor(p.chain)} />
                                 <div className="text-slate-500">{Number(p.gas_topup_bnb ?? 0) ? `${fmtDec(Number(p.gas_topup_bnb), 6)} BNB` : ""}</div>
                               </div>
                             ) : (
@@ -1255,11 +1627,19 @@ export default function FundNetworkPage() {
                             {p.usddd_allocated == null ? "--" : Number(p.usddd_allocated).toFixed(2)}
                           </td>
 
-                          <td className="py-2 pr-4 text-right">{total == null ? "--" : fmtDec(total, 4)}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {total == null ? "--" : fmtDec(total, 4)}
+                            {total != null && p.accrued_through ? (
+                              <div className="text-[11px] text-slate-500">as of {new Date(p.accrued_through).toLocaleDateString()}</div>
+                            ) : null}
+                          </td>
 
                           <td className="py-2 pr-2">
                             <div className="text-slate-200">{stage.title}</div>
                             <div className="text-[11px] text-slate-500">{stage.hint}</div>
+                            {String(p.status) === "awaiting_funds" && p.expires_at ? (
+                              <div className="text-[11px] text-slate-600">Expires {new Date(p.expires_at).toLocaleString()}</div>
+                            ) : null}
                           </td>
 
                           <td className="py-2 pl-2 text-right">
@@ -1275,14 +1655,33 @@ export default function FundNetworkPage() {
                                 </button>
                               ) : null}
 
-                              <button
-                                type="button"
-                                disabled
-                                className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-400 opacity-70 cursor-not-allowed"
-                                title="Locked until admin unlock"
-                              >
-                                Locked
-                              </button>
+                              {String(p.status) === "swept_locked" && p.unlock_at && Date.parse(p.unlock_at) <= nowMs && bound ? (
+                                <button
+                                  type="button"
+                                  onClick={() => setWithdrawModal({ open: true, ref: p.position_ref, to: "", busy: false })}
+                                  className="rounded-md border border-emerald-900/60 bg-emerald-950/30 px-2 py-1 text-[11px] text-emerald-100 hover:bg-emerald-950/50"
+                                  title="Redeem allocation + accrual to USDT"
+                                >
+                                  Withdraw
+                                </button>
+                              ) : String(p.status) === "withdrawn" && p.withdraw_tx_hash ? (
+                                <TxLink hash={p.withdraw_tx_hash} explorer={explorerFor(p.chain)} />
+                              ) : (
+                                <button
+                                  type="button"
+                                  disabled
+                                  className="rounded-md border border-slate-800 bg-slate-950/40 px-2 py-1 text-[11px] text-slate-400 opacity-70 cursor-not-allowed"
+                                  title={
+                                    String(p.status) === "swept_locked" && p.unlock_at && Date.parse(p.unlock_at) <= nowMs
+                                      ? "Link your Terminal session to withdraw"
+                                      : p.unlock_at
+                                        ? `Locked until ${new Date(p.unlock_at).toLocaleString()}`
+                                        : "Locked"
+                                  }
+                                >
+                                  {String(p.status).startsWith("withdraw") ? "Pending" : "Locked"}
+                                </button>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -2,6 +2,12 @@
   pause_all: boolean;
   pause_reserve: boolean;
   pause_stats_ingest: boolean;
+  // per-feature flags (app/lib/maintenance.ts); absent until the Terminal publishes them
+  pause_fund_issue?: boolean;
+  pause_fund_mint?: boolean;
+  pause_golden?: boolean;
+  pause_reason?: string | null;
+  pause_until?: string | null;
   updated_at?: string | null;
   updated_by?: string | null;
 };
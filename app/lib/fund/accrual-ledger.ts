@@ -0,0 +1,205 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { accruedUsddd, appliedAccrualPct, ACCRUAL_MODEL } from "./accrual";
+
+// Authoritative USDDD accrual. A daily job books one fund_accruals row per position per UTC day
+// (up to the end of yesterday) at that day's snapshotted rate (fund_accrual_rates). Positions
+// carry the running total (usddd_accrued) and how far it is booked (accrued_through).
+// Accrual stops at withdraw_requested_at; a withdrawal request books the final partial day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AccrualEntry = {
+  accrual_date: string;
+  period_start: string;
+  period_end: string;
+  principal_usddd: number;
+  rate_pct: number;
+  amount_usddd: number;
+};
+
+type AccruingPosition = {
+  id: string;
+  position_ref: string;
+  usddd_allocated: number | string | null;
+  usddd_accrual_started_at: string | null;
+  accrued_through: string | null;
+  withdraw_requested_at: string | null;
+};
+
+const POSITION_COLS = "id, position_ref, usddd_allocated, usddd_accrual_started_at, accrued_through, withdraw_requested_at";
+
+function utcDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(ms: number): number {
+  return Math.floor(ms / DAY_MS) * DAY_MS;
+}
+
+// First snapshot of a day wins, so re-runs book the same rate
+export async function snapshotRate(sb: SupabaseClient, day: string, cache?: Map<string, number>): Promise<number> {
+  const hit = cache?.get(day);
+  if (hit != null) return hit;
+
+  const { error } = await sb.from("fund_accrual_rates").upsert(
+    {
+      day,
+      applied_pct: appliedAccrualPct(0),
+      floor_pct: ACCRUAL_MODEL.floor_pct,
+      cap_pct: ACCRUAL_MODEL.cap_pct,
+      source: "accrual_model",
+    },
+    { onConflict: "day", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+
+  const { data, error: rErr } = await sb.from("fund_accrual_rates").select("applied_pct").eq("day", day).single();
+  if (rErr || !data) throw rErr ?? new Error(`Missing accrual rate for ${day}`);
+
+  const pct = Number(data.applied_pct);
+  cache?.set(day, pct);
+  return pct;
+}
+
+// Book [accrued_through, cutoff) for one position in per-day entries and bump its running total.
+export async function bookAccrual(
+  sb: SupabaseClient,
+  pos: AccruingPosition,
+  cutoffMs: number,
+  rates = new Map<string, number>()
+): Promise<number> {
+  const principal = Number(pos.usddd_allocated ?? 0);
+  const fromIso = pos.accrued_through ?? pos.usddd_accrual_started_at;
+  if (!fromIso || !Number.isFinite(principal) || principal <= 0) return 0;
+
+  const stopMs = pos.withdraw_requested_at ? Math.min(cutoffMs, Date.parse(pos.withdraw_requested_at)) : cutoffMs;
+  const fromMs = Date.parse(fromIso);
+  if (!(stopMs > fromMs)) return 0;
+
+  const rows: (AccrualEntry & { position_id: string; position_ref: string })[] = [];
+  for (let t = fromMs; t < stopMs; ) {
+    const end = Math.min(startOfUtcDay(t) + DAY_MS, stopMs);
+    const day = utcDay(t);
+    const rate = await snapshotRate(sb, day, rates);
+    const start = new Date(t).toISOString();
+
+    rows.push({
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+      accrual_date: day,
+      period_start: start,
+      period_end: new Date(end).toISOString(),
+      principal_usddd: principal,
+      rate_pct: rate,
+      amount_usddd: Math.floor(accruedUsddd({ principal, startedAt: start, aprPct: rate, untilMs: end }) * 1e6) / 1e6,
+    });
+    t = end;
+  }
+
+  const { error } = await sb
+    .from("fund_accruals")
+    .upsert(rows, { onConflict: "position_id,period_start", ignoreDuplicates: true });
+  if (error) throw error;
+
+  // running total from the ledger itself (safe against partial earlier runs)
+  const { data: sums, error: sErr } = await sb.from("fund_accruals").select("amount_usddd").eq("position_id", pos.id);
+  if (sErr) throw sErr;
+  const total = (sums ?? []).reduce((n, r) => n + Number(r.amount_usddd), 0);
+
+  // guarded on accrued_through so two runs can't both advance it
+  let q = sb
+    .from("fund_positions")
+    .update({ usddd_accrued: Number(total.toFixed(6)), accrued_through: new Date(stopMs).toISOString() })
+    .eq("id", pos.id);
+  q = pos.accrued_through ? q.eq("accrued_through", pos.accrued_through) : q.is("accrued_through", null);
+  const { error: uErr } = await q;
+  if (uErr) throw uErr;
+
+  return rows.length;
+}
+
+export type AccrualRunResult = { through: string; positions: number; entries: number };
+
+// Daily job: book every accruing position through the end of yesterday (UTC)
+export async function runDailyAccrual(sb: SupabaseClient, opts: { limit?: number } = {}): Promise<AccrualRunResult> {
+  const cutoffMs = startOfUtcDay(Date.now());
+  const cutoffIso = new Date(cutoffMs).toISOString();
+
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select(POSITION_COLS)
+    .not("usddd_accrual_started_at", "is", null)
+    .is("withdraw_requested_at", null) // closed by closeAccrual() at request time
+    .or(`accrued_through.is.null,accrued_through.lt.${cutoffIso}`)
+    .order("accrued_through", { ascending: true, nullsFirst: true })
+    .limit(opts.limit ?? 500);
+
+  if (error) throw error;
+
+  const rates = new Map<string, number>();
+  let positions = 0;
+  let entries = 0;
+
+  for (const p of (data ?? []) as AccruingPosition[]) {
+    const n = await bookAccrual(sb, p, cutoffMs, rates);
+    if (n > 0) positions++;
+    entries += n;
+  }
+
+  return { through: cutoffIso, positions, entries };
+}
+
+// Book the final (partial) period up to the withdrawal request and return the frozen total
+export async function closeAccrual(sb: SupabaseClient, positionId: string): Promise<number> {
+  const { data: pos, error } = await sb.from("fund_positions").select(POSITION_COLS).eq("id", positionId).single();
+  if (error || !pos) throw new Error("Position not found");
+  if (!pos.withdraw_requested_at) throw new Error("Accrual is still open");
+
+  await bookAccrual(sb, pos as AccruingPosition, Date.parse(pos.withdraw_requested_at));
+
+  // from the ledger itself, so a concurrent daily run can't skew the frozen amount
+  const { data: rows, error: aErr } = await sb
+    .from("fund_accruals")
+    .select("amount_usddd")
+    .eq("position_id", positionId)
+    .lte("period_end", pos.withdraw_requested_at);
+  if (aErr) throw aErr;
+
+  const total = (rows ?? []).reduce((n, r) => n + Number(r.amount_usddd), 0);
+  return Number(total.toFixed(6));
+}
+
+// Ledger history for the positions API (newest first, capped per position)
+export async function accrualHistory(
+  sb: SupabaseClient,
+  positionIds: string[],
+  perPosition = 30
+): Promise<Map<string, AccrualEntry[]>> {
+  const out = new Map<string, AccrualEntry[]>();
+  if (positionIds.length === 0) return out;
+
+  const { data, error } = await sb
+    .from("fund_accruals")
+    .select("position_id, accrual_date, period_start, period_end, principal_usddd, rate_pct, amount_usddd")
+    .in("position_id", positionIds)
+    .order("period_start", { ascending: false })
+    .limit(Math.min(5000, positionIds.length * perPosition));
+
+  if (error) throw error;
+
+  for (const r of data ?? []) {
+    const list = out.get(r.position_id) ?? [];
+    if (list.length >= perPosition) continue;
+    list.push({
+      accrual_date: r.accrual_date,
+      period_start: r.period_start,
+      period_end: r.period_end,
+      principal_usddd: Number(r.principal_usddd),
+      rate_pct: Number(r.rate_pct),
+      amount_usddd: Number(r.amount_usddd),
+    });
+    out.set(r.position_id, list);
+  }
+
+  return out;
+}
@@ -0,0 +1,35 @@
+// USDDD accrual model + math (client-safe). The applied rate is the network accrual potential
+// clamped to [floor, cap]; /api/activity/24h reports it and the daily ledger job (accrual-ledger.ts)
+// snapshots it per UTC day. Balances shown to users come from the ledger, not from this math.
+
+export const ACCRUAL_MODEL = {
+  scaling_pct: 3,
+  floor_pct: 10,
+  cap_pct: 25,
+} as const;
+
+export function appliedAccrualPct(potentialPct: number): number {
+  const p = Number.isFinite(potentialPct) ? potentialPct : 0;
+  return Math.min(ACCRUAL_MODEL.cap_pct, Math.max(ACCRUAL_MODEL.floor_pct, p));
+}
+
+const YEAR_SEC = 365 * 24 * 60 * 60;
+
+// Simple (non-compounding) APR on `principal` between two instants
+export function accruedUsddd(opts: {
+  principal: number;
+  startedAt: string | null | undefined;
+  aprPct: number | null | undefined;
+  untilMs: number;
+}): number {
+  const principal = Number(opts.principal);
+  if (!Number.isFinite(principal) || principal <= 0) return 0;
+  if (typeof opts.aprPct !== "number" || !Number.isFinite(opts.aprPct)) return 0;
+
+  const startMs = opts.startedAt ? Date.parse(String(opts.startedAt)) : NaN;
+  if (!Number.isFinite(startMs)) return 0;
+
+  const elapsedSec = Math.max(0, (opts.untilMs - startMs) / 1000);
+  const amt = principal * (opts.aprPct / 100) * (elapsedSec / YEAR_SEC);
+  return Number.isFinite(amt) ? amt : 0;
+}
@@ -0,0 +1,151 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { retryJob, type FundJob } from "./jobs";
+import { resolveFlaggedMint } from "./mint-guard";
+import { FUND_STATUS_TABLE, type FundStatus } from "./status";
+import { resolveFlaggedWithdrawal } from "./withdrawals";
+
+// Queries and guarded actions behind the /admin/fund operator console.
+
+export type AdminAction =
+  | "retry_sweep"
+  | "retry_mint"
+  | "approve_refund"
+  | "reject_refund"
+  | "reconcile"
+  | "revoke_user_sessions"
+  | "resolve_flagged";
+
+// Exits from "flagged" besides a refund (see FUND_STATUS_TABLE.flagged)
+export type FlagResolution = "swept_locked" | "withdrawing";
+
+const POSITION_COLUMNS =
+  "id, position_ref, status, chain, token, issued_deposit_address, terminal_user_id, funded_usdt, deposit_tx_hash, sweep_tx_hash, usddd_transfer_tx_hash, created_at, funded_at, swept_at";
+
+const MAX_LIMIT = 200;
+
+const FUND_STATUSES = Object.keys(FUND_STATUS_TABLE) as FundStatus[];
+
+export async function listAdminPositions(
+  sb: SupabaseClient,
+  filter: { status?: FundStatus; chain?: string; token?: string; q?: string; limit?: number; offset?: number }
+): Promise<{ positions: (Record<string, unknown> & RetryFields)[]; total: number; counts: Record<FundStatus, number> }> {
+  const limit = Math.min(MAX_LIMIT, Math.max(1, filter.limit ?? 50));
+  const offset = Math.max(0, filter.offset ?? 0);
+
+  let q = sb
+    .from("fund_positions")
+    .select(POSITION_COLUMNS, { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filter.status) q = q.eq("status", filter.status);
+  if (filter.chain) q = q.eq("chain", filter.chain);
+  if (filter.token) q = q.eq("token", filter.token);
+  if (filter.q) {
+    const term = filter.q.replace(/[^0-9A-Za-z_-]/g, "");
+    if (term) q = q.or(`position_ref.ilike.%${term}%,issued_deposit_address.ilike.%${term}%,terminal_user_id.eq.${term}`);
+  }
+
+  const { data, error, count } = await q;
+  if (error) throw error;
+
+  // per-status totals for the filter tabs (same chain/token filter, any status)
+  const counts = {} as Record<FundStatus, number>;
+  await Promise.all(
+    FUND_STATUSES.map(async (status) => {
+      let c = sb.from("fund_positions").select("id", { count: "exact", head: true }).eq("status", status);
+      if (filter.chain) c = c.eq("chain", filter.chain);
+      if (filter.token) c = c.eq("token", filter.token);
+      const { count: n, error: cErr } = await c;
+      if (cErr) throw cErr;
+      counts[status] = n ?? 0;
+    })
+  );
+
+  return { positions: (data ?? []) as unknown as (Record<string, unknown> & RetryFields)[], total: count ?? 0, counts };
+}
+
+type PositionRow = {
+  id: string;
+  position_ref: string;
+  status: FundStatus;
+  sweep_tx_hash: string | null;
+  usddd_transfer_tx_hash: string | null;
+};
+
+// the columns retryActions() looks at
+export type RetryFields = Pick<PositionRow, "status" | "sweep_tx_hash" | "usddd_transfer_tx_hash">;
+
+async function loadPosition(sb: SupabaseClient, ref: string): Promise<PositionRow> {
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, status, sweep_tx_hash, usddd_transfer_tx_hash")
+    .eq("position_ref", ref)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("Position not found");
+  return data as PositionRow;
+}
+
+// Which retries make sense for a position right now (the console greys out the rest)
+export function retryActions(pos: RetryFields): AdminAction[] {
+  const out: AdminAction[] = [];
+  if (pos.status === "funded_locked" && !pos.sweep_tx_hash) out.push("retry_sweep");
+  if (pos.status === "swept_locked" && !pos.usddd_transfer_tx_hash) out.push("retry_mint");
+  return out;
+}
+
+// Re-run a stuck pipeline step. Refused unless the position is still waiting on that step,
+// so a double click or a stale page cannot sweep or mint twice.
+export async function retryPositionStep(sb: SupabaseClient, ref: string, kind: "sweep" | "mint"): Promise<FundJob> {
+  const pos = await loadPosition(sb, ref);
+  const action: AdminAction = kind === "sweep" ? "retry_sweep" : "retry_mint";
+  if (!retryActions(pos).includes(action)) {
+    throw new Error(`Cannot retry ${kind} for ${pos.position_ref} in status ${pos.status}`);
+  }
+  return retryJob(sb, { kind, position_id: pos.id, position_ref: pos.position_ref });
+}
+
+// Operator exit from "flagged" with an audit note (kept in the position's status history).
+// Flagged during settlement (open withdrawal): retry it ("withdrawing") or drop it ("swept_locked").
+// Flagged before the mint (swept, sweep cross-check or mint rejected): back to "swept_locked".
+// Anything flagged before the sweep leaves through a refund.
+export async function resolveFlaggedPosition(
+  sb: SupabaseClient,
+  ref: string,
+  operator: string,
+  to: FlagResolution,
+  note: string,
+  fundedUsdt?: number
+): Promise<{ position_ref: string; status: FundStatus }> {
+  if (!note.trim()) throw new Error("Missing note");
+
+  const { data: pos, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, status, sweep_tx_hash, usddd_mint_tx_hash")
+    .eq("position_ref", ref)
+    .maybeSingle();
+  if (error) throw error;
+  if (!pos) throw new Error("Position not found");
+  if (pos.status !== "flagged") throw new Error(`Position ${pos.position_ref} is not flagged (status=${pos.status})`);
+
+  const { count, error: wErr } = await sb
+    .from("fund_withdrawals")
+    .select("id", { count: "exact", head: true })
+    .eq("position_id", pos.id)
+    .in("status", ["approved", "settling"]);
+  if (wErr) throw wErr;
+
+  if (count) {
+    if (fundedUsdt !== undefined) throw new Error("funded_usdt can only be corrected on a mint review");
+    await resolveFlaggedWithdrawal(sb, pos, operator, to, note.trim());
+  } else {
+    if (to !== "swept_locked") throw new Error("No open withdrawal to retry");
+    if (!pos.sweep_tx_hash) throw new Error("Position was never swept; resolve it with a refund");
+    if (pos.usddd_mint_tx_hash) throw new Error("USDDD already minted for this position; needs manual handling");
+    await resolveFlaggedMint(sb, pos, operator, note.trim(), fundedUsdt);
+  }
+
+  return { position_ref: pos.position_ref, status: to };
+}
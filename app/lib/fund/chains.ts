@@ -0,0 +1,207 @@
+import { createPublicClient, http, type Hex, type PublicClient } from "viem";
+import { env } from "./env";
+
+// Chain / token registry. Every route and worker resolves RPC, token contract, decimals,
+// confirmation depth and treasury through here, keyed by the position's chain + token columns.
+//
+// "bsc" is built from the existing BSC_* env, so current deployments need no new config.
+// More chains (or a bsc override) come from FUND_CHAINS, JSON keyed by chain id:
+//   {"eth": {"name": "Ethereum", "chain_id": 1, "rpc_url": "https://...", "treasury": "0x...",
+//            "confirmations": 12, "explorer": "https://etherscan.io", "native": "ETH", "gas_topup_cap": 0.003,
+//            "tokens": {"usdt": {"address": "0x...", "decimals": 6}, "usdc": {"address": "0x...", "decimals": 6}}}}
+// FUND_CONFIRMATIONS_<CHAIN> still overrides the depth of any chain.
+//
+// USDDD only exists on USDDD_CHAIN: mint, burn and reconciliation happen there whatever
+// chain the deposit came in on (deposit EOAs have the same address on every EVM chain).
+
+export const DEFAULT_CHAIN = "bsc";
+export const DEFAULT_TOKEN = "usdt";
+export const USDDD_CHAIN = "bsc";
+
+export type FundToken = {
+  id: string;
+  symbol: string;
+  address: Hex;
+  decimals: number;
+};
+
+export type FundChain = {
+  id: string;
+  name: string;
+  chain_id: number;
+  rpc_url: string;
+  treasury: Hex;
+  confirmations: number;
+  explorer: string;
+  native: string;
+  gas_topup_cap: number; // max automated gas top-up per deposit EOA, in native units
+  start_block: bigint | null; // first block the deposit indexer scans
+  tokens: Record<string, FundToken>;
+};
+
+export type FundAsset = { chain: FundChain; token: FundToken };
+
+// What the Fund page may see (no RPC URLs, they often carry API keys)
+export type PublicFundAsset = {
+  chain: string;
+  chain_name: string;
+  chain_id: number;
+  token: string;
+  symbol: string;
+  token_address: Hex;
+  decimals: number;
+  confirmations: number;
+  explorer: string;
+};
+
+type ChainConfig = {
+  name?: string;
+  chain_id?: number;
+  rpc_url?: string;
+  treasury?: string;
+  confirmations?: number;
+  explorer?: string;
+  native?: string;
+  gas_topup_cap?: number;
+  start_block?: number | string;
+  tokens?: Record<string, { address?: string; decimals?: number; symbol?: string }>;
+};
+
+const DEFAULT_DEPTH = 12;
+
+function hexAddress(v: unknown, label: string): Hex {
+  const s = String(v ?? "").trim();
+  if (!/^0x[0-9a-fA-F]{40}$/.test(s)) throw new Error(`Bad ${label} address`);
+  return s.toLowerCase() as Hex;
+}
+
+function depth(id: string, configured: number | undefined): number {
+  const raw = process.env[`FUND_CONFIRMATIONS_${id.toUpperCase()}`]?.trim();
+  const n = raw ? Number(raw) : configured ?? DEFAULT_DEPTH;
+  if (!Number.isInteger(n) || n < 1 || n > 1000) throw new Error(`Bad confirmation depth for ${id}`);
+  return n;
+}
+
+function gasCap(id: string, v: number | undefined): number {
+  const n = Number(v ?? 0.0005);
+  if (!Number.isFinite(n) || n <= 0 || n > 1) throw new Error(`FUND_CHAINS.${id}: bad gas_topup_cap`);
+  return n;
+}
+
+function bscConfig(): ChainConfig {
+  const start = process.env.FUND_INDEXER_START_BLOCK?.trim();
+  return {
+    name: "BNB Chain",
+    chain_id: Number(env("BSC_CHAIN_ID", "56")),
+    rpc_url: env("BSC_RPC_URL"),
+    treasury: env("NEXT_PUBLIC_FUND_TREASURY_USDT_BEP20"),
+    confirmations: 15,
+    explorer: "https://bscscan.com",
+    native: "BNB",
+    gas_topup_cap: 0.0005,
+    start_block: start || undefined,
+    tokens: {
+      usdt: { address: env("BSC_USDT_ADDRESS"), decimals: Number(env("BSC_USDT_DECIMALS", "18")), symbol: "USDT" },
+    },
+  };
+}
+
+function buildChain(id: string, c: ChainConfig): FundChain {
+  if (!/^[a-z0-9_]{2,20}$/.test(id)) throw new Error(`Bad FUND_CHAINS chain id: ${id}`);
+  if (!c.rpc_url) throw new Error(`FUND_CHAINS.${id}: rpc_url missing`);
+  if (!Number.isInteger(c.chain_id) || Number(c.chain_id) <= 0) throw new Error(`FUND_CHAINS.${id}: bad chain_id`);
+
+  const tokens: Record<string, FundToken> = {};
+  for (const [tid, t] of Object.entries(c.tokens ?? {})) {
+    if (!/^[a-z0-9_]{2,20}$/.test(tid)) throw new Error(`FUND_CHAINS.${id}: bad token id ${tid}`);
+    const decimals = Number(t.decimals);
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) throw new Error(`FUND_CHAINS.${id}.${tid}: bad decimals`);
+    tokens[tid] = {
+      id: tid,
+      symbol: t.symbol ?? tid.toUpperCase(),
+      address: hexAddress(t.address, `${id}.${tid} token`),
+      decimals,
+    };
+  }
+  if (Object.keys(tokens).length === 0) throw new Error(`FUND_CHAINS.${id}: no tokens`);
+
+  return {
+    id,
+    name: c.name ?? id,
+    chain_id: Number(c.chain_id),
+    rpc_url: c.rpc_url,
+    treasury: hexAddress(c.treasury, `${id} treasury`),
+    confirmations: depth(id, c.confirmations),
+    explorer: (c.explorer ?? "").replace(/\/+$/, ""),
+    native: c.native ?? "ETH",
+    gas_topup_cap: gasCap(id, c.gas_topup_cap),
+    start_block: c.start_block != null && String(c.start_block) !== "" ? BigInt(c.start_block) : null,
+    tokens,
+  };
+}
+
+function configured(): Record<string, ChainConfig> {
+  const raw = process.env.FUND_CHAINS?.trim();
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("expected an object");
+    return parsed as Record<string, ChainConfig>;
+  } catch (e: unknown) {
+    throw new Error(`Bad FUND_CHAINS: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+export function fundChains(): FundChain[] {
+  const extra = configured();
+  // bsc is the USDDD chain and always present; FUND_CHAINS may override its fields
+  const bsc = extra.bsc ? { ...bscConfig(), ...extra.bsc } : bscConfig();
+  return [buildChain("bsc", bsc), ...Object.entries(extra).filter(([id]) => id !== "bsc").map(([id, c]) => buildChain(id, c))];
+}
+
+// Legacy rows without a chain are bsc
+export function fundChain(id?: string | null): FundChain {
+  const key = (id ?? DEFAULT_CHAIN).trim().toLowerCase();
+  const chain = fundChains().find((c) => c.id === key);
+  if (!chain) throw new Error(`Unsupported chain: ${key}`);
+  return chain;
+}
+
+export function fundChainById(chainId: number): FundChain {
+  const chain = fundChains().find((c) => c.chain_id === chainId);
+  if (!chain) throw new Error(`Unsupported chain id: ${chainId}`);
+  return chain;
+}
+
+export function fundAsset(chainId?: string | null, tokenId?: string | null): FundAsset {
+  const chain = fundChain(chainId);
+  const key = (tokenId ?? DEFAULT_TOKEN).trim().toLowerCase();
+  const token = chain.tokens[key];
+  if (!token) throw new Error(`Unsupported token on ${chain.id}: ${key}`);
+  return { chain, token };
+}
+
+export function positionAsset(pos: { chain?: string | null; token?: string | null }): FundAsset {
+  return fundAsset(pos.chain, pos.token);
+}
+
+export function chainClient(chain: FundChain | string | null | undefined): PublicClient {
+  const c = typeof chain === "string" || chain == null ? fundChain(chain) : chain;
+  return createPublicClient({ transport: http(c.rpc_url) });
+}
+
+export function supportedAssets(): PublicFundAsset[] {
+  return fundChains().flatMap((c) =>
+    Object.values(c.tokens).map((t) => ({
+      chain: c.id,
+      chain_name: c.name,
+      chain_id: c.chain_id,
+      token: t.id,
+      symbol: t.symbol,
+      token_address: t.address,
+      decimals: t.decimals,
+      confirmations: c.confirmations,
+      explorer: c.explorer,
+    }))
+  );
+}
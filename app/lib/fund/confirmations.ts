@@ -0,0 +1,190 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { TransactionReceiptNotFoundError, type Hex, type PublicClient, type TransactionReceipt } from "viem";
+import { chainClient, fundChain } from "./chains";
+import { enqueueJob } from "./jobs";
+import { transitionPosition, type FundActor } from "./transition";
+
+// Confirmation-depth policy. A deposit stays "confirming" until its block is
+// this many blocks deep; sweep/mint txs wait the same depth before being recorded.
+// Depth comes from the chain registry (./chains); FUND_CONFIRMATIONS_<CHAIN> overrides it.
+export function confirmationDepth(chain = "bsc"): number {
+  return fundChain(chain).confirmations;
+}
+
+export function depthOf(latest: bigint, blockNumber: bigint): number {
+  return latest >= blockNumber ? Number(latest - blockNumber) + 1 : 0;
+}
+
+// The receipt, or null while the node has none. Any other RPC error is thrown: a flaky node
+// must not read as "not mined" (that would roll back or re-send).
+export async function receiptOrNull(client: PublicClient, hash: Hex): Promise<TransactionReceipt | null> {
+  try {
+    return await client.getTransactionReceipt({ hash });
+  } catch (e: unknown) {
+    if (e instanceof TransactionReceiptNotFoundError) return null;
+    throw e;
+  }
+}
+
+// Wait for `depth` confirmations, then make sure the receipt's block is still canonical.
+export async function waitForFinalReceipt(
+  client: PublicClient,
+  hash: Hex,
+  chain = "bsc"
+): Promise<TransactionReceipt> {
+  const receipt = await client.waitForTransactionReceipt({ hash, confirmations: confirmationDepth(chain) });
+  if (receipt.status !== "success") throw new Error(`Tx ${hash} reverted`);
+
+  const blk = await client.getBlock({ blockNumber: receipt.blockNumber });
+  if (blk.hash !== receipt.blockHash) throw new Error(`Tx ${hash} block ${receipt.blockNumber} was reorged`);
+
+  return receipt;
+}
+
+type ConfirmingPosition = {
+  id: string;
+  position_ref: string;
+  chain?: string | null;
+  deposit_tx_hash: string;
+  deposit_block_number: number | string | null;
+  deposit_block_hash: string | null;
+};
+
+// a missing receipt is read twice, this far apart, before the deposit counts as reorged out
+const REORG_RECHECK_MS = 3_000;
+
+// Undo the crediting of a deposit tx that left the chain: its transfers (and the over_max excess
+// booked from the credit) are dropped - the indexer records them again if the tx is re-mined -
+// and the position's other credited transfers go back to pending.
+async function uncreditDeposits(sb: SupabaseClient, positionId: string, hash: Hex): Promise<void> {
+  const { error: xErr } = await sb
+    .from("fund_excess")
+    .delete()
+    .eq("position_id", positionId)
+    .eq("reason", "over_max")
+    .eq("status", "open");
+  if (xErr) throw xErr;
+
+  const { error: dErr } = await sb.from("fund_deposits").delete().eq("position_id", positionId).eq("tx_hash", hash);
+  if (dErr) throw dErr;
+
+  const { error: pErr } = await sb
+    .from("fund_deposits")
+    .update({ status: "pending" })
+    .eq("position_id", positionId)
+    .eq("status", "credited");
+  if (pErr) throw pErr;
+}
+
+export type SettleOutcome = "confirming" | "funded_locked" | "rolled_back" | "flagged";
+
+export type SettleResult = {
+  position_ref: string;
+  outcome: SettleOutcome;
+  confirmations: number;
+  required: number;
+};
+
+// Re-check one confirming deposit against the canonical chain:
+// gone -> rolled back to awaiting_funds, reverted -> flagged, deep enough -> funded_locked (+ sweep job).
+export async function settleDeposit(
+  sb: SupabaseClient,
+  client: PublicClient,
+  pos: ConfirmingPosition,
+  actor: FundActor
+): Promise<SettleResult> {
+  const required = confirmationDepth(pos.chain ?? "bsc");
+  const hash = pos.deposit_tx_hash as Hex;
+
+  // only "no receipt" (twice) means the tx is gone; RPC errors are thrown and the pass retries
+  let receipt = await receiptOrNull(client, hash);
+  if (!receipt) {
+    await new Promise((r) => setTimeout(r, REORG_RECHECK_MS));
+    receipt = await receiptOrNull(client, hash);
+  }
+
+  if (!receipt) {
+    const moved = await transitionPosition(sb, {
+      id: pos.id,
+      from: "confirming",
+      to: "awaiting_funds",
+      actor,
+      patch: {
+        deposit_tx_hash: null,
+        funded_usdt: null,
+        funded_at: null,
+        deposit_block_number: null,
+        deposit_block_hash: null,
+      },
+      note: `reorg: deposit tx ${hash} no longer on chain`,
+    });
+    if (!moved) return { position_ref: pos.position_ref, outcome: "confirming", confirmations: 0, required };
+
+    await uncreditDeposits(sb, pos.id, hash);
+    return { position_ref: pos.position_ref, outcome: "rolled_back", confirmations: 0, required };
+  }
+
+  if (receipt.status !== "success") {
+    await transitionPosition(sb, {
+      id: pos.id,
+      from: "confirming",
+      to: "flagged",
+      actor,
+      note: `reorg: deposit tx ${hash} re-mined as failed`,
+    });
+    return { position_ref: pos.position_ref, outcome: "flagged", confirmations: 0, required };
+  }
+
+  // re-mined in a different block: track the new one, depth restarts from there
+  if (pos.deposit_block_hash && receipt.blockHash !== pos.deposit_block_hash) {
+    const { error } = await sb
+      .from("fund_positions")
+      .update({ deposit_block_number: Number(receipt.blockNumber), deposit_block_hash: receipt.blockHash })
+      .eq("id", pos.id)
+      .eq("status", "confirming");
+    if (error) throw error;
+  }
+
+  const latest = await client.getBlockNumber();
+  const confirmations = depthOf(latest, receipt.blockNumber);
+
+  if (confirmations < required) {
+    return { position_ref: pos.position_ref, outcome: "confirming", confirmations, required };
+  }
+
+  const moved = await transitionPosition(sb, {
+    id: pos.id,
+    from: "confirming",
+    to: "funded_locked",
+    actor,
+    patch: { deposit_block_number: Number(receipt.blockNumber), deposit_block_hash: receipt.blockHash },
+    note: `${confirmations} confirmations`,
+  });
+  if (moved) await enqueueJob(sb, { kind: "sweep", position_id: pos.id, position_ref: pos.position_ref });
+
+  return { position_ref: pos.position_ref, outcome: moved ? "funded_locked" : "confirming", confirmations, required };
+}
+
+// Indexer pass over every confirming position
+export async function settleConfirmations(sb: SupabaseClient, opts: { limit?: number } = {}): Promise<SettleResult[]> {
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, chain, deposit_tx_hash, deposit_block_number, deposit_block_hash")
+    .eq("status", "confirming")
+    .order("funded_at", { ascending: true })
+    .limit(opts.limit ?? 200);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const clients = new Map<string, PublicClient>();
+  const out: SettleResult[] = [];
+
+  for (const pos of data as ConfirmingPosition[]) {
+    const chain = pos.chain ?? "bsc";
+    if (!clients.has(chain)) clients.set(chain, chainClient(chain));
+    out.push(await settleDeposit(sb, clients.get(chain)!, pos, { kind: "system", source: "fund/confirmations" }));
+  }
+
+  return out;
+}
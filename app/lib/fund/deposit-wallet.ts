@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Hex, parseAbi, parseEther, type LocalAccount, type PublicClient } from "viem";
+import { fundChain } from "./chains";
+import { openOpsTx, sendOpsTx, waitForOpsTx } from "./ops-tx";
+import type { FundSigner } from "./signer";
+
+// Shared by sweep and refund: deposit EOA account loading (via the signer) + capped gas top-up from the ops wallet.
+
+export const ERC20_ABI = parseAbi([
+  "function transfer(address to, uint256 value) returns (bool)",
+  "function balanceOf(address owner) view returns (uint256)",
+]);
+
+// Gas policy (Step 1 locked); the hard cap is per chain (gas_topup_cap, 0.0005 BNB on bsc)
+const GAS_MIN_TOPUP_BNB = 0.00005; // avoid dust topups that still fail
+
+// 1.25x safety, BigInt-safe (no float math)
+const GAS_MULT_NUM = 125n;
+const GAS_MULT_DEN = 100n;
+
+// Add small base overhead buffer (network variance, calldata, etc.)
+const BASE_OVERHEAD_GAS = 25_000n;
+
+export async function loadDepositAccount(
+  signer: FundSigner,
+  pos: { id: string; issued_deposit_address?: string | null }
+): Promise<LocalAccount> {
+  return signer.getAccount({ role: "deposit", positionId: pos.id, address: pos.issued_deposit_address });
+}
+
+export type GasTopUp = { hash: Hex; wei: bigint };
+
+// Top up `to` so it can pay for `gasUnits` (+ overhead, x1.25). Returns null if no top-up was needed.
+// allowTopUp=false turns a needed top-up into an error (one automated top-up per flow).
+// Sent from the gas wallet through the ops nonce manager; `hash` is the one that mined. A top-up
+// still open from an earlier (crashed / timed out) attempt is followed, never re-sent.
+export async function topUpGasIfNeeded(
+  sb: SupabaseClient,
+  publicClient: PublicClient,
+  opts: { chain: string; to: Hex; gasUnits: bigint; allowTopUp: boolean; purpose: string; position_id: string; position_ref: string }
+): Promise<GasTopUp | null> {
+  const balWei = await publicClient.getBalance({ address: opts.to });
+  const gasPrice = await publicClient.getGasPrice();
+
+  // requiredWei ≈ (gas + overhead) * gasPrice * 1.25x (BigInt-safe)
+  const requiredWeiRaw = (opts.gasUnits + BASE_OVERHEAD_GAS) * gasPrice;
+  const requiredWei = (requiredWeiRaw * GAS_MULT_NUM) / GAS_MULT_DEN;
+
+  // If we already have enough, no topup
+  if (balWei >= requiredWei) return null;
+
+  const purpose = `gas_topup:${opts.purpose}`;
+  const open = await openOpsTx(sb, opts.position_id, purpose);
+  if (open) return { hash: await waitForOpsTx(sb, publicClient, open.hash), wei: open.valueWei };
+
+  if (!opts.allowTopUp) {
+    throw new Error(`Deposit EOA needs gas. Top-up already recorded; cannot auto-topup twice.`);
+  }
+
+  const deficitWei = requiredWei - balWei;
+
+  const minWei = parseEther(String(GAS_MIN_TOPUP_BNB));
+  const capWei = parseEther(String(fundChain(opts.chain).gas_topup_cap));
+
+  // topUpWei = clamp(deficitWei, minWei..capWei)
+  const topUpWei = deficitWei < minWei ? minWei : deficitWei > capWei ? capWei : deficitWei;
+
+  const sent = await sendOpsTx(sb, publicClient, "gas", { to: opts.to, value: topUpWei }, {
+    purpose,
+    position_id: opts.position_id,
+    position_ref: opts.position_ref,
+  });
+  const hash = await waitForOpsTx(sb, publicClient, sent);
+
+  return { hash, wei: topUpWei };
+}
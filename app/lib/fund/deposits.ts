@@ -0,0 +1,252 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { decodeEventLog, formatUnits, parseAbiItem, parseUnits, type Hex, type Log, type PublicClient } from "viem";
+import { transitionPosition, type FundActor } from "./transition";
+
+// Every USDT transfer into a deposit address is recorded in fund_deposits.
+// While a position is awaiting_funds, transfers aggregate (split deposits / top-ups)
+// until the total reaches expected_min_usdt; anything above expected_max_usdt, and any
+// transfer arriving after the amount was credited (or after expiry), goes to fund_excess for refund.
+
+const TRANSFER_ABI_ITEM = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export type DepositTransfer = {
+  tx_hash: Hex;
+  log_index: number;
+  from_address: string;
+  amount_raw: bigint;
+  block_number: bigint;
+  block_hash: Hex;
+};
+
+export type ExcessReason = "over_max" | "top_up" | "under_min" | "late";
+
+type CreditablePosition = {
+  id: string;
+  position_ref: string;
+  status: string;
+  deposit_tx_hash?: string | null;
+  expected_min_usdt: number | string;
+  expected_max_usdt: number | string;
+};
+
+export type CreditResult =
+  | { outcome: "partial"; received_usdt: number; min_usdt: number }
+  | {
+      outcome: "credited";
+      funded_usdt: number;
+      excess_usdt: number;
+      deposit_tx_hash: Hex;
+      funded_at: string;
+      block_number: bigint;
+      block_hash: Hex;
+    }
+  | { outcome: "excess"; excess_usdt: number }
+  | { outcome: "none" };
+
+// All USDT Transfer(to=deposit) logs in a receipt (or getLogs page)
+export function transfersTo(logs: Log[], usdt: string, depositAddress: string): DepositTransfer[] {
+  const token = usdt.toLowerCase();
+  const to = depositAddress.toLowerCase();
+  const out: DepositTransfer[] = [];
+
+  for (const lg of logs) {
+    if (String(lg.address).toLowerCase() !== token) continue;
+    if (!lg.topics || lg.topics.length < 3) continue;
+    if (String(lg.topics[0]).toLowerCase() !== TRANSFER_TOPIC) continue;
+
+    try {
+      const decoded = decodeEventLog({ abi: [TRANSFER_ABI_ITEM], data: lg.data, topics: lg.topics });
+      if (String(decoded.args.to).toLowerCase() !== to) continue;
+      if (lg.transactionHash == null || lg.logIndex == null || lg.blockNumber == null || lg.blockHash == null) continue;
+
+      out.push({
+        tx_hash: lg.transactionHash,
+        log_index: lg.logIndex,
+        from_address: String(decoded.args.from).toLowerCase(),
+        amount_raw: decoded.args.value,
+        block_number: lg.blockNumber,
+        block_hash: lg.blockHash,
+      });
+    } catch {
+      continue;
+    }
+  }
+
+  return out;
+}
+
+// Idempotent on (tx_hash, log_index)
+export async function recordTransfers(
+  sb: SupabaseClient,
+  pos: { id: string; position_ref: string },
+  transfers: DepositTransfer[],
+  decimals: number
+): Promise<void> {
+  if (transfers.length === 0) return;
+
+  const { error } = await sb.from("fund_deposits").upsert(
+    transfers.map((t) => ({
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+      tx_hash: t.tx_hash,
+      log_index: t.log_index,
+      from_address: t.from_address,
+      amount_raw: t.amount_raw.toString(),
+      amount_usdt: Number(formatUnits(t.amount_raw, decimals)),
+      block_number: Number(t.block_number),
+      block_hash: t.block_hash,
+      status: "pending",
+    })),
+    { onConflict: "tx_hash,log_index", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+async function queueExcess(
+  sb: SupabaseClient,
+  pos: { id: string; position_ref: string },
+  dep: { id: string; tx_hash: string; from_address: string },
+  amountUsdt: number,
+  reason: ExcessReason
+): Promise<void> {
+  const { error } = await sb.from("fund_excess").upsert(
+    {
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+      deposit_id: dep.id,
+      tx_hash: dep.tx_hash,
+      from_address: dep.from_address,
+      amount_usdt: amountUsdt,
+      reason,
+      status: "open",
+    },
+    { onConflict: "deposit_id", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+// Apply pending fund_deposits rows to the position (see header comment for the rules)
+export async function creditDeposits(
+  sb: SupabaseClient,
+  client: PublicClient,
+  pos: CreditablePosition,
+  actor: FundActor,
+  decimals: number
+): Promise<CreditResult> {
+  const { data: rows, error } = await sb
+    .from("fund_deposits")
+    .select("id, tx_hash, log_index, from_address, amount_raw, block_number, block_hash")
+    .eq("position_id", pos.id)
+    .eq("status", "pending")
+    .order("block_number", { ascending: true })
+    .order("log_index", { ascending: true });
+
+  if (error) throw error;
+  const pending = rows ?? [];
+  if (pending.length === 0) return { outcome: "none" };
+
+  const mark = async (ids: string[], status: "credited" | "excess") => {
+    if (ids.length === 0) return;
+    const { error: mErr } = await sb
+      .from("fund_deposits")
+      .update({ status })
+      .in("id", ids)
+      .eq("status", "pending");
+    if (mErr) throw mErr;
+  };
+
+  // Amount already fixed: every new transfer is a top-up to refund
+  if (String(pos.status) !== "awaiting_funds") {
+    // positions credited before fund_deposits existed: their own deposit tx is not a top-up
+    const own = String(pos.deposit_tx_hash ?? "").toLowerCase();
+    const original = pending.filter((d) => String(d.tx_hash).toLowerCase() === own);
+    const topUps = pending.filter((d) => String(d.tx_hash).toLowerCase() !== own);
+    await mark(original.map((d) => d.id), "credited");
+    if (topUps.length === 0) return { outcome: "none" };
+
+    // deposits to an expired address are flagged for manual handling
+    const late = String(pos.status) === "expired";
+    let excessRaw = 0n;
+    for (const d of topUps) {
+      const raw = BigInt(d.amount_raw);
+      excessRaw += raw;
+      await queueExcess(sb, pos, d, Number(formatUnits(raw, decimals)), late ? "late" : "top_up");
+    }
+    if (late) {
+      await transitionPosition(sb, {
+        id: pos.id,
+        from: "expired",
+        to: "flagged",
+        actor,
+        note: `late deposit: ${formatUnits(excessRaw, decimals)} USDT`,
+      });
+    }
+    await mark(topUps.map((d) => d.id), "excess");
+    return { outcome: "excess", excess_usdt: Number(formatUnits(excessRaw, decimals)) };
+  }
+
+  const minRaw = parseUnits(String(pos.expected_min_usdt), decimals);
+  const maxRaw = parseUnits(String(pos.expected_max_usdt), decimals);
+
+  const totalRaw = pending.reduce((n, d) => n + BigInt(d.amount_raw), 0n);
+  if (totalRaw < minRaw) {
+    return {
+      outcome: "partial",
+      received_usdt: Number(formatUnits(totalRaw, decimals)),
+      min_usdt: Number(pos.expected_min_usdt),
+    };
+  }
+
+  // the transfer that pushed the total over the minimum is the position's deposit tx
+  let running = 0n;
+  let completing = pending[pending.length - 1];
+  for (const d of pending) {
+    running += BigInt(d.amount_raw);
+    if (running >= minRaw) {
+      completing = d;
+      break;
+    }
+  }
+
+  const creditedRaw = totalRaw > maxRaw ? maxRaw : totalRaw;
+  const excessRaw = totalRaw - creditedRaw;
+
+  const blockNumber = BigInt(completing.block_number);
+  const blk = await client.getBlock({ blockNumber });
+  const fundedAtIso = new Date(Number(blk.timestamp) * 1000).toISOString();
+
+  const moved = await transitionPosition(sb, {
+    id: pos.id,
+    from: "awaiting_funds",
+    to: "confirming",
+    actor,
+    patch: {
+      deposit_tx_hash: completing.tx_hash,
+      funded_usdt: Number(formatUnits(creditedRaw, decimals)),
+      funded_at: fundedAtIso,
+      deposit_block_number: Number(blockNumber),
+      deposit_block_hash: completing.block_hash,
+    },
+    requireNull: ["deposit_tx_hash"],
+    note: pending.length > 1 ? `${pending.length} transfers aggregated` : null,
+  });
+  if (!moved) throw new Error("Position updated by someone else");
+
+  await mark(pending.map((d) => d.id), "credited");
+
+  if (excessRaw > 0n) {
+    // attribute the overflow to the last transfer (the one that went over the maximum)
+    await queueExcess(sb, pos, pending[pending.length - 1], Number(formatUnits(excessRaw, decimals)), "over_max");
+  }
+
+  return {
+    outcome: "credited",
+    funded_usdt: Number(formatUnits(creditedRaw, decimals)),
+    excess_usdt: Number(formatUnits(excessRaw, decimals)),
+    deposit_tx_hash: completing.tx_hash as Hex,
+    funded_at: fundedAtIso,
+    block_number: blockNumber,
+    block_hash: completing.block_hash as Hex,
+  };
+}
@@ -0,0 +1,15 @@
+import type { Hex } from "viem";
+
+export function env(name: string, fallback?: string): string {
+  const v = process.env[name];
+  if (v && v.trim()) return v.trim();
+  if (fallback != null) return fallback;
+  throw new Error(`Missing env: ${name}`);
+}
+
+export function normalizePk(pk: string, label = "PK"): Hex {
+  const s = pk.trim();
+  if (/^0x[0-9a-fA-F]{64}$/.test(s)) return s as Hex;
+  if (/^[0-9a-fA-F]{64}$/.test(s)) return (`0x${s}`) as Hex;
+  throw new Error(`Bad ${label} format (expected 64 hex chars)`);
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Hex, formatUnits, type PublicClient } from "viem";
+import { chainClient, positionAsset } from "./chains";
+import { ERC20_ABI } from "./deposit-wallet";
+import { env } from "./env";
+import { transitionPosition } from "./transition";
+
+// Server-side expiry of unfunded positions. awaiting_funds past expires_at moves to
+// "expired" (or "flagged" if it holds a partial deposit) and drops out of the indexer.
+// Expired addresses keep a cheap balanceOf check so late deposits are still flagged.
+
+const ACTOR = { kind: "system" as const, source: "fund/expiry" };
+
+export function positionTtlMs(): number {
+  const hours = Number(env("FUND_POSITION_TTL_HOURS", "72"));
+  if (!Number.isFinite(hours) || hours <= 0) throw new Error("Bad FUND_POSITION_TTL_HOURS");
+  return hours * 60 * 60 * 1000;
+}
+
+export function expiresAtFrom(createdAt: Date): string {
+  return new Date(createdAt.getTime() + positionTtlMs()).toISOString();
+}
+
+export type ExpiryResult = { position_ref: string; outcome: "expired" | "flagged" };
+
+export async function expirePositions(sb: SupabaseClient, opts: { limit?: number } = {}): Promise<ExpiryResult[]> {
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref")
+    .eq("status", "awaiting_funds")
+    .is("deposit_tx_hash", null)
+    .lt("expires_at", new Date().toISOString())
+    .order("expires_at", { ascending: true })
+    .limit(opts.limit ?? 200);
+
+  if (error) throw error;
+
+  const out: ExpiryResult[] = [];
+
+  for (const p of data ?? []) {
+    const { count, error: cErr } = await sb
+      .from("fund_deposits")
+      .select("id", { count: "exact", head: true })
+      .eq("position_id", p.id)
+      .eq("status", "pending");
+    if (cErr) throw cErr;
+
+    const partial = Boolean(count);
+    const moved = await transitionPosition(sb, {
+      id: p.id,
+      from: "awaiting_funds",
+      to: partial ? "flagged" : "expired",
+      actor: ACTOR,
+      requireNull: ["deposit_tx_hash"],
+      note: partial ? "expired holding a partial deposit" : null,
+    });
+
+    if (moved) out.push({ position_ref: p.position_ref, outcome: partial ? "flagged" : "expired" });
+  }
+
+  return out;
+}
+
+export type LateDeposit = { position_ref: string; balance_usdt: number };
+
+// Round-robin balanceOf over expired addresses (oldest late_checked_at first)
+export async function checkLateDeposits(sb: SupabaseClient, opts: { limit?: number } = {}): Promise<LateDeposit[]> {
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, issued_deposit_address, chain, token")
+    .eq("status", "expired")
+    .order("late_checked_at", { ascending: true, nullsFirst: true })
+    .limit(opts.limit ?? Number(env("FUND_LATE_CHECK_BATCH", "50")));
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const clients = new Map<string, PublicClient>();
+  const found: LateDeposit[] = [];
+
+  for (const p of data) {
+    const asset = positionAsset(p);
+    if (!clients.has(asset.chain.id)) clients.set(asset.chain.id, chainClient(asset.chain));
+    const bal = await clients.get(asset.chain.id)!.readContract({
+      address: asset.token.address,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      args: [String(p.issued_deposit_address).toLowerCase() as Hex],
+    });
+
+    await sb.from("fund_positions").update({ late_checked_at: new Date().toISOString() }).eq("id", p.id);
+    if (bal === 0n) continue;
+
+    const balance = Number(formatUnits(bal, asset.token.decimals));
+    const moved = await transitionPosition(sb, {
+      id: p.id,
+      from: "expired",
+      to: "flagged",
+      actor: ACTOR,
+      note: `late deposit: ${balance} ${asset.token.symbol} (${asset.chain.id}) on expired address`,
+    });
+    if (moved) found.push({ position_ref: p.position_ref, balance_usdt: balance });
+  }
+
+  return found;
+}
@@ -0,0 +1,243 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createWalletClient, formatEther, http, type Hex, type PublicClient } from "viem";
+import { chainClient, fundChain, USDDD_CHAIN } from "./chains";
+import { waitForFinalReceipt } from "./confirmations";
+import { loadDepositAccount } from "./deposit-wallet";
+import { env } from "./env";
+import { pageAll } from "./paging";
+import { fundSigner } from "./signer";
+
+// Gas ledger (table: fund_gas_ledger), one row per (tx, kind), amounts in the chain's native coin
+// (BNB on bsc; the *_bnb fields keep their name on other chains):
+//   topup        ops wallet -> deposit EOA (value) + the ops tx fee
+//   fee          gas burned by the deposit EOA itself (sweep, refund, withdrawal burn, reconcile burn)
+//   dust_return  leftover BNB sent back from a deposit EOA to the ops wallet (value) + its fee
+// Net BNB cost to the ops wallet = topup value + topup fees - dust returned.
+
+export type GasEntryKind = "topup" | "fee" | "dust_return";
+export type GasPurpose = "sweep" | "refund" | "withdraw" | "reconcile" | "dust";
+
+const TRANSFER_GAS = 21_000n;
+
+// Bookkeeping only: read the receipt and record value + fee. Callers never fail a money move over it.
+export async function recordGasTx(
+  sb: SupabaseClient,
+  client: PublicClient,
+  e: { chain: string; position_id: string; position_ref: string; kind: GasEntryKind; purpose: GasPurpose; hash: Hex; valueWei?: bigint }
+): Promise<void> {
+  const receipt = await client.getTransactionReceipt({ hash: e.hash });
+  const feeWei = receipt.gasUsed * receipt.effectiveGasPrice;
+  const valueWei = e.valueWei ?? 0n;
+
+  const { error } = await sb.from("fund_gas_ledger").upsert(
+    {
+      chain: e.chain,
+      position_id: e.position_id,
+      position_ref: e.position_ref,
+      kind: e.kind,
+      purpose: e.purpose,
+      tx_hash: e.hash,
+      value_wei: valueWei.toString(),
+      fee_wei: feeWei.toString(),
+      value_bnb: Number(formatEther(valueWei)),
+      fee_bnb: Number(formatEther(feeWei)),
+    },
+    { onConflict: "tx_hash,kind", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+// Statuses whose deposit EOA needs no more gas from us (or not for a long time)
+const DUST_STATUSES = ["swept_locked", "withdrawn", "refunded", "expired"];
+
+export type DustResult = {
+  position_ref: string;
+  chain: string;
+  address: string;
+  balance_bnb: number;
+  returned_bnb: number;
+  fee_bnb: number;
+  tx_hash: Hex | null;
+  skipped?: string;
+};
+
+// Periodic dust sweep: send leftover gas back to the ops (gas) wallet when the balance is worth
+// more than FUND_DUST_MIN_MULTIPLE x the 21k-gas transfer fee. Positions rotate via gas_dust_checked_at.
+// A deposit EOA can hold gas on its own chain and on USDDD_CHAIN (withdrawal burn); both are checked.
+export async function sweepGasDust(
+  sb: SupabaseClient,
+  opts: { limit?: number; dryRun?: boolean } = {}
+): Promise<{ checked: number; returned: Record<string, number>; results: DustResult[] }> {
+  const multiple = BigInt(Math.max(1, Math.floor(Number(env("FUND_DUST_MIN_MULTIPLE", "3")))));
+  const signer = fundSigner(sb);
+  const ops = await signer.getAccount({ role: "gas" });
+
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, issued_deposit_address, chain, gas_dust_checked_at")
+    .in("status", DUST_STATUSES)
+    .not("issued_deposit_address", "is", null)
+    .order("gas_dust_checked_at", { ascending: true, nullsFirst: true })
+    .limit(opts.limit ?? 50);
+  if (error) throw error;
+
+  // one client + gas price per chain for the whole pass
+  const chains = new Map<string, { client: PublicClient; rpc: string; gasPrice: bigint }>();
+  const onChain = async (id: string) => {
+    if (!chains.has(id)) {
+      const c = fundChain(id);
+      const client = chainClient(c);
+      chains.set(id, { client, rpc: c.rpc_url, gasPrice: await client.getGasPrice() });
+    }
+    return chains.get(id)!;
+  };
+
+  const results: DustResult[] = [];
+  const returned: Record<string, bigint> = {};
+
+  const targets = (data ?? []).flatMap((pos) =>
+    Array.from(new Set([pos.chain ?? "bsc", USDDD_CHAIN])).map((chain) => ({ pos, chain }))
+  );
+
+  for (const { pos, chain } of targets) {
+    const { client, rpc, gasPrice } = await onChain(chain);
+    const feeWei = TRANSFER_GAS * gasPrice;
+    const address = String(pos.issued_deposit_address).toLowerCase() as Hex;
+    const bal = await client.getBalance({ address });
+    const item: DustResult = {
+      position_ref: pos.position_ref,
+      chain,
+      address,
+      balance_bnb: Number(formatEther(bal)),
+      returned_bnb: 0,
+      fee_bnb: 0,
+      tx_hash: null,
+    };
+
+    if (bal <= feeWei * multiple) {
+      item.skipped = bal === 0n ? "empty" : "not worth the gas";
+    } else if (opts.dryRun) {
+      item.returned_bnb = Number(formatEther(bal - feeWei));
+      item.fee_bnb = Number(formatEther(feeWei));
+      item.skipped = "dry run";
+    } else {
+      try {
+        const account = await loadDepositAccount(signer, pos);
+        const wallet = createWalletClient({ account, transport: http(rpc) });
+
+        // legacy gasPrice pins the fee exactly, so the EOA ends at 0
+        const value = bal - feeWei;
+        const hash = await wallet.sendTransaction({ chain: null, to: ops.address, value, gas: TRANSFER_GAS, gasPrice });
+        await waitForFinalReceipt(client, hash, chain);
+
+        await recordGasTx(sb, client, {
+          chain,
+          position_id: pos.id,
+          position_ref: pos.position_ref,
+          kind: "dust_return",
+          purpose: "dust",
+          hash,
+          valueWei: value,
+        }).catch(() => null);
+
+        returned[chain] = (returned[chain] ?? 0n) + value;
+        item.returned_bnb = Number(formatEther(value));
+        item.fee_bnb = Number(formatEther(feeWei));
+        item.tx_hash = hash;
+      } catch (e: unknown) {
+        item.skipped = e instanceof Error ? e.message : String(e);
+      }
+    }
+
+    if (!opts.dryRun) {
+      await sb.from("fund_positions").update({ gas_dust_checked_at: new Date().toISOString() }).eq("id", pos.id);
+    }
+    results.push(item);
+  }
+
+  return {
+    checked: results.length,
+    // per chain, in its native coin
+    returned: Object.fromEntries(Object.entries(returned).map(([c, v]) => [c, Number(formatEther(v))])),
+    results,
+  };
+}
+
+export type GasReport = {
+  chain: string;
+  native: string;
+  positions: number; // with ledger entries
+  funded_usdt: number;
+  topup_bnb: number;
+  topup_fee_bnb: number;
+  deposit_fee_bnb: number;
+  dust_returned_bnb: number;
+  dust_fee_bnb: number;
+  net_cost_bnb: number;
+  bnb_per_funded_usdt: number | null;
+  usd_per_funded_usdt: number | null; // only with FUND_<NATIVE>_USD set, e.g. FUND_BNB_USD
+};
+
+type LedgerRow = { position_id: string; kind: GasEntryKind; value_wei: string; fee_wei: string };
+
+// Gas cost per funded (swept) USDT on one chain (bsc by default), fund-wide or for one position by ref
+export async function gasReport(sb: SupabaseClient, opts: { ref?: string; chain?: string } = {}): Promise<GasReport> {
+  const chain = fundChain(opts.chain);
+  const rows = await pageAll<LedgerRow>((from, to) => {
+    let q = sb
+      .from("fund_gas_ledger")
+      .select("position_id, kind, value_wei, fee_wei")
+      .eq("chain", chain.id)
+      .order("created_at")
+      .range(from, to);
+    if (opts.ref) q = q.eq("position_ref", opts.ref);
+    return q;
+  });
+
+  const sums: Record<GasEntryKind, { value: bigint; fee: bigint }> = {
+    topup: { value: 0n, fee: 0n },
+    fee: { value: 0n, fee: 0n },
+    dust_return: { value: 0n, fee: 0n },
+  };
+  const ids = new Set<string>();
+  for (const r of rows) {
+    sums[r.kind].value += BigInt(r.value_wei);
+    sums[r.kind].fee += BigInt(r.fee_wei);
+    ids.add(r.position_id);
+  }
+
+  // denominator: every swept position, top-up or not
+  const funded = (
+    await pageAll<{ funded_usdt: number | string | null }>((from, to) => {
+      let q = sb
+        .from("fund_positions")
+        .select("funded_usdt")
+        .eq("chain", chain.id)
+        .not("sweep_tx_hash", "is", null)
+        .order("id")
+        .range(from, to);
+      if (opts.ref) q = q.eq("position_ref", opts.ref);
+      return q;
+    })
+  ).reduce((n, p) => n + Number(p.funded_usdt ?? 0), 0);
+
+  const net = sums.topup.value + sums.topup.fee - sums.dust_return.value;
+  const netBnb = Number(formatEther(net));
+  const bnbUsd = Number(env(`FUND_${chain.native.toUpperCase()}_USD`, "0"));
+  const perUsdt = funded > 0 ? netBnb / funded : null;
+
+  return {
+    chain: chain.id,
+    native: chain.native,
+    positions: ids.size,
+    funded_usdt: funded,
+    topup_bnb: Number(formatEther(sums.topup.value)),
+    topup_fee_bnb: Number(formatEther(sums.topup.fee)),
+    deposit_fee_bnb: Number(formatEther(sums.fee.fee)),
+    dust_returned_bnb: Number(formatEther(sums.dust_return.value)),
+    dust_fee_bnb: Number(formatEther(sums.dust_return.fee)),
+    net_cost_bnb: netBnb,
+    bnb_per_funded_usdt: perUsdt,
+    usd_per_funded_usdt: perUsdt != null && bnbUsd > 0 ? perUsdt * bnbUsd : null,
+  };
+}
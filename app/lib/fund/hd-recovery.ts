@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { privateKeyToAccount } from "viem/accounts";
+import { envelopeKid, loadKeyring, sealPrivKey } from "./keyring";
+import { deriveDepositKey } from "./signers/hd";
+
+// Recovery from the HD root alone: re-derive every indexed deposit key, check it against
+// issued_deposit_address, and optionally re-seal it into fund_deposit_keys so the env
+// signer can operate the addresses if the HD signer is unavailable. Key material is never
+// returned. Gaps in the index range (allocated but no position) are reported because an
+// address there could still have been shown to a user before its insert failed.
+
+export type RecoveredKey = { position_ref: string; deposit_index: number; address: string; ok: boolean; restored: boolean };
+
+export type RecoveryReport = {
+  checked: number;
+  mismatched: RecoveredKey[];
+  restored: number;
+  gaps: number[];
+  keys: RecoveredKey[];
+};
+
+export async function recoverDepositKeys(
+  sb: SupabaseClient,
+  opts: { fromIndex?: number; limit?: number; restore?: boolean } = {}
+): Promise<RecoveryReport> {
+  const from = opts.fromIndex ?? 0;
+
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, issued_deposit_address, deposit_index")
+    .not("deposit_index", "is", null)
+    .gte("deposit_index", from)
+    .order("deposit_index", { ascending: true })
+    .limit(opts.limit ?? 500);
+
+  if (error) throw error;
+
+  const ring = opts.restore ? loadKeyring() : null;
+  const keys: RecoveredKey[] = [];
+  const gaps: number[] = [];
+  let expected = from;
+
+  for (const p of data ?? []) {
+    const index = Number(p.deposit_index);
+    for (; expected < index; expected++) gaps.push(expected);
+    expected = index + 1;
+
+    const pk = deriveDepositKey(index);
+    const address = privateKeyToAccount(pk).address.toLowerCase();
+    const ok = address === String(p.issued_deposit_address ?? "").toLowerCase();
+    let restored = false;
+
+    if (ok && ring) {
+      const enc = sealPrivKey(pk, ring);
+      const { error: upErr } = await sb
+        .from("fund_deposit_keys")
+        .upsert({ position_id: p.id, enc_privkey: enc, key_id: envelopeKid(enc) }, { onConflict: "position_id" });
+      if (upErr) throw upErr;
+      restored = true;
+    }
+
+    keys.push({ position_ref: p.position_ref, deposit_index: index, address, ok, restored });
+  }
+
+  return {
+    checked: keys.length,
+    mismatched: keys.filter((k) => !k.ok),
+    restored: keys.filter((k) => k.restored).length,
+    gaps,
+    keys,
+  };
+}
@@ -0,0 +1,210 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { env } from "./env";
+import { fundCaller } from "./route-auth";
+import { userSessionFromRequest } from "./user-session";
+
+// Idempotency-Key support for the POST routes under /api/fund that change state (table:
+// fund_idempotency_keys). A request carrying the header claims (route, caller, key) with a guarded
+// insert, runs once, and its response (status, headers, body) is stored and replayed verbatim for
+// FUND_IDEMPOTENCY_TTL_SECONDS. The caller is the operator / internal caller or the Scan session,
+// "public" otherwise, so one caller's key never replays another caller's response.
+//   - same key while the first request is still running -> 409
+//   - same key with a different method/path/query/body  -> 422
+//   - 5xx and 401 responses are not stored (maintenance pause, not signed in): the key is released
+//     so the same request can be retried once the cause is gone
+//   - responses that set a cookie or are marked Cache-Control: no-store are never stored: a replay
+//     must not hand out a session, and no-store responses carry a secret (issue-address's
+//     claim_secret) that must not land in the table or go to whoever resends the key
+// Requests without the header run as before. Keys should be random per user action (e.g. a UUID).
+// Read-only POSTs (positions) and logins are not wrapped.
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+const REPLAY_HEADER = "idempotent-replayed";
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const PENDING_LEASE_MS = 5 * 60_000; // a "pending" claim older than this is considered abandoned
+
+type StoredResponse = {
+  id: string;
+  request_hash: string;
+  status: "pending" | "done";
+  response_status: number | null;
+  response_headers: [string, string][] | null;
+  response_body: string | null;
+  expires_at: string;
+};
+
+type Claim = { kind: "claimed"; id: string } | { kind: "existing"; row: StoredResponse };
+
+function ttlSeconds(): number {
+  const n = Number(env("FUND_IDEMPOTENCY_TTL_SECONDS", String(DEFAULT_TTL_SECONDS)));
+  return Number.isFinite(n) && n >= 60 ? Math.floor(n) : DEFAULT_TTL_SECONDS;
+}
+
+function stored(res: Response): boolean {
+  return (
+    res.status < 500 &&
+    res.status !== 401 &&
+    res.headers.getSetCookie().length === 0 &&
+    !/\bno-store\b/i.test(res.headers.get("cache-control") ?? "")
+  );
+}
+
+function requestHash(caller: string, method: string, pathAndQuery: string, body: string): string {
+  return createHash("sha256").update(`${caller}\n${method.toUpperCase()}\n${pathAndQuery}\n${body}`).digest("hex");
+}
+
+// "operator:<id>", "internal:<id>", "session:<id>" or "public"
+async function resolveCaller(sb: SupabaseClient, req: Request): Promise<string> {
+  const caller = await fundCaller(req, "internal");
+  if (caller) return `${caller.kind}:${caller.id}`;
+  const sess = await userSessionFromRequest(sb, req);
+  return sess ? `session:${sess.id}` : "public";
+}
+
+async function claimKey(sb: SupabaseClient, route: string, caller: string, key: string, hash: string): Promise<Claim> {
+  // two passes: the second runs after an expired row for the key was removed
+  for (let pass = 0; pass < 2; pass++) {
+    const { data, error } = await sb
+      .from("fund_idempotency_keys")
+      .insert({
+        route,
+        caller,
+        idempotency_key: key,
+        request_hash: hash,
+        expires_at: new Date(Date.now() + PENDING_LEASE_MS).toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (!error) return { kind: "claimed", id: String(data.id) };
+    if (error.code !== "23505") throw error;
+
+    const { data: row, error: rowErr } = await sb
+      .from("fund_idempotency_keys")
+      .select("id, request_hash, status, response_status, response_headers, response_body, expires_at")
+      .eq("route", route)
+      .eq("caller", caller)
+      .eq("idempotency_key", key)
+      .maybeSingle();
+
+    if (rowErr) throw rowErr;
+    if (!row) continue; // removed in between
+    if (Date.parse(row.expires_at) > Date.now()) return { kind: "existing", row: row as StoredResponse };
+
+    // expired (stored response past retention, or an abandoned pending claim): guarded delete, retry
+    const { error: delErr } = await sb
+      .from("fund_idempotency_keys")
+      .delete()
+      .eq("id", row.id)
+      .lt("expires_at", new Date().toISOString());
+    if (delErr) throw delErr;
+  }
+  throw new Error("Idempotency key is busy, retry");
+}
+
+function replay(row: StoredResponse): Response {
+  const headers = new Headers();
+  for (const [name, value] of row.response_headers ?? []) headers.append(name, value);
+  headers.set(REPLAY_HEADER, "true");
+  return new NextResponse(row.response_body ?? "", { status: row.response_status ?? 200, headers });
+}
+
+async function storeResponse(sb: SupabaseClient, id: string, res: Response): Promise<void> {
+  const body = await res.clone().text();
+  const headers: [string, string][] = [];
+  res.headers.forEach((value, name) => {
+    if (name !== "set-cookie") headers.push([name, value]);
+  });
+
+  const now = new Date();
+  const { error } = await sb
+    .from("fund_idempotency_keys")
+    .update({
+      status: "done",
+      response_status: res.status,
+      response_headers: headers,
+      response_body: body,
+      completed_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttlSeconds() * 1000).toISOString(),
+    })
+    .eq("id", id)
+    .eq("status", "pending");
+  if (error) throw error;
+}
+
+async function releaseKey(sb: SupabaseClient, id: string): Promise<void> {
+  const { error } = await sb.from("fund_idempotency_keys").delete().eq("id", id).eq("status", "pending");
+  if (error) throw error;
+}
+
+// Wraps a POST handler: export async function POST(req) { return withIdempotencyKey(req, handlePost); }
+export async function withIdempotencyKey(req: Request, handler: (req: Request) => Promise<Response>): Promise<Response> {
+  const key = (req.headers.get(IDEMPOTENCY_HEADER) ?? "").trim();
+  if (!key) return handler(req);
+
+  try {
+    if (!/^[\x21-\x7e]{1,255}$/.test(key)) throw new Error("Bad Idempotency-Key (1-255 printable ASCII characters)");
+
+    const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const u = new URL(req.url);
+    const caller = await resolveCaller(sb, req);
+    // clone: the handler still reads the body itself
+    const hash = requestHash(caller, req.method, u.pathname + u.search, await req.clone().text());
+
+    const claim = await claimKey(sb, u.pathname, caller, key, hash);
+    if (claim.kind === "existing") {
+      if (claim.row.request_hash !== hash) {
+        return NextResponse.json({ ok: false, error: "Idempotency-Key was already used for a different request" }, { status: 422 });
+      }
+      if (claim.row.status === "pending") {
+        return NextResponse.json({ ok: false, error: "A request with this Idempotency-Key is still in progress" }, { status: 409 });
+      }
+      return replay(claim.row);
+    }
+
+    let res: Response;
+    try {
+      res = await handler(req);
+    } catch (e: unknown) {
+      await releaseKey(sb, claim.id).catch(() => null);
+      throw e;
+    }
+
+    // best-effort: if storing fails the pending claim lapses after PENDING_LEASE_MS
+    try {
+      if (stored(res)) await storeResponse(sb, claim.id, res);
+      else await releaseKey(sb, claim.id);
+    } catch {
+      // ignore
+    }
+    return res;
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "idempotency check failed";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
+
+// Drops rows past retention (called from the jobs worker tick)
+export async function purgeIdempotencyKeys(sb: SupabaseClient, limit = 500): Promise<number> {
+  const { data: rows, error } = await sb
+    .from("fund_idempotency_keys")
+    .select("id")
+    .lt("expires_at", new Date().toISOString())
+    .limit(limit);
+  if (error) throw error;
+  if (!rows || rows.length === 0) return 0;
+
+  const { error: delErr } = await sb
+    .from("fund_idempotency_keys")
+    .delete()
+    .in("id", rows.map((r) => r.id))
+    .lt("expires_at", new Date().toISOString());
+  if (delErr) throw delErr;
+  return rows.length;
+}
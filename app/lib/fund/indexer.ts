@@ -0,0 +1,251 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Hex } from "viem";
+import { chainClient, fundChains, type FundAsset } from "./chains";
+import { creditDeposits, recordTransfers, transfersTo } from "./deposits";
+import { env } from "./env";
+
+// Continuous deposit indexer, one pass per registered chain/token (./chains). Scans Transfer
+// logs chunk by chunk for all watched deposit addresses at once and persists the last processed
+// block per asset in fund_indexer_cursors, so a restart resumes exactly where the last run stopped.
+// Transfers are recorded/credited via ./deposits; credited positions move to "confirming"
+// and settleConfirmations() (./confirmations) finishes them.
+
+export const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef" as Hex;
+
+export function addressTopic(addr: string): Hex {
+  return ("0x" + addr.toLowerCase().slice(2).padStart(64, "0")) as Hex;
+}
+
+export function topicAddress(topic: string): string {
+  return ("0x" + topic.slice(-40)).toLowerCase();
+}
+
+const ADDRESS_BATCH = 100; // topic OR-list size per getLogs call
+
+// awaiting_funds aggregates transfers; later statuses still watched so top-ups land in fund_excess
+const WATCHED_STATUSES = ["awaiting_funds", "confirming", "funded_locked"];
+
+type WatchedPosition = {
+  id: string;
+  position_ref: string;
+  issued_deposit_address: string;
+  status: string;
+  deposit_tx_hash: string | null;
+  expected_min_usdt: number | string;
+  expected_max_usdt: number | string;
+};
+
+export type IndexerUpdate = {
+  position_ref: string;
+  outcome: "partial" | "credited" | "excess";
+  deposit_tx_hash?: Hex;
+  funded_usdt?: number;
+  received_usdt?: number;
+  excess_usdt?: number;
+};
+
+export type IndexerRun = {
+  chain: string;
+  token: string;
+  cursor_before: string;
+  cursor_after: string;
+  latest_block: string;
+  chunks: number;
+  addresses: number;
+  updates: IndexerUpdate[];
+  error?: string;
+};
+
+// bsc/usdt keeps the cursor name it had before the registry existed
+function cursorName(asset: FundAsset): string {
+  return `${asset.chain.id}_${asset.token.id}_deposits`;
+}
+
+async function readCursor(sb: SupabaseClient, name: string): Promise<bigint | null> {
+  const { data, error } = await sb
+    .from("fund_indexer_cursors")
+    .select("last_block")
+    .eq("name", name)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.last_block != null ? BigInt(data.last_block) : null;
+}
+
+// Guarded advance: fails if another indexer moved the cursor meanwhile
+async function advanceCursor(sb: SupabaseClient, name: string, from: bigint | null, to: bigint): Promise<void> {
+  if (from == null) {
+    const { error } = await sb
+      .from("fund_indexer_cursors")
+      .insert({ name, last_block: to.toString(), updated_at: new Date().toISOString() });
+    if (error) throw error;
+    return;
+  }
+
+  const { data, error } = await sb
+    .from("fund_indexer_cursors")
+    .update({ last_block: to.toString(), updated_at: new Date().toISOString() })
+    .eq("name", name)
+    .eq("last_block", from.toString())
+    .select("name");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error(`Indexer cursor ${name} moved concurrently`);
+}
+
+async function loadWatched(sb: SupabaseClient, asset: FundAsset): Promise<WatchedPosition[]> {
+  const out: WatchedPosition[] = [];
+  const page = 1000;
+
+  for (let from = 0; ; from += page) {
+    const { data, error } = await sb
+      .from("fund_positions")
+      .select("id, position_ref, issued_deposit_address, status, deposit_tx_hash, expected_min_usdt, expected_max_usdt")
+      .in("status", WATCHED_STATUSES)
+      .eq("chain", asset.chain.id)
+      .eq("token", asset.token.id)
+      .order("created_at", { ascending: true })
+      .range(from, from + page - 1);
+
+    if (error) throw error;
+    out.push(...((data ?? []) as WatchedPosition[]));
+    if (!data || data.length < page) break;
+  }
+
+  return out;
+}
+
+// One indexer pass per registered chain/token; a failing RPC only stops its own asset
+export async function runDepositIndexer(
+  sb: SupabaseClient,
+  opts: { maxChunks?: number } = {}
+): Promise<IndexerRun[]> {
+  const runs: IndexerRun[] = [];
+  for (const chain of fundChains()) {
+    for (const token of Object.values(chain.tokens)) {
+      try {
+        runs.push(await runAssetIndexer(sb, { chain, token }, opts));
+      } catch (e: unknown) {
+        runs.push({
+          chain: chain.id,
+          token: token.id,
+          cursor_before: "none",
+          cursor_after: "none",
+          latest_block: "unknown",
+          chunks: 0,
+          addresses: 0,
+          updates: [],
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+  }
+  return runs;
+}
+
+async function runAssetIndexer(
+  sb: SupabaseClient,
+  asset: FundAsset,
+  opts: { maxChunks?: number }
+): Promise<IndexerRun> {
+  const usdt = asset.token.address;
+  const decimals = asset.token.decimals;
+  const cursorKey = cursorName(asset);
+  const chunkSize = Number(env("FUND_WATCH_CHUNK", "100"));
+  const maxChunks = opts.maxChunks ?? Number(env("FUND_INDEXER_MAX_CHUNKS", "50"));
+
+  if (!Number.isFinite(chunkSize) || chunkSize <= 0 || chunkSize > 2000) throw new Error("Bad FUND_WATCH_CHUNK");
+  if (!Number.isFinite(maxChunks) || maxChunks <= 0) throw new Error("Bad FUND_INDEXER_MAX_CHUNKS");
+
+  const client = chainClient(asset.chain);
+  const latest = await client.getBlockNumber();
+
+  const stored = await readCursor(sb, cursorKey);
+
+  // First run: start from the chain's start_block (deployment block) or one watch window back
+  let cursor: bigint;
+  if (stored != null) {
+    cursor = stored;
+  } else {
+    const start = asset.chain.start_block;
+    const watchBlocks = BigInt(Number(env("FUND_WATCH_BLOCKS", "1500")));
+    cursor = start != null ? start - 1n : latest > watchBlocks ? latest - watchBlocks : 0n;
+  }
+
+  const positions = await loadWatched(sb, asset);
+  const byAddress = new Map<string, WatchedPosition>();
+  for (const p of positions) {
+    const a = String(p.issued_deposit_address ?? "").toLowerCase();
+    if (a.startsWith("0x") && a.length === 42) byAddress.set(a, p);
+  }
+  const topics = Array.from(byAddress.keys()).map(addressTopic);
+  const addressCount = topics.length;
+
+  const updates: IndexerUpdate[] = [];
+  let chunks = 0;
+  let prev = stored;
+
+  while (cursor < latest && chunks < maxChunks) {
+    const fromBlock = cursor + 1n;
+    const end: bigint = cursor + BigInt(chunkSize) > latest ? latest : cursor + BigInt(chunkSize);
+
+    const touched = new Set<string>();
+
+    for (let i = 0; i < topics.length; i += ADDRESS_BATCH) {
+      const logs = await client.getLogs({
+        address: usdt,
+        fromBlock,
+        toBlock: end,
+        topics: [TRANSFER_TOPIC, null, topics.slice(i, i + ADDRESS_BATCH)],
+      } as Parameters<typeof client.getLogs>[0]);
+
+      const batch = topics.slice(i, i + ADDRESS_BATCH).map(topicAddress);
+      for (const addr of batch) {
+        const p = byAddress.get(addr);
+        const transfers = p ? transfersTo(logs, usdt, addr) : [];
+        if (!p || transfers.length === 0) continue;
+
+        await recordTransfers(sb, p, transfers, decimals);
+        touched.add(addr);
+      }
+    }
+
+    // oldest first within the chunk; credit once per position after all its transfers are recorded
+    for (const addr of touched) {
+      const p = byAddress.get(addr);
+      if (!p) continue;
+
+      const credit = await creditDeposits(sb, client, p, { kind: "system", source: "fund/indexer" }, decimals);
+
+      if (credit.outcome === "credited") {
+        p.status = "confirming";
+        p.deposit_tx_hash = credit.deposit_tx_hash;
+        updates.push({
+          position_ref: p.position_ref,
+          outcome: "credited",
+          deposit_tx_hash: credit.deposit_tx_hash,
+          funded_usdt: credit.funded_usdt,
+          excess_usdt: credit.excess_usdt,
+        });
+      } else if (credit.outcome === "partial") {
+        updates.push({ position_ref: p.position_ref, outcome: "partial", received_usdt: credit.received_usdt });
+      } else if (credit.outcome === "excess") {
+        updates.push({ position_ref: p.position_ref, outcome: "excess", excess_usdt: credit.excess_usdt });
+      }
+    }
+
+    await advanceCursor(sb, cursorKey, prev, end);
+    prev = end;
+    cursor = end;
+    chunks++;
+  }
+
+  return {
+    chain: asset.chain.id,
+    token: asset.token.id,
+    cursor_before: stored == null ? "none" : stored.toString(),
+    cursor_after: cursor.toString(),
+    latest_block: latest.toString(),
+    chunks,
+    addresses: addressCount,
+    updates,
+  };
+}
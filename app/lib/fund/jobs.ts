@@ -0,0 +1,256 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isPaused } from "../maintenance";
+import { mintPosition } from "./mint";
+import { sweepPosition } from "./sweep";
+import { settleWithdrawal } from "./withdrawals";
+
+// Durable outbox for the confirm -> sweep -> mint pipeline and withdrawal settlement (table: fund_jobs).
+// Jobs are claimed with a guarded update (same pattern as status transitions),
+// retried with exponential backoff and parked as "dead" after MAX_ATTEMPTS.
+
+export type FundJobKind = "sweep" | "mint" | "withdraw";
+export type FundJobStatus = "queued" | "running" | "succeeded" | "dead";
+
+export type FundJob = {
+  id: string;
+  position_id: string;
+  position_ref: string;
+  kind: FundJobKind;
+  status: FundJobStatus;
+  attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  last_error: string | null;
+  result: unknown;
+  created_at: string;
+  updated_at: string;
+};
+
+const MAX_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 30_000; // 30s, 60s, 2m, 4m ...
+const BACKOFF_CAP_MS = 60 * 60_000; // 1h
+// a "running" job older than this is considered abandoned; above the worst case of a job that waits
+// out two ops txs (FUND_TX_STUCK_SECONDS * (FUND_TX_MAX_BUMPS + 2) each at the defaults) plus finality
+const LOCK_TIMEOUT_MS = 45 * 60_000;
+
+// what runs after a job succeeds
+const NEXT_KIND: Record<FundJobKind, FundJobKind | null> = {
+  sweep: "mint",
+  mint: null,
+  withdraw: null,
+};
+
+export function backoffMs(attempts: number): number {
+  const ms = BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(ms, BACKOFF_CAP_MS);
+}
+
+async function liveJob(sb: SupabaseClient, job: { kind: FundJobKind; position_id: string }): Promise<FundJob | null> {
+  const { data, error } = await sb
+    .from("fund_jobs")
+    .select("*")
+    .eq("position_id", job.position_id)
+    .eq("kind", job.kind)
+    .neq("status", "dead")
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as FundJob | null) ?? null;
+}
+
+// Enqueue once per (position, kind): an existing queued/running/succeeded job is reused.
+export async function enqueueJob(
+  sb: SupabaseClient,
+  job: { kind: FundJobKind; position_id: string; position_ref: string }
+): Promise<FundJob> {
+  const existing = await liveJob(sb, job);
+  if (existing) return existing;
+
+  const { data, error } = await sb
+    .from("fund_jobs")
+    .insert({ ...job, status: "queued", attempts: 0, run_after: new Date().toISOString() })
+    .select("*")
+    .single();
+
+  // a concurrent enqueue won the insert (fund_jobs_live_uniq): reuse its job
+  if (error?.code === "23505") {
+    const raced = await liveJob(sb, job);
+    if (raced) return raced;
+  }
+  if (error) throw error;
+  return data as FundJob;
+}
+
+// Run a finished job again (e.g. a mint that returned pending_approval and is now approved).
+export async function requeueJob(
+  sb: SupabaseClient,
+  job: { kind: FundJobKind; position_id: string; position_ref: string }
+): Promise<FundJob> {
+  const current = await enqueueJob(sb, job);
+  if (current.status !== "succeeded") return current;
+
+  const { data, error } = await sb
+    .from("fund_jobs")
+    .update({ status: "queued", attempts: 0, run_after: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", current.id)
+    .eq("status", "succeeded")
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as FundJob;
+}
+
+// Operator retry: a queued job runs now, a dead or succeeded one gets a fresh run.
+// The caller checks the position is still waiting on this step.
+export async function retryJob(
+  sb: SupabaseClient,
+  job: { kind: FundJobKind; position_id: string; position_ref: string }
+): Promise<FundJob> {
+  const current = await enqueueJob(sb, job);
+  if (current.status === "running") throw new Error(`${job.kind} job is already running`);
+  if (current.status === "succeeded") return requeueJob(sb, job);
+  if (current.attempts === 0) return current; // just enqueued
+
+  const { data, error } = await sb
+    .from("fund_jobs")
+    .update({ run_after: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", current.id)
+    .eq("status", "queued")
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error(`${job.kind} job changed, reload and retry`);
+  return data as FundJob;
+}
+
+async function claimJob(sb: SupabaseClient, job: FundJob): Promise<boolean> {
+  const { data, error } = await sb
+    .from("fund_jobs")
+    .update({
+      status: "running",
+      locked_at: new Date().toISOString(),
+      attempts: job.attempts + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", job.status)
+    .eq("attempts", job.attempts)
+    .select("id");
+
+  if (error) throw error;
+  return Boolean(data && data.length);
+}
+
+async function execute(sb: SupabaseClient, job: FundJob): Promise<unknown> {
+  const actor = { kind: "system" as const, source: `job/${job.kind}` };
+  if (job.kind === "sweep") return sweepPosition(sb, { ref: job.position_ref, actor });
+  if (job.kind === "mint") return mintPosition(sb, job.position_ref);
+  if (job.kind === "withdraw") return settleWithdrawal(sb, job.position_ref, actor);
+  throw new Error(`Unknown job kind: ${job.kind}`);
+}
+
+// Guarded on this run's claim (running, same attempt): a run reclaimed by another worker after
+// LOCK_TIMEOUT_MS leaves the row to that worker. A failed write is thrown; the job stays running
+// and is reclaimed after the lock timeout.
+async function finishJob(sb: SupabaseClient, job: FundJob, attempts: number, patch: Record<string, unknown>): Promise<void> {
+  const { error } = await sb
+    .from("fund_jobs")
+    .update({ ...patch, locked_at: null, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("status", "running")
+    .eq("attempts", attempts);
+  if (error) throw error;
+}
+
+async function runJob(sb: SupabaseClient, job: FundJob): Promise<FundJob["status"]> {
+  const attempts = job.attempts + 1;
+  let result: unknown;
+  try {
+    result = await execute(sb, job);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    const dead = attempts >= MAX_ATTEMPTS;
+
+    await finishJob(sb, job, attempts, {
+      status: dead ? "dead" : "queued",
+      last_error: msg,
+      run_after: new Date(Date.now() + backoffMs(attempts)).toISOString(),
+    });
+    return dead ? "dead" : "queued";
+  }
+
+  await finishJob(sb, job, attempts, { status: "succeeded", result, last_error: null });
+
+  const next = NEXT_KIND[job.kind];
+  if (next) await enqueueJob(sb, { kind: next, position_id: job.position_id, position_ref: job.position_ref });
+
+  return "succeeded";
+}
+
+// Worker tick: runs due jobs (and reclaims abandoned "running" ones) one at a time.
+export async function drainJobs(
+  sb: SupabaseClient,
+  opts: { limit?: number; ref?: string } = {}
+): Promise<{ id: string; kind: FundJobKind; position_ref: string; status: FundJobStatus }[]> {
+  const nowIso = new Date().toISOString();
+  const staleIso = new Date(Date.now() - LOCK_TIMEOUT_MS).toISOString();
+  // pause_fund_mint holds mint jobs in the queue; they run once the flag is cleared
+  const mintPaused = await isPaused(sb, "pause_fund_mint");
+
+  let q = sb
+    .from("fund_jobs")
+    .select("*")
+    .or(`and(status.eq.queued,run_after.lte.${nowIso}),and(status.eq.running,locked_at.lt.${staleIso})`)
+    .order("run_after", { ascending: true })
+    .limit(opts.limit ?? 10);
+
+  if (opts.ref) q = q.eq("position_ref", opts.ref);
+  if (mintPaused) q = q.neq("kind", "mint");
+
+  const { data: due, error } = await q;
+  if (error) throw error;
+
+  const ran: { id: string; kind: FundJobKind; position_ref: string; status: FundJobStatus }[] = [];
+
+  for (const job of (due ?? []) as FundJob[]) {
+    if (!(await claimJob(sb, job))) continue; // another worker got it
+
+    let status = await runJob(sb, job);
+    ran.push({ id: job.id, kind: job.kind, position_ref: job.position_ref, status });
+
+    // follow-up jobs for the same position run in the same tick when possible
+    let kind = NEXT_KIND[job.kind];
+    while (status === "succeeded" && kind && !(kind === "mint" && mintPaused)) {
+      const { data: follow } = await sb
+        .from("fund_jobs")
+        .select("*")
+        .eq("position_id", job.position_id)
+        .eq("kind", kind)
+        .eq("status", "queued")
+        .limit(1)
+        .maybeSingle();
+
+      if (!follow || !(await claimJob(sb, follow as FundJob))) break;
+
+      status = await runJob(sb, follow as FundJob);
+      ran.push({ id: follow.id, kind, position_ref: job.position_ref, status });
+      kind = NEXT_KIND[kind];
+    }
+  }
+
+  return ran;
+}
+
+export async function listJobs(sb: SupabaseClient, ref: string): Promise<FundJob[]> {
+  const { data, error } = await sb
+    .from("fund_jobs")
+    .select("*")
+    .eq("position_ref", ref)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as FundJob[];
+}
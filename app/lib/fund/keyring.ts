@@ -0,0 +1,101 @@
+import { randomBytes, createHash, createCipheriv, createDecipheriv, scryptSync } from "crypto";
+import type { Hex } from "viem";
+import { env } from "./env";
+
+// Versioned envelopes for deposit keys at rest (fund_deposit_keys.enc_privkey).
+//
+//   v1 (legacy)  base64(iv | tag | ct)                       key = sha256(FUND_KEY_ENC_SECRET)
+//   v2           "v2.<kid>.<base64(salt | iv | tag | ct)>"   key = scrypt(secret[kid], salt)
+//
+// Secrets live in FUND_KEY_ENC_SECRETS ("kid:secret,kid:secret"); FUND_KEY_ENC_ACTIVE picks the
+// one new envelopes are written with. FUND_KEY_ENC_SECRET alone still works: it is kid "legacy"
+// and remains the v1 decryption key until every row is re-encrypted (see rekey.ts).
+
+const LEGACY_KID = "legacy";
+
+// scrypt cost: ~16 MiB / a few ms per derive, paid once per envelope
+const SCRYPT = { N: 1 << 14, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+const SALT_LEN = 16;
+const IV_LEN = 12;
+const TAG_LEN = 16;
+
+export type Keyring = { activeKid: string; secrets: Map<string, string> };
+
+export function loadKeyring(): Keyring {
+  const secrets = new Map<string, string>();
+
+  const legacy = process.env.FUND_KEY_ENC_SECRET?.trim();
+  if (legacy) secrets.set(LEGACY_KID, legacy);
+
+  for (const part of env("FUND_KEY_ENC_SECRETS", "").split(",")) {
+    const s = part.trim();
+    if (!s) continue;
+    const i = s.indexOf(":");
+    const kid = i > 0 ? s.slice(0, i).trim() : "";
+    const secret = i > 0 ? s.slice(i + 1).trim() : "";
+    if (!/^[A-Za-z0-9_-]{1,32}$/.test(kid) || !secret) throw new Error("Bad FUND_KEY_ENC_SECRETS entry");
+    secrets.set(kid, secret);
+  }
+
+  const activeKid = env("FUND_KEY_ENC_ACTIVE", secrets.size === 1 ? [...secrets.keys()][0] : LEGACY_KID);
+  if (!secrets.has(activeKid)) throw new Error(`Missing secret for FUND_KEY_ENC_ACTIVE=${activeKid}`);
+
+  return { activeKid, secrets };
+}
+
+function secretFor(ring: Keyring, kid: string): string {
+  const s = ring.secrets.get(kid);
+  if (!s) throw new Error(`Unknown key id: ${kid}`);
+  return s;
+}
+
+function assertPk(out: string): Hex {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(out)) throw new Error("Bad decrypted key");
+  return out as Hex;
+}
+
+// kid that sealed an envelope (legacy for v1)
+export function envelopeKid(enc: string): string {
+  if (!enc.startsWith("v2.")) return LEGACY_KID;
+  const kid = enc.split(".")[1];
+  if (!kid) throw new Error("Bad key envelope");
+  return kid;
+}
+
+export function sealPrivKey(privKeyHex: Hex, ring: Keyring, kid = ring.activeKid): string {
+  const salt = randomBytes(SALT_LEN);
+  const key = scryptSync(secretFor(ring, kid), salt, 32, SCRYPT);
+  const iv = randomBytes(IV_LEN);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  // bind the header so an envelope can't be relabelled with another kid
+  cipher.setAAD(Buffer.from(`v2.${kid}`, "utf8"));
+  const ct = Buffer.concat([cipher.update(privKeyHex, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `v2.${kid}.${Buffer.concat([salt, iv, tag, ct]).toString("base64")}`;
+}
+
+export function openPrivKey(enc: string, ring: Keyring): Hex {
+  if (!enc.startsWith("v2.")) {
+    // v1: iv.tag.ciphertext under sha256(secret)
+    const buf = Buffer.from(enc, "base64");
+    const key = createHash("sha256").update(secretFor(ring, LEGACY_KID), "utf8").digest();
+    const decipher = createDecipheriv("aes-256-gcm", key, buf.subarray(0, IV_LEN));
+    decipher.setAuthTag(buf.subarray(IV_LEN, IV_LEN + TAG_LEN));
+    return assertPk(Buffer.concat([decipher.update(buf.subarray(IV_LEN + TAG_LEN)), decipher.final()]).toString("utf8"));
+  }
+
+  const [, kid, body] = enc.split(".");
+  if (!kid || !body) throw new Error("Bad key envelope");
+
+  const buf = Buffer.from(body, "base64");
+  const salt = buf.subarray(0, SALT_LEN);
+  const iv = buf.subarray(SALT_LEN, SALT_LEN + IV_LEN);
+  const tag = buf.subarray(SALT_LEN + IV_LEN, SALT_LEN + IV_LEN + TAG_LEN);
+  const ct = buf.subarray(SALT_LEN + IV_LEN + TAG_LEN);
+
+  const key = scryptSync(secretFor(ring, kid), salt, 32, SCRYPT);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAAD(Buffer.from(`v2.${kid}`, "utf8"));
+  decipher.setAuthTag(tag);
+  return assertPk(Buffer.concat([decipher.update(ct), decipher.final()]).toString("utf8"));
+}
@@ -0,0 +1,14 @@
+import { env } from "./env";
+
+// Per-position lockup: lockup_days is fixed when the address is issued, unlock_at when the
+// deposit is swept (accrual start). Operators can move unlock_at for an early unlock.
+
+export function lockupDays(): number {
+  const days = Number(env("FUND_LOCKUP_DAYS", "30"));
+  if (!Number.isInteger(days) || days < 0 || days > 3650) throw new Error("Bad FUND_LOCKUP_DAYS");
+  return days;
+}
+
+export function unlockAtFrom(start: Date, days: number): string {
+  return new Date(start.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
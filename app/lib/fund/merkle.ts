@@ -0,0 +1,51 @@
+import { concat, encodeAbiParameters, keccak256, type Hex } from "viem";
+
+// Liability Merkle tree for proof-of-reserves (client-safe; the Fund page can verify proofs).
+// leaf = keccak256(abi.encode(string position_ref, uint256 liability_raw)), liability in 6 decimals.
+// Pairs are hashed sorted (OpenZeppelin MerkleProof compatible), an odd node is carried up as-is.
+
+export const LIABILITY_DECIMALS = 6;
+
+export function liabilityLeaf(positionRef: string, liabilityRaw: bigint): Hex {
+  return keccak256(encodeAbiParameters([{ type: "string" }, { type: "uint256" }], [positionRef, liabilityRaw]));
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return a.toLowerCase() < b.toLowerCase() ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+// layers[0] = leaves, last layer = [root]
+export function merkleLayers(leaves: Hex[]): Hex[][] {
+  if (leaves.length === 0) return [[keccak256("0x")]];
+
+  const layers: Hex[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+export function merkleRoot(layers: Hex[][]): Hex {
+  return layers[layers.length - 1][0];
+}
+
+export function merkleProof(layers: Hex[][], index: number): Hex[] {
+  const proof: Hex[] = [];
+  let i = index;
+  for (let l = 0; l < layers.length - 1; l++) {
+    const sibling = i % 2 === 0 ? i + 1 : i - 1;
+    if (sibling < layers[l].length) proof.push(layers[l][sibling]);
+    i = Math.floor(i / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: Hex, proof: Hex[], root: Hex): boolean {
+  const computed = proof.reduce((h, p) => hashPair(h, p), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
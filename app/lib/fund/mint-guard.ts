@@ -0,0 +1,333 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatUnits, parseAbi, parseUnits, type Hex, type PublicClient } from "viem";
+import { chainClient, positionAsset } from "./chains";
+import { transfersTo } from "./deposits";
+import { env } from "./env";
+import { requeueJob, retryJob } from "./jobs";
+import { transitionPosition } from "./transition";
+
+// Safety rails in front of mintToTreasury (table: fund_mints, one row per position).
+//   - the sweep tx must show exactly funded_usdt moving deposit EOA -> treasury (on the deposit's chain/token)
+//   - per-position cap, rolling 24h cap and an outstanding-supply ceiling (on-chain totalSupply)
+//   - mints above FUND_MINT_APPROVAL_THRESHOLD wait in pending_approval until two different
+//     operators approve
+// Row status: pending_approval -> authorized -> minted; pending_approval -> rejected.
+
+export type MintRowStatus = "pending_approval" | "authorized" | "minted" | "rejected";
+
+export type FundMint = {
+  id: string;
+  position_id: string;
+  position_ref: string;
+  amount_usddd: number | string;
+  status: MintRowStatus;
+  first_approved_by: string | null;
+  second_approved_by: string | null;
+  rejected_by: string | null;
+  rejected_reason: string | null;
+  sweep_verified_at: string | null;
+  mint_tx_hash: string | null;
+  minted_at: string | null;
+  created_at: string;
+};
+
+export type MintLimits = {
+  perPosition: number;
+  per24h: number;
+  outstandingCeiling: number;
+  approvalThreshold: number;
+};
+
+const SUPPLY_ABI = parseAbi(["function totalSupply() view returns (uint256)"]);
+
+function limit(name: string, fallback: string): number {
+  const n = Number(env(name, fallback));
+  if (!Number.isFinite(n) || n < 0) throw new Error(`Bad ${name}`);
+  return n;
+}
+
+export function mintLimits(): MintLimits {
+  return {
+    perPosition: limit("FUND_MINT_MAX_PER_POSITION", env("FUND_MAX_USDT", "10000")),
+    per24h: limit("FUND_MINT_MAX_24H", "50000"),
+    outstandingCeiling: limit("FUND_MINT_MAX_OUTSTANDING", "1000000"),
+    approvalThreshold: limit("FUND_MINT_APPROVAL_THRESHOLD", "5000"),
+  };
+}
+
+type SweptPosition = {
+  id: string;
+  position_ref: string;
+  issued_deposit_address: string;
+  chain: string | null;
+  token: string | null;
+  funded_usdt: number | string;
+  sweep_tx_hash: string;
+};
+
+// The mint amount must equal what actually reached the treasury in the sweep tx (read on the
+// position's chain). RPC failures throw (retryable); a mismatch is returned so the caller can flag the position.
+export async function verifySweep(pos: SweptPosition): Promise<{ ok: true } | { ok: false; reason: string }> {
+  const asset = positionAsset(pos);
+  const usdt = asset.token.address;
+  const treasury = asset.chain.treasury;
+  const decimals = asset.token.decimals;
+
+  const receipt = await chainClient(asset.chain).getTransactionReceipt({ hash: pos.sweep_tx_hash as Hex });
+  if (receipt.status !== "success") return { ok: false, reason: `sweep tx ${pos.sweep_tx_hash} reverted` };
+
+  const from = pos.issued_deposit_address.toLowerCase();
+  const received = transfersTo(receipt.logs, usdt, treasury)
+    .filter((t) => t.from_address === from)
+    .reduce((n, t) => n + t.amount_raw, 0n);
+
+  const expected = parseUnits(String(pos.funded_usdt).trim(), decimals);
+  if (received !== expected) {
+    return {
+      ok: false,
+      reason: `treasury received ${formatUnits(received, decimals)} ${asset.token.symbol} on ${asset.chain.id}, funded_usdt=${pos.funded_usdt}`,
+    };
+  }
+  return { ok: true };
+}
+
+function sumAmounts(rows: { amount_usddd: number | string }[] | null): number {
+  return (rows ?? []).reduce((n, r) => n + Number(r.amount_usddd), 0);
+}
+
+// Caps that depend on other mints; re-checked right before every mint tx
+async function assertWithinCaps(
+  sb: SupabaseClient,
+  client: PublicClient,
+  row: FundMint,
+  opts: { token: Hex; decimals: number; limits: MintLimits }
+): Promise<void> {
+  const amount = Number(row.amount_usddd);
+  const sinceIso = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: recent, error: rErr } = await sb
+    .from("fund_mints")
+    .select("amount_usddd")
+    .eq("status", "minted")
+    .gte("minted_at", sinceIso);
+  if (rErr) throw rErr;
+
+  // authorized rows are mints in flight (minted soon, not yet in totalSupply)
+  const { data: inflight, error: iErr } = await sb
+    .from("fund_mints")
+    .select("amount_usddd")
+    .eq("status", "authorized")
+    .neq("id", row.id);
+  if (iErr) throw iErr;
+
+  const minted24h = sumAmounts(recent);
+  const pending = sumAmounts(inflight);
+
+  if (minted24h + pending + amount > opts.limits.per24h) {
+    throw new Error(`Mint exceeds 24h cap (${minted24h + pending} + ${amount} > ${opts.limits.per24h})`);
+  }
+
+  const supplyRaw = await client.readContract({ address: opts.token, abi: SUPPLY_ABI, functionName: "totalSupply" });
+  const supply = Number(formatUnits(supplyRaw, opts.decimals));
+  if (supply + pending + amount > opts.limits.outstandingCeiling) {
+    throw new Error(`Mint exceeds outstanding supply ceiling (${supply + pending} + ${amount} > ${opts.limits.outstandingCeiling})`);
+  }
+}
+
+export type MintAuthorization = { status: "authorized"; row: FundMint } | { status: "pending_approval"; row: FundMint };
+
+// Gate for mintPosition(): verify the sweep, get/create the fund_mints row, enforce approval + caps.
+export async function authorizeMint(
+  sb: SupabaseClient,
+  client: PublicClient,
+  pos: SweptPosition,
+  opts: { token: Hex; decimals: number }
+): Promise<MintAuthorization> {
+  const limits = mintLimits();
+  const amount = Number(String(pos.funded_usdt).trim());
+
+  if (!(amount > 0)) throw new Error("Bad funded_usdt");
+  if (amount > limits.perPosition) throw new Error(`Mint exceeds per-position cap (${amount} > ${limits.perPosition})`);
+
+  const sweep = await verifySweep(pos);
+  if (!sweep.ok) {
+    await transitionPosition(sb, {
+      id: pos.id,
+      from: "swept_locked",
+      to: "flagged",
+      actor: { kind: "system", source: "fund/mint" },
+      requireNull: ["usddd_mint_tx_hash"],
+      note: `sweep cross-check failed: ${sweep.reason}`,
+    });
+    throw new Error(`Sweep cross-check failed: ${sweep.reason}`);
+  }
+
+  const { error: insErr } = await sb.from("fund_mints").upsert(
+    {
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+      amount_usddd: amount,
+      status: amount > limits.approvalThreshold ? "pending_approval" : "authorized",
+      sweep_verified_at: new Date().toISOString(),
+    },
+    { onConflict: "position_id", ignoreDuplicates: true }
+  );
+  if (insErr) throw insErr;
+
+  const { data: row, error } = await sb.from("fund_mints").select("*").eq("position_id", pos.id).single();
+  if (error || !row) throw error ?? new Error("Mint record missing");
+
+  const mint = row as FundMint;
+  if (Number(mint.amount_usddd) !== amount) throw new Error("Mint record amount does not match funded_usdt");
+  if (mint.status === "rejected") throw new Error(`Mint rejected: ${mint.rejected_reason ?? "no reason"}`);
+  if (mint.status === "pending_approval") return { status: "pending_approval", row: mint };
+
+  if (mint.status === "authorized") await assertWithinCaps(sb, client, mint, { ...opts, limits });
+  return { status: "authorized", row: mint };
+}
+
+export async function markMinted(sb: SupabaseClient, positionId: string, txHash: Hex): Promise<void> {
+  const { error } = await sb
+    .from("fund_mints")
+    .update({ status: "minted", mint_tx_hash: txHash, minted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("position_id", positionId)
+    .eq("status", "authorized");
+  if (error) throw error;
+}
+
+async function loadMint(sb: SupabaseClient, ref: string): Promise<FundMint> {
+  const { data, error } = await sb.from("fund_mints").select("*").eq("position_ref", ref).limit(1).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error("Mint record not found");
+  return data as FundMint;
+}
+
+// First call records the first approver; a different operator's call authorizes the mint
+// and re-queues the "mint" job (which finished as pending_approval).
+export async function approveMint(sb: SupabaseClient, ref: string, operator: string): Promise<FundMint> {
+  const mint = await loadMint(sb, ref);
+  if (mint.status !== "pending_approval") throw new Error(`Mint not pending approval (status=${mint.status})`);
+
+  const nowIso = new Date().toISOString();
+
+  if (!mint.first_approved_by) {
+    const { data, error } = await sb
+      .from("fund_mints")
+      .update({ first_approved_by: operator, first_approved_at: nowIso, updated_at: nowIso })
+      .eq("id", mint.id)
+      .eq("status", "pending_approval")
+      .is("first_approved_by", null)
+      .select("*");
+    if (error) throw error;
+    if (!data || data.length === 0) throw new Error("Mint approval changed concurrently; retry");
+    return data[0] as FundMint;
+  }
+
+  if (mint.first_approved_by === operator) throw new Error("Second approval must come from a different operator");
+
+  const { data, error } = await sb
+    .from("fund_mints")
+    .update({ second_approved_by: operator, second_approved_at: nowIso, status: "authorized", updated_at: nowIso })
+    .eq("id", mint.id)
+    .eq("status", "pending_approval")
+    .eq("first_approved_by", mint.first_approved_by)
+    .select("*");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Mint approval changed concurrently; retry");
+
+  await requeueJob(sb, { kind: "mint", position_id: mint.position_id, position_ref: mint.position_ref });
+  return data[0] as FundMint;
+}
+
+export async function rejectMint(sb: SupabaseClient, ref: string, operator: string, reason: string): Promise<FundMint> {
+  const mint = await loadMint(sb, ref);
+
+  const { data, error } = await sb
+    .from("fund_mints")
+    .update({ status: "rejected", rejected_by: operator, rejected_reason: reason, updated_at: new Date().toISOString() })
+    .eq("id", mint.id)
+    .eq("status", "pending_approval")
+    .select("*");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Mint not pending approval");
+
+  await transitionPosition(sb, {
+    id: mint.position_id,
+    from: "swept_locked",
+    to: "flagged",
+    actor: { kind: "operator", source: "fund/mint/reject", id: operator },
+    requireNull: ["usddd_mint_tx_hash"],
+    note: `mint rejected: ${reason}`,
+  });
+
+  return data[0] as FundMint;
+}
+
+// Operator exit for a position flagged before its mint (sweep cross-check failed or mint rejected):
+// back to swept_locked and the mint job runs again. The sweep is cross-checked first, against the
+// corrected fundedUsdt when given, and resolving fails while it still mismatches (the job would
+// only flag the position again). An existing mint record is reopened in the status the approval
+// threshold gives: pending_approval (two fresh approvals) above it, authorized below.
+export async function resolveFlaggedMint(
+  sb: SupabaseClient,
+  pos: { id: string; position_ref: string },
+  operator: string,
+  note: string,
+  fundedUsdt?: number
+): Promise<void> {
+  const { data: row, error: pErr } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, issued_deposit_address, chain, token, funded_usdt, sweep_tx_hash")
+    .eq("id", pos.id)
+    .single();
+  if (pErr || !row) throw pErr ?? new Error("Position not found");
+
+  const swept = { ...row, funded_usdt: fundedUsdt ?? row.funded_usdt } as SweptPosition;
+  const amount = Number(String(swept.funded_usdt).trim());
+  if (!(amount > 0)) throw new Error("Bad funded_usdt");
+
+  const sweep = await verifySweep(swept);
+  if (!sweep.ok) throw new Error(`Sweep cross-check still fails (${sweep.reason}); pass the corrected funded_usdt`);
+
+  const nowIso = new Date().toISOString();
+  const { error } = await sb
+    .from("fund_mints")
+    .update({
+      amount_usddd: amount,
+      status: amount > mintLimits().approvalThreshold ? "pending_approval" : "authorized",
+      rejected_by: null,
+      rejected_reason: null,
+      first_approved_by: null,
+      first_approved_at: null,
+      second_approved_by: null,
+      second_approved_at: null,
+      sweep_verified_at: nowIso,
+      updated_at: nowIso,
+    })
+    .eq("position_id", pos.id)
+    .neq("status", "minted");
+  if (error) throw error;
+
+  const corrected = fundedUsdt !== undefined && fundedUsdt !== Number(row.funded_usdt);
+  const moved = await transitionPosition(sb, {
+    id: pos.id,
+    from: "flagged",
+    to: "swept_locked",
+    actor: { kind: "operator", source: "fund/admin/actions", id: operator },
+    patch: corrected ? { funded_usdt: amount } : undefined,
+    requireNull: ["usddd_mint_tx_hash"],
+    note: corrected ? `mint review resolved (funded_usdt ${row.funded_usdt} -> ${amount}): ${note}` : `mint review resolved: ${note}`,
+  });
+  if (!moved) throw new Error("Position is no longer flagged");
+
+  await retryJob(sb, { kind: "mint", position_id: pos.id, position_ref: pos.position_ref });
+}
+
+export async function listMints(sb: SupabaseClient, filter: { status?: MintRowStatus }): Promise<FundMint[]> {
+  let q = sb.from("fund_mints").select("*").order("created_at", { ascending: false }).limit(200);
+  if (filter.status) q = q.eq("status", filter.status);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as FundMint[];
+}
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  encodeFunctionData,
+  Hex,
+  parseAbi,
+  parseUnits,
+} from "viem";
+import { chainClient, USDDD_CHAIN } from "./chains";
+import { env } from "./env";
+import { authorizeMint, markMinted } from "./mint-guard";
+import { liveOpsTx, sendOpsTx, waitForOpsTx } from "./ops-tx";
+import { assertStatus } from "./transition";
+
+const USDDD_ABI = parseAbi([
+  "function mintToTreasury(uint256 amount) returns (bool)",
+  "function transfer(address to, uint256 value) returns (bool)",
+]);
+
+export type MintResult = {
+  position_ref: string;
+  status: "swept_locked";
+  usddd_amount: number;
+  usddd_mint_tx_hash: Hex;
+  usddd_transfer_tx_hash: Hex;
+  note: string;
+};
+
+// Held by mint-guard.ts until a second operator approves (see approveMint)
+export type MintPending = {
+  position_ref: string;
+  status: "pending_approval";
+  usddd_amount: number;
+  note: string;
+};
+
+// Mint USDDD to treasury and allocate it to the position's deposit address.
+// Idempotent: each step is skipped once its tx hash is recorded.
+// The mint step is gated by mint-guard.ts (sweep cross-check, caps, two-operator approval).
+export async function mintPosition(sb: SupabaseClient, ref: string): Promise<MintResult | MintPending> {
+  // Load position (must be swept_locked)
+  const { data: pos, error } = await sb
+    .from("fund_positions")
+    .select(
+      `
+      id,
+      position_ref,
+      issued_deposit_address,
+      chain,
+      token,
+      funded_usdt,
+      status,
+      sweep_tx_hash,
+      swept_at,
+      usddd_allocated,
+      usddd_accrued,
+      usddd_mint_tx_hash,
+      usddd_minted_at,
+      usddd_transfer_tx_hash,
+      usddd_transferred_at,
+      usddd_accrual_started_at
+    `
+    )
+    .eq("position_ref", ref)
+    .limit(1)
+    .single();
+
+  if (error || !pos) throw new Error("Position not found");
+
+  assertStatus(pos.status, "swept_locked", "mintable");
+  if (!pos.sweep_tx_hash) throw new Error("Missing sweep_tx_hash");
+  if (!pos.funded_usdt || Number(pos.funded_usdt) <= 0) throw new Error("Bad funded_usdt");
+
+  const token = env("BSC_USDDD_ADDRESS", env("NEXT_PUBLIC_USDDD_TOKEN_BEP20")).toLowerCase() as Hex;
+
+  // IMPORTANT: USDDD mint receiver is treasury (already configured in token)
+  // Then we sweep USDDD from treasury EOA -> position deposit address.
+  // USDDD is 6 decimals on-chain (lock it; do not use env to avoid catastrophic mints)
+  const USDDD_DECIMALS = 6;
+
+  const amountStr = String(pos.funded_usdt).trim();
+  const amountWei = parseUnits(amountStr, USDDD_DECIMALS);
+
+  // minter = owner/manager (mint authority), treasury = treasury pipe (EOA to transfer out);
+  // both send through the ops nonce manager (ops-tx.ts)
+  const publicClient = chainClient(USDDD_CHAIN);
+  const opsCtx = { position_id: pos.id, position_ref: ref };
+
+  // -------------------------
+  // 1) Mint (idempotent)
+  // -------------------------
+  let mintTx: Hex | null = (pos.usddd_mint_tx_hash as Hex | null) ?? null;
+
+  if (!mintTx) {
+    const auth = await authorizeMint(sb, publicClient, pos, { token, decimals: USDDD_DECIMALS });
+    if (auth.status === "pending_approval") {
+      return {
+        position_ref: ref,
+        status: "pending_approval",
+        usddd_amount: Number(amountStr),
+        note: "Above the approval threshold: waiting for two operator approvals.",
+      };
+    }
+
+    // a mint sent by an earlier (crashed / timed out) attempt is followed, never re-sent
+    const sent = (await liveOpsTx(sb, pos.id, "mint")) ?? await sendOpsTx(
+      sb,
+      publicClient,
+      "minter",
+      { to: token, data: encodeFunctionData({ abi: USDDD_ABI, functionName: "mintToTreasury", args: [amountWei] }) },
+      { ...opsCtx, purpose: "mint" }
+    );
+
+    // may differ from `sent` if the tx had to be sped up
+    const txHash = await waitForOpsTx(sb, publicClient, sent);
+
+    // update only if still null (idempotent guard)
+    const { error: updErr } = await sb
+      .from("fund_positions")
+      .update({
+        usddd_mint_tx_hash: txHash,
+        usddd_minted_at: new Date().toISOString(),
+      })
+      .eq("id", pos.id)
+      .is("usddd_mint_tx_hash", null);
+
+    if (updErr) throw updErr;
+    await markMinted(sb, pos.id, txHash);
+    // if someone else updated first, we still proceed (tx happened); keep txHash for response
+    mintTx = txHash;
+  }
+
+  // -------------------------
+  // 2) Transfer (allocate) from Treasury Pipe -> deposit address (idempotent)
+  // -------------------------
+  let transferTx: Hex | null = (pos.usddd_transfer_tx_hash as Hex | null) ?? null;
+
+  if (!transferTx) {
+    const toAddr = String(pos.issued_deposit_address).toLowerCase() as Hex;
+
+    const sent = (await liveOpsTx(sb, pos.id, "allocate")) ?? await sendOpsTx(
+      sb,
+      publicClient,
+      "treasury",
+      { to: token, data: encodeFunctionData({ abi: USDDD_ABI, functionName: "transfer", args: [toAddr, amountWei] }) },
+      { ...opsCtx, purpose: "allocate" }
+    );
+    const txHash = await waitForOpsTx(sb, publicClient, sent);
+
+    const nowIso = new Date().toISOString();
+    const accrualStart = pos.usddd_accrual_started_at ?? pos.swept_at ?? nowIso;
+
+    const { error: updErr } = await sb
+      .from("fund_positions")
+      .update({
+        usddd_transfer_tx_hash: txHash,
+        usddd_transferred_at: nowIso,
+        // Fund Network custody allocation
+        usddd_allocated: Number(amountStr),
+        // accrual ledger books daily from here (accrual-ledger.ts)
+        usddd_accrual_started_at: accrualStart,
+        usddd_accrued: 0,
+      })
+      .eq("id", pos.id)
+      .is("usddd_transfer_tx_hash", null);
+
+    if (updErr) throw updErr;
+
+    transferTx = txHash;
+  }
+
+  return {
+    position_ref: ref,
+    status: "swept_locked",
+    usddd_amount: Number(amountStr),
+    usddd_mint_tx_hash: mintTx,
+    usddd_transfer_tx_hash: transferTx,
+    note: "Idempotent: safe to re-call.",
+  };
+}
@@ -0,0 +1,72 @@
+import { scryptSync, timingSafeEqual } from "crypto";
+import { env } from "./env";
+import { cookieValue, signToken, tokenSecret, verifyToken } from "./signed-token";
+
+// Operator login for the /admin/fund console and the operator scope of every fund route (route-auth.ts).
+// Operators come from FUND_OPERATORS, comma separated "name:saltHex:scryptHex" entries, where
+// scryptHex = scrypt(password, salt, 32) hex, e.g.
+//   node -e 'const c=require("crypto");const s=c.randomBytes(16).toString("hex");console.log(`alice:${s}:${c.scryptSync(process.argv[1],s,32).toString("hex")}`)' 'pw'
+// A login returns a signed token (HMAC-SHA256 with FUND_ADMIN_SECRET) carried in an httpOnly cookie,
+// or as "Authorization: Bearer <token>" for scripts.
+
+export const OPERATOR_COOKIE = "fund_operator";
+const DEFAULT_TTL_SECONDS = 8 * 60 * 60;
+
+export type OperatorSession = { operator: string; exp: number };
+
+function ttlSeconds(): number {
+  const n = Number(env("FUND_ADMIN_SESSION_SECONDS", String(DEFAULT_TTL_SECONDS)));
+  return Number.isFinite(n) && n >= 60 ? Math.floor(n) : DEFAULT_TTL_SECONDS;
+}
+
+function sameBytes(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function operators(): Map<string, { salt: string; hash: string }> {
+  const out = new Map<string, { salt: string; hash: string }>();
+  for (const entry of env("FUND_OPERATORS", "").split(",")) {
+    const [name, salt, hash] = entry.trim().split(":");
+    if (name && salt && /^[0-9a-f]{64}$/i.test(hash ?? "")) out.set(name, { salt, hash: hash.toLowerCase() });
+  }
+  return out;
+}
+
+// Password check against FUND_OPERATORS; unknown operators cost the same scrypt as known ones
+export function checkOperatorPassword(operator: string, password: string): boolean {
+  const known = operators().get(operator);
+  const derived = scryptSync(password, known?.salt ?? "unknown-operator", 32);
+  return Boolean(known) && sameBytes(derived, Buffer.from(known!.hash, "hex"));
+}
+
+export function signOperatorToken(operator: string): { token: string; exp: number } {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds();
+  return { token: signToken(tokenSecret("FUND_ADMIN_SECRET"), { sub: operator, exp }), exp };
+}
+
+// null for anything malformed, forged, expired or for an operator removed from FUND_OPERATORS
+export function verifyOperatorToken(token: string | null | undefined): OperatorSession | null {
+  if (!token || !token.includes(".")) return null;
+  const body = verifyToken(tokenSecret("FUND_ADMIN_SECRET"), token);
+  const operator = typeof body?.sub === "string" ? body.sub : "";
+  if (!body || !operator || !operators().has(operator)) return null;
+  return { operator, exp: body.exp };
+}
+
+export function operatorFromRequest(req: Request): OperatorSession | null {
+  const auth = req.headers.get("authorization") ?? "";
+  const bearer = auth.toLowerCase().startsWith("bearer ") ? auth.slice(7).trim() : null;
+  return verifyOperatorToken(bearer ?? cookieValue(req.headers.get("cookie"), OPERATOR_COOKIE));
+}
+
+export function operatorCookie(token: string, exp: number) {
+  return {
+    name: OPERATOR_COOKIE,
+    value: token,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict" as const,
+    path: "/",
+    expires: new Date(exp * 1000),
+  };
+}
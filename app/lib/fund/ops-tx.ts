@@ -0,0 +1,487 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { keccak256, type Hex, type LocalAccount, type PublicClient, type TransactionReceipt } from "viem";
+import { chainClient, fundChainById } from "./chains";
+import { receiptOrNull, waitForFinalReceipt } from "./confirmations";
+import { env } from "./env";
+import { fundSigner, type SignerKey } from "./signer";
+
+// Ops wallet transactions (minter, treasury, gas, payout) go through here instead of viem's
+// default nonce handling:
+//   - nonces come from claim_fund_ops_nonce() (advisory lock per chain + address, fills failed gaps)
+//   - every tx is signed, persisted in fund_ops_txs and only then broadcast
+//   - waitForOpsTx() speeds up a tx stuck past FUND_TX_STUCK_SECONDS (same nonce, higher gas price);
+//     cancelOpsTx() replaces it with a 0-value self transfer. Every replacement hash is recorded in
+//     fund_ops_tx_replacements against the position.
+//   - a nonce consumed without a receipt for any of our hashes parks the tx in "review": it may have
+//     mined (RPC lag, nodes disagreeing), so it is never treated as failed and never re-sent.
+
+export type OpsRole = Exclude<SignerKey["role"], "deposit">;
+export type OpsTxStatus = "signing" | "pending" | "cancelling" | "review" | "mined" | "cancelled" | "failed";
+
+export type FundOpsTx = {
+  id: string;
+  role: OpsRole;
+  address: string;
+  chain_id: number;
+  nonce: number;
+  to_address: string;
+  data: string | null;
+  value_wei: string;
+  gas: string;
+  gas_price_wei: string;
+  tx_hash: string | null;
+  status: OpsTxStatus;
+  bumps: number;
+  position_id: string | null;
+  position_ref: string | null;
+  purpose: string;
+  last_sent_at: string | null;
+  created_at: string;
+};
+
+type OpsTxRequest = { to: Hex; data?: Hex; value?: bigint };
+type OpsTxContext = { purpose: string; position_id?: string | null; position_ref?: string | null };
+
+const POLL_MS = 3_000;
+const BUMP_NUM = 1125n; // +12.5%: minimum most nodes accept for a replacement
+const BUMP_DEN = 1000n;
+const TRANSFER_GAS = 21_000n;
+
+function stuckMs(): number {
+  return Math.max(15, Number(env("FUND_TX_STUCK_SECONDS", "90"))) * 1000;
+}
+
+function maxBumps(): number {
+  return Math.max(0, Math.floor(Number(env("FUND_TX_MAX_BUMPS", "3"))));
+}
+
+// Registry chain of a persisted ops tx (the client it was sent with is gone in the worker)
+function opsChainKey(chainId: number): string {
+  return fundChainById(chainId).id;
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+async function patchOpsTx(sb: SupabaseClient, id: string, patch: Record<string, unknown>, from?: OpsTxStatus[]) {
+  let q = sb
+    .from("fund_ops_txs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (from) q = q.in("status", from);
+  const { error } = await q;
+  if (error) throw error;
+}
+
+async function signAndBroadcast(
+  client: PublicClient,
+  account: LocalAccount,
+  tx: { chainId: number; nonce: number; to: Hex; data?: Hex; value: bigint; gas: bigint; gasPrice: bigint }
+): Promise<{ hash: Hex; broadcast: () => Promise<void> }> {
+  const serialized = await account.signTransaction({ type: "legacy", ...tx });
+  const hash = keccak256(serialized);
+  return {
+    hash,
+    broadcast: async () => {
+      await client.sendRawTransaction({ serializedTransaction: serialized });
+    },
+  };
+}
+
+// Sign + persist + broadcast one ops tx. Returns the first hash; waitForOpsTx() follows replacements.
+export async function sendOpsTx(
+  sb: SupabaseClient,
+  client: PublicClient,
+  role: OpsRole,
+  req: OpsTxRequest,
+  ctx: OpsTxContext
+): Promise<Hex> {
+  const account = await fundSigner(sb).getAccount({ role });
+  const address = account.address.toLowerCase();
+  const value = req.value ?? 0n;
+
+  const chainId = await client.getChainId();
+  const chainNonce = await client.getTransactionCount({ address: account.address, blockTag: "pending" });
+
+  const { data: claim, error } = await sb.rpc("claim_fund_ops_nonce", {
+    p_chain_id: chainId,
+    p_address: address,
+    p_chain_nonce: chainNonce,
+    p_role: role,
+    p_purpose: ctx.purpose,
+    p_position_id: ctx.position_id ?? null,
+    p_position_ref: ctx.position_ref ?? null,
+  });
+  if (error) throw error;
+  const row = (Array.isArray(claim) ? claim[0] : claim) as { id: string; nonce: number } | null;
+  if (!row) throw new Error("Nonce claim failed");
+
+  try {
+    const gas = await client.estimateGas({ account: account.address, to: req.to, data: req.data, value });
+    const gasPrice = await client.getGasPrice();
+    const signed = await signAndBroadcast(client, account, {
+      chainId,
+      nonce: Number(row.nonce),
+      to: req.to,
+      data: req.data,
+      value,
+      gas,
+      gasPrice,
+    });
+
+    // persisted before broadcast: a crash leaves a row the stuck-tx tick can follow up on
+    await patchOpsTx(
+      sb,
+      row.id,
+      {
+        status: "pending",
+        chain_id: chainId,
+        to_address: req.to.toLowerCase(),
+        data: req.data ?? null,
+        value_wei: value.toString(),
+        gas: gas.toString(),
+        gas_price_wei: gasPrice.toString(),
+        tx_hash: signed.hash,
+        last_sent_at: new Date().toISOString(),
+      },
+      ["signing"]
+    );
+
+    await signed.broadcast();
+    return signed.hash;
+  } catch (e: unknown) {
+    // only release the nonce if nothing reached the mempool
+    const { data: cur } = await sb.from("fund_ops_txs").select("tx_hash").eq("id", row.id).single();
+    const seen = cur?.tx_hash ? await client.getTransaction({ hash: cur.tx_hash as Hex }).catch(() => null) : null;
+    if (!seen) {
+      await patchOpsTx(sb, row.id, { status: "failed", error: e instanceof Error ? e.message : String(e) }, ["signing", "pending"]);
+    }
+    throw e;
+  }
+}
+
+// Latest live (not failed/cancelled) ops tx for a position step, so a retry follows it instead of re-sending.
+// "review" counts as live: the step waits for an operator rather than sending a second tx.
+export async function liveOpsTx(sb: SupabaseClient, positionId: string, purpose: string): Promise<Hex | null> {
+  const { data, error } = await sb
+    .from("fund_ops_txs")
+    .select("tx_hash")
+    .eq("position_id", positionId)
+    .eq("purpose", purpose)
+    .in("status", ["pending", "cancelling", "review", "mined"])
+    .not("tx_hash", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.tx_hash as Hex | undefined) ?? null;
+}
+
+// Latest still-open ops tx (pending, cancelling, review) for a position step. For steps that can repeat
+// on one position (gas top-ups), where a mined tx belongs to an earlier flow and must not be followed.
+export async function openOpsTx(
+  sb: SupabaseClient,
+  positionId: string,
+  purpose: string
+): Promise<{ hash: Hex; valueWei: bigint } | null> {
+  const { data, error } = await sb
+    .from("fund_ops_txs")
+    .select("tx_hash, value_wei")
+    .eq("position_id", positionId)
+    .eq("purpose", purpose)
+    .in("status", OPEN_STATUSES)
+    .not("tx_hash", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { hash: data.tx_hash as Hex, valueWei: BigInt(data.value_wei) } : null;
+}
+
+async function loadOpsTx(sb: SupabaseClient, hash: Hex): Promise<FundOpsTx> {
+  const { data: direct, error } = await sb.from("fund_ops_txs").select("*").eq("tx_hash", hash).limit(1).maybeSingle();
+  if (error) throw error;
+  if (direct) return direct as FundOpsTx;
+
+  // an older hash of a replaced tx
+  const { data: rep, error: rErr } = await sb
+    .from("fund_ops_tx_replacements")
+    .select("ops_tx_id")
+    .eq("old_tx_hash", hash)
+    .limit(1)
+    .maybeSingle();
+  if (rErr) throw rErr;
+  if (!rep) throw new Error(`Unknown ops tx ${hash}`);
+
+  const { data, error: oErr } = await sb.from("fund_ops_txs").select("*").eq("id", rep.ops_tx_id).single();
+  if (oErr || !data) throw oErr ?? new Error("Ops tx not found");
+  return data as FundOpsTx;
+}
+
+export async function findOpsTx(sb: SupabaseClient, hash: Hex): Promise<FundOpsTx | null> {
+  return loadOpsTx(sb, hash).catch(() => null);
+}
+
+async function knownHashes(sb: SupabaseClient, tx: FundOpsTx): Promise<{ hash: Hex; cancel: boolean }[]> {
+  const { data, error } = await sb
+    .from("fund_ops_tx_replacements")
+    .select("old_tx_hash, new_tx_hash, kind")
+    .eq("ops_tx_id", tx.id)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const out = new Map<string, boolean>();
+  for (const r of data ?? []) {
+    if (!out.has(r.old_tx_hash)) out.set(r.old_tx_hash, false);
+    out.set(r.new_tx_hash, r.kind === "cancel");
+  }
+  if (tx.tx_hash && !out.has(tx.tx_hash)) out.set(tx.tx_hash, tx.status === "cancelling");
+  return Array.from(out, ([hash, cancel]) => ({ hash: hash as Hex, cancel }));
+}
+
+// Re-sign the same nonce at a higher gas price (speed_up keeps the payload; cancel sends 0 to self)
+async function replaceOpsTx(
+  sb: SupabaseClient,
+  client: PublicClient,
+  tx: FundOpsTx,
+  kind: "speed_up" | "cancel",
+  actor: string
+): Promise<Hex> {
+  const account = await fundSigner(sb).getAccount({ role: tx.role });
+  if (account.address.toLowerCase() !== tx.address) throw new Error(`Signer for ${tx.role} no longer controls ${tx.address}`);
+
+  const oldPrice = BigInt(tx.gas_price_wei);
+  const network = await client.getGasPrice();
+  const bumped = (oldPrice * BUMP_NUM) / BUMP_DEN + 1n;
+  const gasPrice = network > bumped ? network : bumped;
+
+  const signed = await signAndBroadcast(client, account, {
+    chainId: tx.chain_id,
+    nonce: tx.nonce,
+    to: kind === "cancel" ? account.address : (tx.to_address as Hex),
+    data: kind === "cancel" ? undefined : ((tx.data ?? undefined) as Hex | undefined),
+    value: kind === "cancel" ? 0n : BigInt(tx.value_wei),
+    gas: kind === "cancel" ? TRANSFER_GAS : BigInt(tx.gas),
+    gasPrice,
+  });
+
+  const { error } = await sb.from("fund_ops_tx_replacements").insert({
+    ops_tx_id: tx.id,
+    position_id: tx.position_id,
+    position_ref: tx.position_ref,
+    kind,
+    old_tx_hash: tx.tx_hash,
+    new_tx_hash: signed.hash,
+    old_gas_price_wei: oldPrice.toString(),
+    new_gas_price_wei: gasPrice.toString(),
+    actor,
+  });
+  if (error) throw error;
+
+  await patchOpsTx(
+    sb,
+    tx.id,
+    {
+      tx_hash: signed.hash,
+      gas_price_wei: gasPrice.toString(),
+      bumps: tx.bumps + 1,
+      last_sent_at: new Date().toISOString(),
+      ...(kind === "cancel" ? { status: "cancelling" } : {}),
+    },
+    ["pending", "cancelling"]
+  );
+
+  await signed.broadcast();
+  return signed.hash;
+}
+
+type OpsOutcome =
+  | { state: "mined"; hash: Hex; receipt: TransactionReceipt }
+  | { state: "cancelled"; hash: Hex }
+  | { state: "pending" }
+  | { state: "review" };
+
+const OPEN_STATUSES: OpsTxStatus[] = ["pending", "cancelling", "review"];
+
+// First of our hashes with a receipt, settling the row from it
+async function settleFromReceipts(
+  sb: SupabaseClient,
+  client: PublicClient,
+  tx: FundOpsTx,
+  hashes: { hash: Hex; cancel: boolean }[]
+): Promise<OpsOutcome | null> {
+  for (const h of hashes) {
+    const receipt = await receiptOrNull(client, h.hash);
+    if (!receipt) continue;
+
+    const status: OpsTxStatus = h.cancel ? "cancelled" : receipt.status === "success" ? "mined" : "failed";
+    await patchOpsTx(sb, tx.id, { status, tx_hash: h.hash, mined_at: new Date().toISOString() }, OPEN_STATUSES);
+    return h.cancel ? { state: "cancelled", hash: h.hash } : { state: "mined", hash: h.hash, receipt };
+  }
+  return null;
+}
+
+// One look at an open ops tx: settle it if any of its hashes mined, otherwise bump it when stuck.
+async function checkOpsTx(sb: SupabaseClient, client: PublicClient, tx: FundOpsTx, actor: string): Promise<OpsOutcome> {
+  const hashes = await knownHashes(sb, tx);
+  const settled = await settleFromReceipts(sb, client, tx, hashes);
+  if (settled) return settled;
+
+  const latest = await client.getTransactionCount({ address: tx.address as Hex, blockTag: "latest" });
+  if (latest > tx.nonce) {
+    // the tx may have mined between the receipt reads and the nonce read: look again
+    const late = await settleFromReceipts(sb, client, tx, hashes);
+    if (late) return late;
+
+    // nonce consumed and no receipt for any of our hashes: an operator decides, nothing re-sends
+    if (tx.status !== "review") {
+      await patchOpsTx(sb, tx.id, { status: "review", error: "nonce consumed but no receipt found for any known hash" }, ["pending", "cancelling"]);
+    }
+    return { state: "review" };
+  }
+  if (tx.status === "review") return { state: "review" };
+
+  const age = Date.now() - Date.parse(tx.last_sent_at ?? tx.created_at);
+  if (age > stuckMs() && tx.bumps < maxBumps()) {
+    await replaceOpsTx(sb, client, tx, tx.status === "cancelling" ? "cancel" : "speed_up", actor);
+  }
+  return { state: "pending" };
+}
+
+// Wait for an ops tx (following speed-ups) and return the hash that actually mined, after finality.
+export async function waitForOpsTx(sb: SupabaseClient, client: PublicClient, hash: Hex): Promise<Hex> {
+  const deadline = Date.now() + stuckMs() * (maxBumps() + 2);
+
+  while (Date.now() < deadline) {
+    const tx = await loadOpsTx(sb, hash);
+    const out = await checkOpsTx(sb, client, tx, "wait");
+
+    if (out.state === "cancelled") throw new Error(`Ops tx ${hash} was cancelled (${out.hash})`);
+    if (out.state === "review") throw new Error(`Ops tx ${hash}: nonce consumed without a receipt, needs operator review`);
+    if (out.state === "mined") {
+      await waitForFinalReceipt(client, out.hash, opsChainKey(tx.chain_id));
+      return out.hash;
+    }
+    await sleep(POLL_MS);
+  }
+
+  throw new Error(`Ops tx ${hash} still pending; left to the stuck-tx worker`);
+}
+
+// For a hash recorded by an earlier attempt: the hash that finally mined, or null if the tx
+// failed / was cancelled (caller sends again). Still pending -> throws (retry later).
+// Hashes sent before the nonce manager existed are checked directly.
+export async function settledOpsTx(sb: SupabaseClient, client: PublicClient, hash: Hex): Promise<Hex | null> {
+  const known = await findOpsTx(sb, hash);
+  if (!known) {
+    const r = await receiptOrNull(client, hash);
+    if (r && r.status === "reverted") return null;
+    await waitForFinalReceipt(client, hash, opsChainKey(await client.getChainId()));
+    return hash;
+  }
+
+  try {
+    return await waitForOpsTx(sb, client, hash);
+  } catch (e: unknown) {
+    const { data } = await sb.from("fund_ops_txs").select("status").eq("id", known.id).single();
+    if (data?.status === "failed" || data?.status === "cancelled") return null;
+    throw e;
+  }
+}
+
+// Worker tick: follow up on ops txs nobody is waiting for any more (crashed routes, timeouts)
+export async function processStuckOpsTxs(
+  sb: SupabaseClient,
+  opts: { limit?: number } = {}
+): Promise<{ id: string; nonce: number; address: string; state: string }[]> {
+  const clients = new Map<number, PublicClient>();
+  const staleIso = new Date(Date.now() - stuckMs()).toISOString();
+
+  const { data, error } = await sb
+    .from("fund_ops_txs")
+    .select("*")
+    .in("status", OPEN_STATUSES)
+    .lt("last_sent_at", staleIso)
+    .order("nonce", { ascending: true })
+    .limit(opts.limit ?? 20);
+  if (error) throw error;
+
+  // a send that died between nonce claim and signing holds its nonce: free it
+  const { error: sErr } = await sb
+    .from("fund_ops_txs")
+    .update({ status: "failed", error: "abandoned before broadcast", updated_at: new Date().toISOString() })
+    .eq("status", "signing")
+    .is("tx_hash", null)
+    .lt("created_at", staleIso);
+  if (sErr) throw sErr;
+
+  const out: { id: string; nonce: number; address: string; state: string }[] = [];
+  for (const tx of (data ?? []) as FundOpsTx[]) {
+    try {
+      if (!clients.has(tx.chain_id)) clients.set(tx.chain_id, chainClient(opsChainKey(tx.chain_id)));
+      const r = await checkOpsTx(sb, clients.get(tx.chain_id)!, tx, "worker");
+      out.push({ id: tx.id, nonce: tx.nonce, address: tx.address, state: r.state });
+    } catch (e: unknown) {
+      out.push({ id: tx.id, nonce: tx.nonce, address: tx.address, state: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return out;
+}
+
+// Operator action: replace a pending ops tx with a 0-value self transfer
+export async function cancelOpsTx(sb: SupabaseClient, id: string, operator: string): Promise<Hex> {
+  const { data, error } = await sb.from("fund_ops_txs").select("*").eq("id", id).single();
+  if (error || !data) throw new Error("Ops tx not found");
+
+  const tx = data as FundOpsTx;
+  if (tx.status !== "pending" && tx.status !== "cancelling") throw new Error(`Ops tx not pending (status=${tx.status})`);
+  return replaceOpsTx(sb, chainClient(opsChainKey(tx.chain_id)), tx, "cancel", operator);
+}
+
+// Operator action on a tx parked in "review": "failed" lets the step send again, "mined" records
+// the hash that actually used the nonce (checked on-chain).
+export async function resolveOpsTxReview(
+  sb: SupabaseClient,
+  id: string,
+  operator: string,
+  resolution: { outcome: "failed"; note: string } | { outcome: "mined"; tx_hash: Hex; note: string }
+): Promise<FundOpsTx> {
+  const { data, error } = await sb.from("fund_ops_txs").select("*").eq("id", id).single();
+  if (error || !data) throw new Error("Ops tx not found");
+  const tx = data as FundOpsTx;
+  if (tx.status !== "review") throw new Error(`Ops tx not in review (status=${tx.status})`);
+
+  const note = `resolved by ${operator}: ${resolution.note}`;
+  if (resolution.outcome === "failed") {
+    await patchOpsTx(sb, id, { status: "failed", error: note }, ["review"]);
+  } else {
+    const client = chainClient(opsChainKey(tx.chain_id));
+    const [onChain, receipt] = await Promise.all([
+      client.getTransaction({ hash: resolution.tx_hash }),
+      client.getTransactionReceipt({ hash: resolution.tx_hash }),
+    ]);
+    if (onChain.from.toLowerCase() !== tx.address || onChain.nonce !== tx.nonce) {
+      throw new Error(`Tx ${resolution.tx_hash} is not nonce ${tx.nonce} of ${tx.address}`);
+    }
+    if (receipt.status !== "success") throw new Error(`Tx ${resolution.tx_hash} reverted`);
+    await patchOpsTx(sb, id, { status: "mined", tx_hash: resolution.tx_hash, mined_at: new Date().toISOString(), error: note }, ["review"]);
+  }
+
+  const { data: row, error: rErr } = await sb.from("fund_ops_txs").select("*").eq("id", id).single();
+  if (rErr || !row) throw rErr ?? new Error("Ops tx not found");
+  return row as FundOpsTx;
+}
+
+export async function listOpsTxs(
+  sb: SupabaseClient,
+  filter: { ref?: string; status?: OpsTxStatus }
+): Promise<(FundOpsTx & { replacements: unknown[] })[]> {
+  let q = sb.from("fund_ops_txs").select("*, replacements:fund_ops_tx_replacements(*)").order("created_at", { ascending: false }).limit(200);
+  if (filter.ref) q = q.eq("position_ref", filter.ref);
+  if (filter.status) q = q.eq("status", filter.status);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as (FundOpsTx & { replacements: unknown[] })[];
+}
@@ -0,0 +1,166 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { verifyMessage, type Hex } from "viem";
+import { chainClient } from "./chains";
+
+// Proof that the caller owns a position before it is bound to a terminal user (or shown by ref).
+//   claim_secret - one-time secret returned by issue-address; only its sha256 is stored
+//   wallet       - personal_sign of bindMessage() by the wallet that sent deposit_tx_hash (tx.from)
+// A position bound to one user is never rebound to another; refused attempts land in fund_bind_attempts.
+
+export type OwnershipProof =
+  | { kind: "claim_secret"; claim_secret: string }
+  | { kind: "wallet"; signature: Hex; issued_at: string };
+
+export type BindOutcome = {
+  position_ref: string;
+  outcome: "bound" | "already_bound" | "refused";
+  reason?: string;
+};
+
+type OwnedPosition = {
+  id: string;
+  position_ref: string;
+  chain: string | null;
+  terminal_user_id: string | null;
+  claim_secret_hash: string | null;
+  deposit_tx_hash: string | null;
+};
+
+const SIGNATURE_MAX_AGE_MS = 10 * 60_000;
+const SIGNATURE_MAX_SKEW_MS = 60_000;
+
+export function hashClaimSecret(secret: string): string {
+  return createHash("sha256").update(secret.trim()).digest("hex");
+}
+
+export function newClaimSecret(): { secret: string; hash: string } {
+  const secret = randomBytes(32).toString("base64url");
+  return { secret, hash: hashClaimSecret(secret) };
+}
+
+export function claimSecretMatches(secret: string | null | undefined, hash: string | null | undefined): boolean {
+  if (!secret || !hash) return false;
+  const a = Buffer.from(hashClaimSecret(secret), "hex");
+  const b = Buffer.from(hash, "hex");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// What the depositing wallet signs; issued_at must be recent, and the user id is in the text,
+// so a leaked signature can only ever bind to the same user.
+export function bindMessage(ref: string, terminalUserId: string, issuedAt: string): string {
+  return [
+    "USDDD Fund ownership proof",
+    `Bind position ${ref} to terminal user ${terminalUserId}`,
+    `Issued at: ${issuedAt}`,
+  ].join("\n");
+}
+
+async function loadPosition(sb: SupabaseClient, ref: string): Promise<OwnedPosition | null> {
+  const { data, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, chain, terminal_user_id, claim_secret_hash, deposit_tx_hash")
+    .eq("position_ref", ref)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as OwnedPosition | null) ?? null;
+}
+
+// Returns the signer address on success, a reason on failure
+async function checkProof(
+  pos: OwnedPosition,
+  terminalUserId: string,
+  proof: OwnershipProof
+): Promise<{ ok: true; signer: string | null } | { ok: false; reason: string }> {
+  if (proof.kind === "claim_secret") {
+    if (!pos.claim_secret_hash) return { ok: false, reason: "position has no claim secret; use a wallet signature" };
+    return claimSecretMatches(proof.claim_secret, pos.claim_secret_hash)
+      ? { ok: true, signer: null }
+      : { ok: false, reason: "claim secret does not match" };
+  }
+
+  const issued = Date.parse(proof.issued_at);
+  if (!Number.isFinite(issued)) return { ok: false, reason: "bad issued_at" };
+  if (issued > Date.now() + SIGNATURE_MAX_SKEW_MS || Date.now() - issued > SIGNATURE_MAX_AGE_MS) {
+    return { ok: false, reason: "signature expired, sign a fresh message" };
+  }
+  if (!pos.deposit_tx_hash) return { ok: false, reason: "no deposit yet; use the claim secret" };
+
+  const tx = await chainClient(pos.chain).getTransaction({ hash: pos.deposit_tx_hash as Hex });
+  const valid = await verifyMessage({
+    address: tx.from,
+    message: bindMessage(pos.position_ref, terminalUserId, proof.issued_at),
+    signature: proof.signature,
+  }).catch(() => false);
+
+  return valid ? { ok: true, signer: tx.from.toLowerCase() } : { ok: false, reason: "signature is not from the depositing wallet" };
+}
+
+async function recordAttempt(
+  sb: SupabaseClient,
+  pos: OwnedPosition | null,
+  ref: string,
+  row: {
+    terminal_user_id: string;
+    proof: OwnershipProof["kind"] | "none";
+    signer_address?: string | null;
+    outcome: BindOutcome["outcome"];
+    reason?: string | null;
+    source: string;
+  }
+): Promise<void> {
+  const { error } = await sb.from("fund_bind_attempts").insert({
+    position_id: pos?.id ?? null,
+    position_ref: ref,
+    bound_user_id: pos?.terminal_user_id ?? null,
+    ...row,
+  });
+  if (error) throw error;
+}
+
+export async function bindPosition(
+  sb: SupabaseClient,
+  args: { ref: string; terminalUserId: string; proof: OwnershipProof | null; source: string }
+): Promise<BindOutcome> {
+  const { ref, terminalUserId, proof, source } = args;
+  const pos = await loadPosition(sb, ref);
+  const kind = proof?.kind ?? "none";
+
+  const refuse = async (reason: string, signer?: string | null): Promise<BindOutcome> => {
+    await recordAttempt(sb, pos, ref, { terminal_user_id: terminalUserId, proof: kind, signer_address: signer, outcome: "refused", reason, source });
+    return { position_ref: ref, outcome: "refused", reason };
+  };
+
+  if (!pos) return refuse("position not found");
+  if (pos.terminal_user_id === terminalUserId) return { position_ref: ref, outcome: "already_bound" };
+  if (pos.terminal_user_id) return refuse("position is bound to another terminal user");
+  if (!proof) return refuse("ownership proof required");
+
+  const check = await checkProof(pos, terminalUserId, proof);
+  if (!check.ok) return refuse(check.reason);
+
+  // guarded: a concurrent bind to someone else wins, this one is refused
+  const { data, error } = await sb
+    .from("fund_positions")
+    .update({ terminal_user_id: terminalUserId, bound_at: new Date().toISOString() })
+    .eq("id", pos.id)
+    .is("terminal_user_id", null)
+    .select("id");
+
+  if (error) throw error;
+  if (!data || data.length === 0) return refuse("position was bound concurrently", check.signer);
+
+  await recordAttempt(sb, pos, ref, { terminal_user_id: terminalUserId, proof: kind, signer_address: check.signer, outcome: "bound", source });
+  return { position_ref: ref, outcome: "bound" };
+}
+
+// Public lookup by ref: positions with a claim secret need it; older positions (issued before
+// claim secrets) are only visible by ref while unbound, after that through the owner's session.
+export function refLookupAllowed(
+  pos: { claim_secret_hash?: string | null; terminal_user_id?: string | null },
+  claimSecret: string | null | undefined
+): boolean {
+  if (pos.claim_secret_hash) return claimSecretMatches(claimSecret, pos.claim_secret_hash);
+  return !pos.terminal_user_id;
+}
@@ -0,0 +1,14 @@
+const PAGE = 1000; // PostgREST max rows per request
+
+// Every row of a query, paged with .range() (reports and Merkle trees must not see a truncated set)
+export async function pageAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const out: T[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await fetchPage(from, from + PAGE - 1);
+    if (error) throw error;
+    out.push(...(data ?? []));
+    if (!data || data.length < PAGE) return out;
+  }
+}
@@ -0,0 +1,326 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+import { createWalletClient, encodeFunctionData, formatUnits, http, parseAbi, parseUnits, type Hex, type PublicClient } from "viem";
+import { chainClient, fundChain, USDDD_CHAIN } from "./chains";
+import { receiptOrNull, waitForFinalReceipt } from "./confirmations";
+import { loadDepositAccount, topUpGasIfNeeded } from "./deposit-wallet";
+import { env } from "./env";
+import { recordGasTx } from "./gas-ledger";
+import { findOpsTx, sendOpsTx, waitForOpsTx } from "./ops-tx";
+import { fundSigner } from "./signer";
+import type { FundActor } from "./transition";
+
+// USDDD supply reconciliation (replaces the one-off burn-excess tool).
+// For every allocated position, on-chain balanceOf(deposit EOA) is compared with
+// usddd_allocated + usddd_accrued (ledger). Drifts are reported in both directions and, in
+// execute mode, corrected: excess is burned from the deposit EOA, shortfalls are topped up
+// from the treasury. Every drift (dry-run or not) is written to fund_reconciliations.
+// A run covers `limit` positions; execute runs rotate through all of them via reconciled_at.
+
+export type ReconcileMode = "dry_run" | "execute";
+export type DriftDirection = "excess" | "shortfall";
+export type ReconcileStatus = "reported" | "submitted" | "executed" | "failed" | "skipped";
+
+export type ReconcileDrift = {
+  position_ref: string;
+  deposit_address: string;
+  balance_usddd: number;
+  expected_usddd: number;
+  drift_usddd: number; // balance - expected (negative = shortfall)
+  direction: DriftDirection;
+  action: "none" | "burn" | "top_up";
+  status: ReconcileStatus;
+  tx_hash: string | null;
+  error: string | null;
+};
+
+export type ReconcileRun = {
+  run_id: string;
+  mode: ReconcileMode;
+  scanned: number;
+  in_sync: number;
+  drifts: ReconcileDrift[];
+};
+
+type ReconcilePosition = {
+  id: string;
+  position_ref: string;
+  issued_deposit_address: string;
+  usddd_allocated: number | string | null;
+  usddd_accrued: number | string | null;
+};
+
+const USDDD_ABI = parseAbi([
+  "function balanceOf(address) view returns (uint256)",
+  "function burn(uint256 amount)",
+  "function transfer(address to, uint256 value) returns (bool)",
+]);
+
+// USDDD is 6 decimals on-chain (same lock as mint)
+const USDDD_DECIMALS = 6;
+
+function toRaw(v: number | string | null): bigint {
+  const n = Number(v ?? 0);
+  if (!Number.isFinite(n) || n <= 0) return 0n;
+  return parseUnits(n.toFixed(USDDD_DECIMALS), USDDD_DECIMALS);
+}
+
+function usddd(raw: bigint): number {
+  return Number(formatUnits(raw, USDDD_DECIMALS));
+}
+
+// A tx from an earlier run that never got its outcome recorded: settle its audit row first.
+async function resolveSubmitted(sb: SupabaseClient, client: PublicClient, positionId: string): Promise<boolean> {
+  const { data, error } = await sb
+    .from("fund_reconciliations")
+    .select("id, tx_hash")
+    .eq("position_id", positionId)
+    .eq("status", "submitted");
+  if (error) throw error;
+
+  let open = false;
+  for (const r of data ?? []) {
+    // treasury top-ups may have been sped up: check the ops tx's current hash
+    const ops = r.tx_hash ? await findOpsTx(sb, r.tx_hash as Hex) : null;
+    const hash = (ops?.tx_hash ?? r.tx_hash) as Hex | null;
+    const receipt = hash ? await receiptOrNull(client, hash) : null;
+    const dead = ops?.status === "failed" || ops?.status === "cancelled";
+    if (!receipt && r.tx_hash && !dead) {
+      open = true; // still pending (or dropped): leave it to the operator
+      continue;
+    }
+    await sb
+      .from("fund_reconciliations")
+      .update({
+        status: receipt?.status === "success" ? "executed" : "failed",
+        tx_hash: hash,
+        error: receipt?.status === "success" ? null : "tx reverted or never sent",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", r.id)
+      .eq("status", "submitted");
+  }
+  return open;
+}
+
+export async function reconcileSupply(
+  sb: SupabaseClient,
+  opts: {
+    mode: ReconcileMode;
+    actor: FundActor;
+    ref?: string;
+    direction?: DriftDirection; // only correct one side (reporting still covers both)
+    limit?: number;
+  }
+): Promise<ReconcileRun> {
+  const rpc = fundChain(USDDD_CHAIN).rpc_url;
+  const token = env("BSC_USDDD_ADDRESS", env("NEXT_PUBLIC_USDDD_TOKEN_BEP20")).toLowerCase() as Hex;
+  const toleranceRaw = parseUnits(env("FUND_RECONCILE_TOLERANCE_USDDD", "0"), USDDD_DECIMALS);
+  const client = chainClient(USDDD_CHAIN);
+  const signer = fundSigner(sb);
+  const runId = randomUUID();
+
+  // allocation finished and not owned by withdrawal settlement
+  let q = sb
+    .from("fund_positions")
+    .select("id, position_ref, issued_deposit_address, usddd_allocated, usddd_accrued")
+    .eq("status", "swept_locked")
+    .not("usddd_transfer_tx_hash", "is", null)
+    .order("reconciled_at", { ascending: true, nullsFirst: true })
+    .limit(opts.limit ?? 200);
+  if (opts.ref) q = q.eq("position_ref", opts.ref);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  if (opts.ref && (!data || data.length === 0)) throw new Error("Position not reconcilable (not found or not allocated)");
+
+  const run: ReconcileRun = { run_id: runId, mode: opts.mode, scanned: 0, in_sync: 0, drifts: [] };
+
+  for (const pos of (data ?? []) as ReconcilePosition[]) {
+    run.scanned++;
+    const depositAddr = String(pos.issued_deposit_address).toLowerCase() as Hex;
+
+    // stamped up front so a position that keeps failing does not hold back the rest
+    if (opts.mode === "execute") {
+      await sb.from("fund_positions").update({ reconciled_at: new Date().toISOString() }).eq("id", pos.id);
+    }
+
+    const balance = await client.readContract({ address: token, abi: USDDD_ABI, functionName: "balanceOf", args: [depositAddr] });
+    const expected = toRaw(pos.usddd_allocated) + toRaw(pos.usddd_accrued);
+    const drift = balance - expected;
+    const abs = drift < 0n ? -drift : drift;
+
+    if (abs <= toleranceRaw) {
+      run.in_sync++;
+      continue;
+    }
+
+    const direction: DriftDirection = drift > 0n ? "excess" : "shortfall";
+    const item: ReconcileDrift = {
+      position_ref: pos.position_ref,
+      deposit_address: depositAddr,
+      balance_usddd: usddd(balance),
+      expected_usddd: usddd(expected),
+      drift_usddd: usddd(abs) * (drift < 0n ? -1 : 1),
+      direction,
+      action: "none",
+      status: "reported",
+      tx_hash: null,
+      error: null,
+    };
+
+    const act = opts.mode === "execute" && (!opts.direction || opts.direction === direction);
+    if (act) item.action = direction === "excess" ? "burn" : "top_up";
+
+    const { data: audit, error: aErr } = await sb
+      .from("fund_reconciliations")
+      .insert({
+        run_id: runId,
+        mode: opts.mode,
+        position_id: pos.id,
+        position_ref: pos.position_ref,
+        deposit_address: depositAddr,
+        balance_raw: balance.toString(),
+        expected_raw: expected.toString(),
+        drift_raw: drift.toString(),
+        drift_usddd: item.drift_usddd,
+        direction,
+        action: item.action,
+        status: "reported",
+        actor_kind: opts.actor.kind,
+        actor_source: opts.actor.source,
+        actor_id: opts.actor.id ?? null,
+      })
+      .select("id")
+      .single();
+    if (aErr || !audit) throw aErr ?? new Error("Audit insert failed");
+
+    const finish = async (patch: Partial<ReconcileDrift> & { gas_topup_tx_hash?: string }) => {
+      const { gas_topup_tx_hash, ...rest } = patch;
+      Object.assign(item, rest);
+      await sb
+        .from("fund_reconciliations")
+        .update({
+          status: rest.status,
+          tx_hash: item.tx_hash,
+          error: rest.error ?? null,
+          ...(gas_topup_tx_hash ? { gas_topup_tx_hash } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", audit.id);
+    };
+
+    if (!act) {
+      run.drifts.push(item);
+      continue;
+    }
+
+    try {
+      if (await resolveSubmitted(sb, client, pos.id)) {
+        await finish({ status: "skipped", error: "earlier reconciliation tx still pending" });
+        run.drifts.push(item);
+        continue;
+      }
+
+      // an earlier run's tx may have settled just now: correct the drift as it stands after it
+      const current = await client.readContract({ address: token, abi: USDDD_ABI, functionName: "balanceOf", args: [depositAddr] });
+      const fix = direction === "excess" ? current - expected : expected - current;
+      if (fix <= toleranceRaw) {
+        await finish({ status: "skipped", error: `balance is now ${usddd(current)}; nothing left to correct` });
+        run.drifts.push(item);
+        continue;
+      }
+
+      let hash: Hex;
+      let gasTopUp: string | undefined;
+
+      if (direction === "excess") {
+        const depositAccount = await loadDepositAccount(signer, pos);
+        const gas = await client.estimateContractGas({
+          address: token,
+          abi: USDDD_ABI,
+          functionName: "burn",
+          args: [fix],
+          account: depositAccount.address,
+        });
+        const topUp = await topUpGasIfNeeded(sb, client, {
+          chain: USDDD_CHAIN,
+          to: depositAccount.address,
+          gasUnits: gas,
+          allowTopUp: true,
+          purpose: "reconcile",
+          position_id: pos.id,
+          position_ref: pos.position_ref,
+        });
+        gasTopUp = topUp?.hash;
+        if (topUp) {
+          await recordGasTx(sb, client, {
+            chain: USDDD_CHAIN,
+            position_id: pos.id,
+            position_ref: pos.position_ref,
+            kind: "topup",
+            purpose: "reconcile",
+            hash: topUp.hash,
+            valueWei: topUp.wei,
+          }).catch(() => null);
+        }
+
+        const wallet = createWalletClient({ account: depositAccount, transport: http(rpc) });
+        hash = await wallet.writeContract({ chain: null, address: token, abi: USDDD_ABI, functionName: "burn", args: [fix] });
+      } else {
+        const treasury = await signer.getAccount({ role: "treasury" });
+        const tBal = await client.readContract({ address: token, abi: USDDD_ABI, functionName: "balanceOf", args: [treasury.address] });
+        if (tBal < fix) throw new Error(`Treasury USDDD balance insufficient (${usddd(tBal)} < ${usddd(fix)})`);
+
+        hash = await sendOpsTx(
+          sb,
+          client,
+          "treasury",
+          { to: token, data: encodeFunctionData({ abi: USDDD_ABI, functionName: "transfer", args: [depositAddr, fix] }) },
+          { purpose: "reconcile_top_up", position_id: pos.id, position_ref: pos.position_ref }
+        );
+      }
+
+      // record before waiting so a crash leaves a resolvable "submitted" row
+      await finish({ status: "submitted", tx_hash: hash, gas_topup_tx_hash: gasTopUp });
+      let mined = hash;
+      if (direction === "excess") await waitForFinalReceipt(client, hash, USDDD_CHAIN);
+      else mined = await waitForOpsTx(sb, client, hash); // follows speed-ups
+      if (direction === "excess") {
+        await recordGasTx(sb, client, {
+          chain: USDDD_CHAIN,
+          position_id: pos.id,
+          position_ref: pos.position_ref,
+          kind: "fee",
+          purpose: "reconcile",
+          hash,
+        }).catch(() => null);
+      }
+      await finish({ status: "executed", tx_hash: mined });
+    } catch (e: unknown) {
+      // a sent tx stays "submitted" (resolved by the next run); nothing sent -> failed
+      await finish({ status: item.tx_hash ? "submitted" : "failed", error: e instanceof Error ? e.message : String(e) });
+    }
+
+    run.drifts.push(item);
+  }
+
+  return run;
+}
+
+export async function listReconciliations(
+  sb: SupabaseClient,
+  filter: { ref?: string; runId?: string; limit?: number }
+): Promise<Record<string, unknown>[]> {
+  let q = sb
+    .from("fund_reconciliations")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(filter.limit ?? 200);
+  if (filter.ref) q = q.eq("position_ref", filter.ref);
+  if (filter.runId) q = q.eq("run_id", filter.runId);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,357 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createWalletClient, http, Hex, formatUnits, parseUnits } from "viem";
+import { chainClient, positionAsset } from "./chains";
+import { waitForFinalReceipt } from "./confirmations";
+import { recordTransfers, transfersTo } from "./deposits";
+import { claimSecretMatches } from "./ownership";
+import { ERC20_ABI, loadDepositAccount, topUpGasIfNeeded } from "./deposit-wallet";
+import { recordGasTx } from "./gas-ledger";
+import { fundSigner } from "./signer";
+import { transitionPosition, type FundActor } from "./transition";
+
+// Refunds of out-of-bounds deposits (fund_excess rows) back to the sender.
+// requested -> approved (operator) -> sending -> sent; requested -> rejected.
+// A send that fails before broadcasting returns to approved with last_error so it can be retried.
+
+export type RefundStatus = "requested" | "approved" | "sending" | "sent" | "rejected";
+
+export type FundRefund = {
+  id: string;
+  position_id: string;
+  position_ref: string;
+  deposit_tx_hash: string;
+  to_address: string;
+  amount_usdt: number | string;
+  status: RefundStatus;
+  requested_by: string | null;
+  approved_by: string | null;
+  rejected_reason: string | null;
+  gas_topup_tx_hash: string | null;
+  refund_tx_hash: string | null;
+  last_error: string | null;
+  created_at: string;
+};
+
+// Who may ask for a refund: an operator, or the position's owner (bound Scan session or claim secret)
+export type RefundRequester =
+  | { kind: "operator"; id: string }
+  | { kind: "owner"; terminalUserId: string | null; claimSecret: string | null };
+
+// Create a refund for everything refundable in `txHash`: open fund_excess rows, or (while the
+// position is still awaiting_funds) the partial deposits from that tx, which the user gives up on.
+export async function requestRefund(
+  sb: SupabaseClient,
+  opts: { ref: string; txHash: Hex; requester: RefundRequester }
+): Promise<FundRefund> {
+  const { data: pos, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, issued_deposit_address, chain, token, status, terminal_user_id, claim_secret_hash")
+    .eq("position_ref", opts.ref)
+    .limit(1)
+    .single();
+
+  if (error || !pos) throw new Error("Position not found");
+
+  const who = opts.requester;
+  if (who.kind === "owner") {
+    const bound = !!who.terminalUserId && pos.terminal_user_id === who.terminalUserId;
+    if (!bound && !claimSecretMatches(who.claimSecret, pos.claim_secret_hash)) {
+      throw new Error("Not the owner of this position");
+    }
+  }
+  const requestedBy = who.kind === "operator" ? `operator:${who.id}` : who.terminalUserId;
+
+  const asset = positionAsset(pos);
+  const usdt = asset.token.address;
+  const decimals = asset.token.decimals;
+
+  // Refund destination comes from the on-chain receipt, never from the request
+  const receipt = await chainClient(asset.chain).getTransactionReceipt({ hash: opts.txHash });
+  if (!receipt) throw new Error("Receipt not found");
+  if (receipt.status !== "success") throw new Error("Tx not successful");
+
+  const transfers = transfersTo(receipt.logs, usdt, String(pos.issued_deposit_address));
+  if (transfers.length === 0) throw new Error(`No matching ${asset.token.symbol} Transfer(to=deposit) log found on ${asset.chain.name}`);
+
+  const senders = new Set(transfers.map((t) => t.from_address));
+  if (senders.size !== 1) throw new Error("Tx has transfers from several senders; refund needs manual handling");
+  const toAddress = transfers[0].from_address;
+
+  await recordTransfers(sb, pos, transfers, decimals);
+
+  // partial deposits on a still-unfunded position become under_min excess
+  if (String(pos.status) === "awaiting_funds") {
+    const { data: partial, error: pErr } = await sb
+      .from("fund_deposits")
+      .select("id, tx_hash, from_address, amount_usdt")
+      .eq("position_id", pos.id)
+      .eq("tx_hash", opts.txHash)
+      .eq("status", "pending");
+    if (pErr) throw pErr;
+
+    for (const d of partial ?? []) {
+      const { error: xErr } = await sb.from("fund_excess").upsert(
+        {
+          position_id: pos.id,
+          position_ref: pos.position_ref,
+          deposit_id: d.id,
+          tx_hash: d.tx_hash,
+          from_address: d.from_address,
+          amount_usdt: d.amount_usdt,
+          reason: "under_min",
+          status: "open",
+        },
+        { onConflict: "deposit_id", ignoreDuplicates: true }
+      );
+      if (xErr) throw xErr;
+
+      await sb.from("fund_deposits").update({ status: "excess" }).eq("id", d.id).eq("status", "pending");
+    }
+  }
+
+  const { data: excess, error: eErr } = await sb
+    .from("fund_excess")
+    .select("id")
+    .eq("position_id", pos.id)
+    .eq("tx_hash", opts.txHash)
+    .eq("status", "open");
+  if (eErr) throw eErr;
+  if (!excess || excess.length === 0) throw new Error("Nothing refundable for this tx");
+
+  // Claim the rows before creating the refund: of two concurrent requests only one gets them
+  const ids = excess.map((x) => x.id);
+  const { data: claimed, error: cErr } = await sb
+    .from("fund_excess")
+    .update({ status: "refund_requested" })
+    .in("id", ids)
+    .eq("status", "open")
+    .select("id, amount_usdt");
+  if (cErr) throw cErr;
+
+  const release = async () => {
+    const { error: uErr } = await sb
+      .from("fund_excess")
+      .update({ status: "open", refund_id: null })
+      .in("id", (claimed ?? []).map((x) => x.id))
+      .eq("status", "refund_requested")
+      .is("refund_id", null);
+    if (uErr) throw uErr;
+  };
+
+  if (!claimed || claimed.length !== ids.length) {
+    if (claimed?.length) await release();
+    throw new Error("Refund already requested for this tx");
+  }
+
+  const totalRaw = claimed.reduce((n, x) => n + parseUnits(String(x.amount_usdt), decimals), 0n);
+
+  const { data: refund, error: rErr } = await sb
+    .from("fund_refunds")
+    .insert({
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+      deposit_tx_hash: opts.txHash,
+      to_address: toAddress,
+      tx_from_address: String(receipt.from).toLowerCase(),
+      amount_usdt: Number(formatUnits(totalRaw, decimals)),
+      status: "requested",
+      requested_by: requestedBy,
+    })
+    .select("*")
+    .single();
+  if (rErr || !refund) {
+    await release();
+    throw rErr ?? new Error("Refund insert failed");
+  }
+
+  const { error: lErr } = await sb
+    .from("fund_excess")
+    .update({ refund_id: refund.id })
+    .in("id", ids)
+    .eq("status", "refund_requested")
+    .is("refund_id", null);
+  if (lErr) throw lErr;
+
+  return refund as FundRefund;
+}
+
+async function moveRefund(
+  sb: SupabaseClient,
+  id: string,
+  from: RefundStatus,
+  to: RefundStatus,
+  patch: Record<string, unknown> = {}
+): Promise<FundRefund | null> {
+  const { data, error } = await sb
+    .from("fund_refunds")
+    .update({ ...patch, status: to, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", from)
+    .select("*");
+  if (error) throw error;
+  return data && data.length ? (data[0] as FundRefund) : null;
+}
+
+export async function rejectRefund(sb: SupabaseClient, id: string, operator: string, reason: string): Promise<FundRefund> {
+  const refund = await moveRefund(sb, id, "requested", "rejected", { approved_by: operator, rejected_reason: reason });
+  if (!refund) throw new Error("Refund not in requested state");
+
+  // excess goes back to the open pool
+  await sb.from("fund_excess").update({ status: "open", refund_id: null }).eq("refund_id", id);
+  return refund;
+}
+
+export async function approveRefund(sb: SupabaseClient, id: string, operator: string): Promise<FundRefund> {
+  const refund = await moveRefund(sb, id, "requested", "approved", {
+    approved_by: operator,
+    approved_at: new Date().toISOString(),
+  });
+  if (!refund) throw new Error("Refund not in requested state");
+  return refund;
+}
+
+// Send an approved refund from the deposit EOA (same key + gas top-up path as sweep)
+export async function executeRefund(sb: SupabaseClient, id: string, actor: FundActor): Promise<FundRefund> {
+  const refund = await moveRefund(sb, id, "approved", "sending");
+  if (!refund) throw new Error("Refund not in approved state");
+
+  let sentHash: Hex | null = null;
+  try {
+    const { data: pos, error } = await sb
+      .from("fund_positions")
+      .select("id, position_ref, issued_deposit_address, chain, token, status")
+      .eq("id", refund.position_id)
+      .limit(1)
+      .single();
+    if (error || !pos) throw new Error("Position not found");
+
+    const asset = positionAsset(pos);
+    const usdt = asset.token.address;
+    const decimals = asset.token.decimals;
+    const client = chainClient(asset.chain);
+
+    const signer = fundSigner(sb);
+    const depositAccount = await loadDepositAccount(signer, pos);
+    const depositWallet = createWalletClient({ account: depositAccount, transport: http(asset.chain.rpc_url) });
+
+    const to = refund.to_address.toLowerCase() as Hex;
+    const amount = parseUnits(String(refund.amount_usdt), decimals);
+
+    const gas = await client.estimateContractGas({
+      address: usdt,
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [to, amount],
+      account: depositAccount.address,
+    });
+
+    const topUp = await topUpGasIfNeeded(sb, client, {
+      chain: asset.chain.id,
+      to: depositAccount.address,
+      gasUnits: gas,
+      allowTopUp: !refund.gas_topup_tx_hash,
+      purpose: "refund",
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+    });
+    if (topUp) {
+      const { error: gErr } = await sb
+        .from("fund_refunds")
+        .update({ gas_topup_tx_hash: topUp.hash, gas_topup_bnb: Number(formatUnits(topUp.wei, 18)) })
+        .eq("id", id);
+      if (gErr) throw gErr;
+      await recordGasTx(sb, client, {
+        chain: asset.chain.id,
+        position_id: pos.id,
+        position_ref: pos.position_ref,
+        kind: "topup",
+        purpose: "refund",
+        hash: topUp.hash,
+        valueWei: topUp.wei,
+      }).catch(() => null);
+    }
+
+    const bal = await client.readContract({
+      address: usdt,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      args: [depositAccount.address],
+    });
+    if (bal < amount) {
+      throw new Error(`Deposit address balance insufficient (${formatUnits(bal, decimals)} < ${refund.amount_usdt})`);
+    }
+
+    const hash = await depositWallet.writeContract({
+      chain: null,
+      address: usdt,
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [to, amount],
+    });
+    sentHash = hash;
+    // checked before waiting: the stored hash is what keeps a retry from sending again
+    const { error: hErr } = await sb.from("fund_refunds").update({ refund_tx_hash: hash }).eq("id", id);
+    if (hErr) throw hErr;
+
+    await waitForFinalReceipt(client, hash, asset.chain.id);
+    await recordGasTx(sb, client, {
+      chain: asset.chain.id,
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+      kind: "fee",
+      purpose: "refund",
+      hash,
+    }).catch(() => null);
+
+    const nowIso = new Date().toISOString();
+    const sent = await moveRefund(sb, id, "sending", "sent", { refund_tx_hash: hash, sent_at: nowIso, last_error: null });
+
+    const { error: xErr } = await sb.from("fund_excess").update({ status: "resolved" }).eq("refund_id", id);
+    if (xErr) throw xErr;
+    const { error: pErr } = await sb.from("fund_positions").update({ refund_tx_hash: hash, refunded_at: nowIso }).eq("id", pos.id);
+    if (pErr) throw pErr;
+
+    // an unfunded position whose deposits were all refunded is closed
+    if (String(pos.status) === "awaiting_funds" || String(pos.status) === "flagged") {
+      const { count } = await sb
+        .from("fund_deposits")
+        .select("id", { count: "exact", head: true })
+        .eq("position_id", pos.id)
+        .in("status", ["pending", "credited"]);
+
+      if (!count) {
+        await transitionPosition(sb, {
+          id: pos.id,
+          from: pos.status,
+          to: "refunded",
+          actor,
+          note: `refund ${hash}`,
+        });
+      }
+    }
+
+    return sent ?? { ...refund, status: "sent", refund_tx_hash: hash };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    if (sentHash) {
+      // tx is out: never auto-resend, leave in "sending" (hash kept) for the operator to reconcile
+      await sb.from("fund_refunds").update({ refund_tx_hash: sentHash, last_error: msg }).eq("id", id);
+    } else {
+      await moveRefund(sb, id, "sending", "approved", { last_error: msg });
+    }
+    throw e;
+  }
+}
+
+export async function listRefunds(
+  sb: SupabaseClient,
+  filter: { ref?: string; status?: RefundStatus }
+): Promise<FundRefund[]> {
+  let q = sb.from("fund_refunds").select("*").order("created_at", { ascending: false }).limit(200);
+  if (filter.ref) q = q.eq("position_ref", filter.ref);
+  if (filter.status) q = q.eq("status", filter.status);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as FundRefund[];
+}
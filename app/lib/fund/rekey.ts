@@ -0,0 +1,109 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { privateKeyToAccount } from "viem/accounts";
+import { envelopeKid, loadKeyring, openPrivKey, sealPrivKey } from "./keyring";
+
+// Re-encrypts fund_deposit_keys rows to the active FUND_KEY_ENC_ACTIVE key id.
+// Every row is decrypted, checked against the position's issued_deposit_address, re-sealed,
+// and the new envelope is opened again before it is written. Rows that fail any check are
+// left untouched and reported so the old secret is not retired while they exist.
+
+export type RekeyIssue = { position_id: string; key_id: string; error: string };
+
+export type RekeyResult = {
+  active_kid: string;
+  scanned: number;
+  rekeyed: number;
+  remaining: number;
+  issues: RekeyIssue[];
+  dry_run: boolean;
+};
+
+export async function reencryptDepositKeys(
+  sb: SupabaseClient,
+  opts: { limit?: number; dryRun?: boolean } = {}
+): Promise<RekeyResult> {
+  const ring = loadKeyring();
+  const dryRun = Boolean(opts.dryRun);
+
+  const { data: rows, error } = await sb
+    .from("fund_deposit_keys")
+    .select("position_id, enc_privkey, key_id")
+    .or(`key_id.is.null,key_id.neq.${ring.activeKid}`)
+    .order("position_id", { ascending: true })
+    .limit(opts.limit ?? 200);
+
+  if (error) throw error;
+
+  const ids = (rows ?? []).map((r) => r.position_id);
+  const addrById = new Map<string, string>();
+  if (ids.length > 0) {
+    const { data: positions, error: pErr } = await sb.from("fund_positions").select("id, issued_deposit_address").in("id", ids);
+    if (pErr) throw pErr;
+    for (const p of positions ?? []) addrById.set(p.id, String(p.issued_deposit_address ?? "").toLowerCase());
+  }
+
+  const issues: RekeyIssue[] = [];
+  let rekeyed = 0;
+
+  for (const r of rows ?? []) {
+    const oldEnc = String(r.enc_privkey);
+    const kid = envelopeKid(oldEnc);
+
+    try {
+      const expected = addrById.get(r.position_id);
+      if (!expected) throw new Error("Position or issued_deposit_address missing");
+
+      const pk = openPrivKey(oldEnc, ring);
+      if (privateKeyToAccount(pk).address.toLowerCase() !== expected) {
+        throw new Error("Decrypted key does not match issued_deposit_address");
+      }
+
+      if (kid === ring.activeKid) {
+        // already sealed with the active key; only the key_id column is stale
+        if (!dryRun) {
+          const { error: uErr } = await sb
+            .from("fund_deposit_keys")
+            .update({ key_id: kid })
+            .eq("position_id", r.position_id)
+            .eq("enc_privkey", oldEnc);
+          if (uErr) throw uErr;
+        }
+        rekeyed++;
+        continue;
+      }
+
+      const newEnc = sealPrivKey(pk, ring);
+      if (openPrivKey(newEnc, ring) !== pk) throw new Error("Re-encrypted envelope failed round-trip");
+
+      if (!dryRun) {
+        // guarded on the old ciphertext so a concurrent rewrite isn't clobbered
+        const { data: upd, error: uErr } = await sb
+          .from("fund_deposit_keys")
+          .update({ enc_privkey: newEnc, key_id: ring.activeKid, rekeyed_at: new Date().toISOString() })
+          .eq("position_id", r.position_id)
+          .eq("enc_privkey", oldEnc)
+          .select("position_id");
+        if (uErr) throw uErr;
+        if (!upd || upd.length === 0) throw new Error("Row changed during re-encryption");
+      }
+      rekeyed++;
+    } catch (e: unknown) {
+      issues.push({ position_id: r.position_id, key_id: kid, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  const { count, error: cErr } = await sb
+    .from("fund_deposit_keys")
+    .select("position_id", { count: "exact", head: true })
+    .or(`key_id.is.null,key_id.neq.${ring.activeKid}`);
+  if (cErr) throw cErr;
+
+  return {
+    active_kid: ring.activeKid,
+    scanned: rows?.length ?? 0,
+    rekeyed,
+    remaining: count ?? 0,
+    issues,
+    dry_run: dryRun,
+  };
+}
@@ -0,0 +1,343 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatUnits, parseAbi, parseUnits, type Hex } from "viem";
+import { chainClient, fundChains, USDDD_CHAIN } from "./chains";
+import { env } from "./env";
+import {
+  LIABILITY_DECIMALS,
+  liabilityLeaf,
+  merkleLayers,
+  merkleProof,
+  merkleRoot,
+  verifyMerkleProof,
+} from "./merkle";
+import { pageAll } from "./paging";
+import { statusesInBucket } from "./status";
+
+// Proof of reserves. On-chain: every registered token held by its chain's treasury (./chains, each
+// pinned to that chain's latest block), USDDD totalSupply and USDDD on every allocated deposit EOA
+// (pinned to one USDDD_CHAIN block). DB liabilities: funded_usdt + ledger accrual per active
+// position, and per flagged position that still holds a balance (mint review, failed settlement). Published snapshots (fund_reserve_snapshots) carry a Merkle root of per-position
+// liabilities; fund_reserve_leaves keeps each leaf with its proof, computed once at publish time.
+// The public report only counts drifted positions; their refs stay operator-only.
+
+const TOKEN_ABI = parseAbi([
+  "function balanceOf(address) view returns (uint256)",
+  "function totalSupply() view returns (uint256)",
+]);
+
+// USDDD is 6 decimals on-chain (same lock as mint)
+const USDDD_DECIMALS = 6;
+
+// flagged sits in the "closed" bucket but may still owe its funded USDT
+const LIABLE_STATUSES = [...statusesInBucket("active"), "flagged"];
+
+export type TreasuryHolding = {
+  chain: string;
+  token: string;
+  address: string;
+  block_number: string;
+  balance: number;
+  swept_liability_usdt: number; // swept positions funded with this chain/token
+};
+
+export type ReserveReport = {
+  block_number: string; // USDDD_CHAIN block
+  assets: {
+    treasury_usdt: number; // all treasuries, stablecoins counted 1:1
+    treasuries: TreasuryHolding[];
+    usddd_total_supply: number;
+    usddd_on_deposits: number;
+  };
+  liabilities: {
+    positions: number;
+    total_usdt: number;
+    swept_usdt: number; // covered by the treasury
+    unswept_usdt: number; // still on deposit EOAs (funded_locked, flagged before the sweep)
+    usddd_allocated: number;
+    usddd_accrued: number;
+  };
+  checks: {
+    reserve_ratio: number | null; // treasury_usdt / swept_usdt
+    usdt_covered: boolean; // in total and per chain/token
+    usddd_supply_minus_deposits: number; // USDDD outside deposit EOAs (treasury pipe, in flight)
+    deposits_minus_ledger: number; // on-chain USDDD vs allocated + accrual
+    drifted_count: number; // swept_locked positions whose deposit EOA USDDD != allocation + accrual
+  };
+  merkle: { root: Hex; leaf_count: number };
+};
+
+// operator scope: the refs behind checks.drifted_count
+export type ReserveReportDetail = ReserveReport & { drifted_positions: string[] };
+
+export type ReserveSnapshot = ReserveReport & { id: string; created_at: string };
+
+type LiabilityRow = {
+  id: string;
+  position_ref: string;
+  status: string;
+  chain: string;
+  token: string;
+  issued_deposit_address: string | null;
+  funded_usdt: number | string | null;
+  usddd_allocated: number | string | null;
+  usddd_accrued: number | string | null;
+  usddd_transfer_tx_hash: string | null;
+  swept_at: string | null;
+};
+
+type Leaf = { position_id: string; position_ref: string; liability_raw: bigint; leaf: Hex };
+
+function raw6(v: number | string | null): bigint {
+  const n = Number(v ?? 0);
+  if (!Number.isFinite(n) || n <= 0) return 0n;
+  return parseUnits(n.toFixed(LIABILITY_DECIMALS), LIABILITY_DECIMALS);
+}
+
+// exact rescale (rounds down, never overstates reserves)
+function to6(raw: bigint, decimals: number): bigint {
+  return decimals >= LIABILITY_DECIMALS
+    ? raw / 10n ** BigInt(decimals - LIABILITY_DECIMALS)
+    : raw * 10n ** BigInt(LIABILITY_DECIMALS - decimals);
+}
+
+function num6(v: bigint): number {
+  return Number(formatUnits(v, LIABILITY_DECIMALS));
+}
+
+async function buildReport(
+  sb: SupabaseClient
+): Promise<{ report: ReserveReport; drifted: string[]; leaves: Leaf[]; layers: Hex[][] }> {
+  const usddd = env("BSC_USDDD_ADDRESS", env("NEXT_PUBLIC_USDDD_TOKEN_BEP20")).toLowerCase() as Hex;
+  const client = chainClient(USDDD_CHAIN);
+
+  const rows = await pageAll<LiabilityRow>((from, to) =>
+    sb
+      .from("fund_positions")
+      .select("id, position_ref, status, chain, token, issued_deposit_address, funded_usdt, usddd_allocated, usddd_accrued, usddd_transfer_tx_hash, swept_at")
+      .in("status", LIABLE_STATUSES)
+      .order("position_ref", { ascending: true })
+      .range(from, to)
+  );
+  const blockNumber = await client.getBlockNumber();
+
+  const supply = await client.readContract({ address: usddd, abi: TOKEN_ABI, functionName: "totalSupply", blockNumber });
+
+  let total = 0n;
+  let swept = 0n;
+  let allocated = 0n;
+  let accrued = 0n;
+  let onDeposits = 0n;
+  const drifted: string[] = [];
+  const leaves: Leaf[] = [];
+  const sweptByAsset = new Map<string, bigint>();
+
+  for (const r of rows) {
+    if (r.status === "flagged" && raw6(r.funded_usdt) === 0n && raw6(r.usddd_allocated) === 0n) continue;
+
+    const principal = raw6(r.funded_usdt);
+    const accrual = raw6(r.usddd_accrued);
+    const liability = principal + accrual;
+
+    total += liability;
+    // flagged positions count as swept only once their deposit reached the treasury
+    if (r.status === "flagged" ? r.swept_at != null : r.status !== "funded_locked") {
+      swept += liability;
+      const key = `${r.chain}:${r.token}`;
+      sweptByAsset.set(key, (sweptByAsset.get(key) ?? 0n) + liability);
+    }
+    allocated += raw6(r.usddd_allocated);
+    accrued += accrual;
+
+    if (r.usddd_transfer_tx_hash && r.issued_deposit_address) {
+      const bal = await client.readContract({
+        address: usddd,
+        abi: TOKEN_ABI,
+        functionName: "balanceOf",
+        args: [r.issued_deposit_address.toLowerCase() as Hex],
+        blockNumber,
+      });
+      onDeposits += bal;
+      // settlement burns part-way, so only positions still holding their allocation are compared
+      if (r.status === "swept_locked" && bal !== raw6(r.usddd_allocated) + accrual) drifted.push(r.position_ref);
+    }
+
+    leaves.push({ position_id: r.id, position_ref: r.position_ref, liability_raw: liability, leaf: liabilityLeaf(r.position_ref, liability) });
+  }
+
+  // treasury holdings, normalized to 6 decimals so every stablecoin adds up
+  const treasuries: TreasuryHolding[] = [];
+  let treasuryRaw = 0n;
+  let eachCovered = true;
+  for (const chain of fundChains()) {
+    const chainRpc = chain.id === USDDD_CHAIN ? client : chainClient(chain);
+    const at = chain.id === USDDD_CHAIN ? blockNumber : await chainRpc.getBlockNumber();
+    for (const token of Object.values(chain.tokens)) {
+      const bal = await chainRpc.readContract({
+        address: token.address,
+        abi: TOKEN_ABI,
+        functionName: "balanceOf",
+        args: [chain.treasury],
+        blockNumber: at,
+      });
+      const bal6 = to6(bal, token.decimals);
+      const owed = sweptByAsset.get(`${chain.id}:${token.id}`) ?? 0n;
+      treasuryRaw += bal6;
+      if (bal6 < owed) eachCovered = false;
+      treasuries.push({
+        chain: chain.id,
+        token: token.id,
+        address: chain.treasury,
+        block_number: at.toString(),
+        balance: num6(bal6),
+        swept_liability_usdt: num6(owed),
+      });
+    }
+  }
+
+  const layers = merkleLayers(leaves.map((l) => l.leaf));
+  const treasuryNum = num6(treasuryRaw);
+  const sweptNum = num6(swept);
+
+  const report: ReserveReport = {
+    block_number: blockNumber.toString(),
+    assets: {
+      treasury_usdt: treasuryNum,
+      treasuries,
+      usddd_total_supply: Number(formatUnits(supply, USDDD_DECIMALS)),
+      usddd_on_deposits: Number(formatUnits(onDeposits, USDDD_DECIMALS)),
+    },
+    liabilities: {
+      positions: leaves.length,
+      total_usdt: num6(total),
+      swept_usdt: sweptNum,
+      unswept_usdt: num6(total - swept),
+      usddd_allocated: num6(allocated),
+      usddd_accrued: num6(accrued),
+    },
+    checks: {
+      reserve_ratio: swept > 0n ? Number((treasuryNum / sweptNum).toFixed(6)) : null,
+      usdt_covered: eachCovered && treasuryRaw >= swept,
+      usddd_supply_minus_deposits: Number(formatUnits(supply - onDeposits, USDDD_DECIMALS)),
+      deposits_minus_ledger: Number(formatUnits(onDeposits - allocated - accrued, USDDD_DECIMALS)),
+      drifted_count: drifted.length,
+    },
+    merkle: { root: merkleRoot(layers), leaf_count: leaves.length },
+  };
+
+  return { report, drifted, leaves, layers };
+}
+
+// Live report (nothing stored)
+export async function reserveReport(sb: SupabaseClient): Promise<ReserveReportDetail> {
+  const { report, drifted } = await buildReport(sb);
+  return { ...report, drifted_positions: drifted };
+}
+
+// Build and publish a snapshot: root + totals, and every leaf with its proof
+export async function publishReserveSnapshot(sb: SupabaseClient): Promise<ReserveSnapshot & ReserveReportDetail> {
+  const { report, drifted, leaves, layers } = await buildReport(sb);
+
+  const { data: snap, error } = await sb
+    .from("fund_reserve_snapshots")
+    .insert({
+      merkle_root: report.merkle.root,
+      leaf_count: report.merkle.leaf_count,
+      block_number: report.block_number,
+      treasury_usdt: report.assets.treasury_usdt,
+      usddd_total_supply: report.assets.usddd_total_supply,
+      liabilities_usdt: report.liabilities.total_usdt,
+      report,
+      drifted_positions: drifted,
+    })
+    .select("id, created_at")
+    .single();
+  if (error || !snap) throw error ?? new Error("Snapshot insert failed");
+
+  for (let i = 0; i < leaves.length; i += 500) {
+    const { error: lErr } = await sb.from("fund_reserve_leaves").insert(
+      leaves.slice(i, i + 500).map((l, j) => ({
+        snapshot_id: snap.id,
+        leaf_index: i + j,
+        position_id: l.position_id,
+        position_ref: l.position_ref,
+        liability_raw: l.liability_raw.toString(),
+        leaf: l.leaf,
+        proof: merkleProof(layers, i + j),
+      }))
+    );
+    if (lErr) throw lErr;
+  }
+
+  // only complete snapshots are served
+  const { error: pErr } = await sb
+    .from("fund_reserve_snapshots")
+    .update({ published_at: new Date().toISOString() })
+    .eq("id", snap.id);
+  if (pErr) throw pErr;
+
+  return { ...report, drifted_positions: drifted, id: snap.id, created_at: snap.created_at };
+}
+
+export async function latestReserveSnapshot(sb: SupabaseClient): Promise<ReserveSnapshot | null> {
+  const { data, error } = await sb
+    .from("fund_reserve_snapshots")
+    .select("id, created_at, report")
+    .not("published_at", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return { ...(data.report as ReserveReport), id: data.id, created_at: data.created_at };
+}
+
+export type LiabilityProof = {
+  snapshot_id: string;
+  root: Hex;
+  position_ref: string;
+  liability_usdt: number;
+  liability_raw: string;
+  leaf: Hex;
+  proof: Hex[];
+  verified: boolean;
+};
+
+// Inclusion proof for one position_ref in a published snapshot (latest by default)
+export async function liabilityProof(sb: SupabaseClient, ref: string, snapshotId?: string): Promise<LiabilityProof> {
+  const snap = snapshotId ? { id: snapshotId } : await latestReserveSnapshot(sb);
+  if (!snap) throw new Error("No reserve snapshot published yet");
+
+  const { data: rootRow, error: sErr } = await sb
+    .from("fund_reserve_snapshots")
+    .select("merkle_root")
+    .eq("id", snap.id)
+    .not("published_at", "is", null)
+    .maybeSingle();
+  if (sErr) throw sErr;
+  if (!rootRow) throw new Error("Snapshot not found");
+
+  const { data: mine, error: lErr } = await sb
+    .from("fund_reserve_leaves")
+    .select("liability_raw, leaf, proof")
+    .eq("snapshot_id", snap.id)
+    .eq("position_ref", ref)
+    .maybeSingle();
+  if (lErr) throw lErr;
+  if (!mine) throw new Error("Position not included in this snapshot");
+  if (!Array.isArray(mine.proof)) throw new Error("No stored proofs for this snapshot; use a newer one");
+
+  const proof = mine.proof as Hex[];
+  const root = rootRow.merkle_root as Hex;
+  const liabilityRaw = BigInt(mine.liability_raw);
+
+  return {
+    snapshot_id: snap.id,
+    root,
+    position_ref: ref,
+    liability_usdt: num6(liabilityRaw),
+    liability_raw: liabilityRaw.toString(),
+    leaf: mine.leaf as Hex,
+    proof,
+    verified: verifyMerkleProof(liabilityLeaf(ref, liabilityRaw), proof, root),
+  };
+}
@@ -0,0 +1,140 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { env } from "./env";
+import { operatorFromRequest } from "./operator-auth";
+import { userSessionFromRequest } from "./user-session";
+
+// Access scopes for every route under app/api/fund:
+//   public   - no credentials: public reads, issue-address, and ref-holder calls (confirm, refund request)
+//   user     - a Scan session cookie that resolves to a terminal_user_id (bind, withdrawals, session
+//              positions); started from a Terminal login handshake (see user-session.ts)
+//   operator - signed operator token, cookie or "Authorization: Bearer" (see operator-auth.ts)
+//   internal - worker ticks and pipeline steps: an HMAC-signed server call, the platform cron secret,
+//              or an operator
+//
+// HMAC-signed calls carry
+//   x-fund-timestamp: unix seconds (must be within INTERNAL_SKEW_SECONDS)
+//   x-fund-nonce:     8-128 characters [A-Za-z0-9_-], unique per request
+//   x-fund-signature: hex HMAC-SHA256(FUND_INTERNAL_SECRET, `${timestamp}\n${nonce}\n${METHOD}\n${path + query}\n${raw body}`)
+// Each nonce is accepted once (fund_internal_nonces, kept until the skew window has passed), so a
+// captured request cannot be replayed. signInternalRequest() builds the headers for scripts and
+// other services.
+
+export type FundCaller = { kind: "operator" | "internal"; id: string };
+
+const INTERNAL_SKEW_SECONDS = 300;
+
+function sameText(a: string, b: string): boolean {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+function internalSecret(): string | null {
+  const s = process.env.FUND_INTERNAL_SECRET?.trim();
+  if (!s) return null;
+  if (s.length < 32) throw new Error("FUND_INTERNAL_SECRET must be at least 32 characters");
+  return s;
+}
+
+function signature(secret: string, timestamp: string, nonce: string, method: string, pathAndQuery: string, body: string): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}\n${nonce}\n${method.toUpperCase()}\n${pathAndQuery}\n${body}`)
+    .digest("hex");
+}
+
+export function signInternalRequest(req: { method: string; url: string; body?: string }): Record<string, string> {
+  const secret = internalSecret();
+  if (!secret) throw new Error("Missing env: FUND_INTERNAL_SECRET");
+  const u = new URL(req.url, "http://localhost");
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = randomUUID();
+  return {
+    "x-fund-timestamp": timestamp,
+    "x-fund-nonce": nonce,
+    "x-fund-signature": signature(secret, timestamp, nonce, req.method, u.pathname + u.search, req.body ?? ""),
+  };
+}
+
+// false when the nonce was already used
+async function claimNonce(nonce: string, ts: number): Promise<boolean> {
+  const sb = createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+    auth: { persistSession: false },
+  });
+  const { data, error } = await sb.rpc("use_fund_internal_nonce", {
+    p_nonce: nonce,
+    p_expires_at: new Date((ts + INTERNAL_SKEW_SECONDS) * 1000).toISOString(),
+  });
+  if (error) throw error;
+  return data === true;
+}
+
+// One verdict per request object: the idempotency wrapper and the route both ask, the nonce is used once
+const signedCallers = new WeakMap<Request, Promise<FundCaller | null>>();
+
+async function signedCaller(req: Request, useOnce: boolean): Promise<FundCaller | null> {
+  const timestamp = req.headers.get("x-fund-timestamp") ?? "";
+  const nonce = req.headers.get("x-fund-nonce") ?? "";
+  const sig = req.headers.get("x-fund-signature") ?? "";
+  const secret = internalSecret();
+  if (!secret || !timestamp || !sig || !/^[A-Za-z0-9_-]{8,128}$/.test(nonce)) return null;
+
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts) || Math.abs(Date.now() / 1000 - ts) > INTERNAL_SKEW_SECONDS) return null;
+
+  // clone: the route still reads the body itself
+  const body = await req.clone().text();
+  const u = new URL(req.url);
+  if (!sameText(sig.toLowerCase(), signature(secret, timestamp, nonce, req.method, u.pathname + u.search, body))) return null;
+
+  if (useOnce && !(await claimNonce(nonce, ts))) return null;
+  return { kind: "internal", id: "hmac" };
+}
+
+async function internalCaller(req: Request, useOnce: boolean): Promise<FundCaller | null> {
+  // scheduled ticks: the platform cron sends "Authorization: Bearer $CRON_SECRET"
+  const cron = process.env.CRON_SECRET?.trim();
+  const auth = req.headers.get("authorization") ?? "";
+  if (cron && auth.toLowerCase().startsWith("bearer ") && sameText(auth.slice(7).trim(), cron)) {
+    return { kind: "internal", id: "cron" };
+  }
+
+  if (!useOnce) return signedCaller(req, false);
+  let verdict = signedCallers.get(req);
+  if (!verdict) {
+    verdict = signedCaller(req, true);
+    signedCallers.set(req, verdict);
+  }
+  return verdict;
+}
+
+// Drops used nonces past the skew window (called from the jobs worker tick)
+export async function purgeInternalNonces(sb: SupabaseClient): Promise<number> {
+  const { data, error } = await sb.rpc("purge_fund_internal_nonces");
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+// null when the request is not allowed in the scope; routes answer with fundUnauthorized().
+// opts.useNonce=false checks a signed call without using up its nonce (proxy.ts, ahead of the route).
+export async function fundCaller(
+  req: Request,
+  scope: "operator" | "internal",
+  opts: { useNonce?: boolean } = {}
+): Promise<FundCaller | null> {
+  const op = operatorFromRequest(req);
+  if (op) return { kind: "operator", id: op.operator };
+  if (scope === "internal") return internalCaller(req, opts.useNonce ?? true);
+  return null;
+}
+
+export function fundUnauthorized(message = "Unauthorized") {
+  return NextResponse.json({ ok: false, error: message }, { status: 401 });
+}
+
+// User scope: the terminal user comes from the Scan session cookie, never from the request body
+export async function fundUser(sb: SupabaseClient, req: Request): Promise<{ user_id: string; username: string | null } | null> {
+  const sess = await userSessionFromRequest(sb, req);
+  return sess ? { user_id: sess.terminal_user_id, username: sess.username } : null;
+}
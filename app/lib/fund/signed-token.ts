@@ -0,0 +1,49 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Compact signed tokens: base64url(JSON payload) + "." + base64url(HMAC-SHA256(secret, payload)).
+// Every payload carries exp (unix seconds); verifyToken returns null for anything forged or expired.
+
+export type TokenPayload = { exp: number } & Record<string, unknown>;
+
+function mac(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function signToken(secret: string, payload: TokenPayload): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${mac(secret, body)}`;
+}
+
+export function verifyToken(secret: string, token: string | null | undefined): TokenPayload | null {
+  const [body, sig] = String(token ?? "").split(".");
+  if (!body || !sig) return null;
+
+  const expected = Buffer.from(mac(secret, body));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    const exp = Number(payload?.exp);
+    if (!payload || typeof payload !== "object" || !Number.isFinite(exp) || exp * 1000 <= Date.now()) return null;
+    return payload as TokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Secrets for the token families (operator, user session, terminal login); all HMAC keys
+export function tokenSecret(name: string): string {
+  const s = process.env[name]?.trim();
+  if (!s) throw new Error(`Missing env: ${name}`);
+  if (s.length < 32) throw new Error(`${name} must be at least 32 characters`);
+  return s;
+}
+
+export function cookieValue(header: string | null, name: string): string | null {
+  for (const part of (header ?? "").split(";")) {
+    const i = part.indexOf("=");
+    if (i > 0 && part.slice(0, i).trim() === name) return decodeURIComponent(part.slice(i + 1).trim());
+  }
+  return null;
+}
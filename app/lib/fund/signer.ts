@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Hex, LocalAccount } from "viem";
+import { env } from "./env";
+import { envSigner } from "./signers/env";
+import { hdSigner } from "./signers/hd";
+import { httpSigner } from "./signers/http";
+import { mockSigner } from "./signers/mock";
+
+// Key custody boundary for the Fund Network. Routes and jobs ask a FundSigner for a viem
+// account and never see private keys. Selected with FUND_SIGNER:
+//   env  (default) deposit keys AES-GCM encrypted in fund_deposit_keys, ops keys from env vars
+//   hd   deposit keys derived from FUND_HD_XPRV by fund_positions.deposit_index, ops keys from env vars
+//   http external signing service at FUND_SIGNER_URL (keys never enter this process)
+//   mock deterministic keys from FUND_SIGNER_MOCK_SEED for tests / local dev (refused in production)
+
+export type SignerKey =
+  | { role: "deposit"; positionId: string; address?: string | null }
+  | { role: "minter" | "treasury" | "gas" | "payout" };
+
+export type NewDepositKey = {
+  address: Hex;
+  // bind the key to the position once its row exists
+  commit: (positionId: string) => Promise<void>;
+};
+
+export type FundSigner = {
+  readonly kind: "env" | "hd" | "http" | "mock";
+  getAccount(key: SignerKey): Promise<LocalAccount>;
+  createDepositKey(): Promise<NewDepositKey>;
+};
+
+export function fundSigner(sb: SupabaseClient): FundSigner {
+  const kind = env("FUND_SIGNER", "env");
+
+  if (kind === "env") return envSigner(sb);
+  if (kind === "hd") return hdSigner(sb);
+  if (kind === "http") {
+    return httpSigner({ url: env("FUND_SIGNER_URL"), token: env("FUND_SIGNER_TOKEN") });
+  }
+  if (kind === "mock") {
+    if (process.env.NODE_ENV === "production") throw new Error("FUND_SIGNER=mock is not allowed in production");
+    return mockSigner(env("FUND_SIGNER_MOCK_SEED", "digdug-scan-mock"), sb);
+  }
+
+  throw new Error(`Unknown FUND_SIGNER: ${kind}`);
+}
+
+// Deposit accounts must match the address users were told to pay into
+export function assertDepositAddress(account: { address: string }, key: SignerKey): void {
+  if (key.role !== "deposit" || !key.address) return;
+  if (account.address.toLowerCase() !== key.address.toLowerCase()) {
+    throw new Error("Deposit key does not match issued_deposit_address");
+  }
+}
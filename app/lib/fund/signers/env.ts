@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Hex, LocalAccount } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { env, normalizePk } from "../env";
+import { envelopeKid, loadKeyring, openPrivKey, sealPrivKey } from "../keyring";
+import { assertDepositAddress, type FundSigner, type SignerKey } from "../signer";
+
+// In-process scheme: deposit keys sealed in versioned envelopes (keyring.ts),
+// ops keys as raw hex env vars.
+
+const OPS_KEY_ENV = {
+  minter: "FUND_USDDD_MINTER_PK", // owner/manager PK (mint authority)
+  treasury: "FUND_USDDD_TREASURY_PK", // treasury pipe PK (EOA to transfer out)
+  gas: "FUND_GAS_TOPUP_PK",
+  payout: "FUND_USDT_PAYOUT_PK", // USDT treasury (sweep destination) paying withdrawals
+} as const;
+
+// Ops keys (minter / treasury / gas) as raw hex env vars; shared with the hd signer
+export function opsAccount(role: keyof typeof OPS_KEY_ENV): LocalAccount {
+  const name = OPS_KEY_ENV[role];
+  return privateKeyToAccount(normalizePk(env(name), name));
+}
+
+export function envSigner(sb: SupabaseClient): FundSigner {
+  return {
+    kind: "env",
+
+    async getAccount(key: SignerKey): Promise<LocalAccount> {
+      if (key.role !== "deposit") return opsAccount(key.role);
+
+      // Fetch deposit key separately (avoid fragile join/relationship issues)
+      const { data: keyRow, error: keyErr } = await sb
+        .from("fund_deposit_keys")
+        .select("enc_privkey")
+        .eq("position_id", key.positionId)
+        .limit(1)
+        .single();
+
+      if (keyErr || !keyRow?.enc_privkey) throw new Error("Missing deposit key");
+
+      const account = privateKeyToAccount(openPrivKey(String(keyRow.enc_privkey), loadKeyring()));
+      assertDepositAddress(account, key);
+      return account;
+    },
+
+    async createDepositKey() {
+      const ring = loadKeyring();
+      const priv = generatePrivateKey();
+      const acct = privateKeyToAccount(priv);
+
+      return {
+        address: acct.address.toLowerCase() as Hex,
+        async commit(positionId: string) {
+          // Store encrypted private key (never return)
+          const enc = sealPrivKey(priv, ring);
+          const { error } = await sb.from("fund_deposit_keys").insert({
+            position_id: positionId,
+            enc_privkey: enc,
+            key_id: envelopeKid(enc),
+          });
+          if (error) throw error;
+        },
+      };
+    },
+  };
+}
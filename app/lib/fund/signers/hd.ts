@@ -0,0 +1,81 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { bytesToHex, type Hex, type LocalAccount } from "viem";
+import { HDKey, privateKeyToAccount } from "viem/accounts";
+import { env } from "../env";
+import { assertDepositAddress, type FundSigner, type SignerKey } from "../signer";
+import { envSigner, opsAccount } from "./env";
+
+// Deposit addresses derived from one extended key (FUND_HD_XPRV) at FUND_HD_PATH/<index>.
+// The index is allocated from fund_deposit_index_seq and stored on fund_positions.deposit_index,
+// so nothing per-position needs to be stored or backed up. Positions issued before HD
+// derivation (deposit_index null) still sign with their stored key via the env signer.
+
+const DEFAULT_PATH = "m/44'/60'/0'/0";
+
+function hdRoot(): { root: HDKey; path: string } {
+  const root = HDKey.fromExtendedKey(env("FUND_HD_XPRV"));
+  if (!root.privateKey) throw new Error("FUND_HD_XPRV must be an extended private key");
+  const path = env("FUND_HD_PATH", DEFAULT_PATH).replace(/\/+$/, "");
+  if (!/^m(\/\d+'?)*$/.test(path)) throw new Error("Bad FUND_HD_PATH");
+  return { root, path };
+}
+
+export function deriveDepositKey(index: number, hd = hdRoot()): Hex {
+  if (!Number.isSafeInteger(index) || index < 0 || index >= 2 ** 31) throw new Error(`Bad deposit index: ${index}`);
+  const child = hd.root.derive(`${hd.path}/${index}`);
+  if (!child.privateKey) throw new Error(`Derivation failed at index ${index}`);
+  return bytesToHex(child.privateKey);
+}
+
+export function deriveDepositAddress(index: number, hd = hdRoot()): Hex {
+  return privateKeyToAccount(deriveDepositKey(index, hd)).address.toLowerCase() as Hex;
+}
+
+export function hdSigner(sb: SupabaseClient): FundSigner {
+  const hd = hdRoot();
+
+  return {
+    kind: "hd",
+
+    async getAccount(key: SignerKey): Promise<LocalAccount> {
+      if (key.role !== "deposit") return opsAccount(key.role);
+
+      const { data: pos, error } = await sb
+        .from("fund_positions")
+        .select("deposit_index")
+        .eq("id", key.positionId)
+        .limit(1)
+        .single();
+
+      if (error || !pos) throw new Error("Position not found");
+      if (pos.deposit_index == null) return envSigner(sb).getAccount(key);
+
+      const account = privateKeyToAccount(deriveDepositKey(Number(pos.deposit_index), hd));
+      assertDepositAddress(account, key);
+      return account;
+    },
+
+    async createDepositKey() {
+      const { data: index, error } = await sb.rpc("next_fund_deposit_index");
+      if (error) throw error;
+
+      const n = Number(index);
+      const address = deriveDepositAddress(n, hd);
+
+      return {
+        address,
+        async commit(positionId: string) {
+          const { data: rows, error: updErr } = await sb
+            .from("fund_positions")
+            .update({ deposit_index: n })
+            .eq("id", positionId)
+            .eq("issued_deposit_address", address)
+            .is("deposit_index", null)
+            .select("id");
+          if (updErr) throw updErr;
+          if (!rows || rows.length === 0) throw new Error("Failed to bind deposit index");
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { serializeTransaction, type Hex, type LocalAccount } from "viem";
+import { toAccount } from "viem/accounts";
+import { assertDepositAddress, type FundSigner, type SignerKey } from "../signer";
+
+// External signing service. Contract (JSON over HTTPS, bearer FUND_SIGNER_TOKEN):
+//   POST /address              { key }                 -> { address }
+//   POST /sign/transaction     { key, unsigned_tx }    -> { signature }  (signed serialized tx)
+//   POST /sign/message         { key, message }        -> { signature }
+//   POST /sign/typed-data      { key, typed_data }     -> { signature }
+//   POST /deposit-keys         {}                      -> { address, key_id }
+//   POST /deposit-keys/bind    { key_id, position_id } -> {}
+// `key` is the SignerKey ({ role, positionId? }) so the service owns the role -> key mapping.
+
+type HttpSignerOpts = { url: string; token: string; timeoutMs?: number };
+
+// bigint-safe JSON (typed data / tx fields)
+function toJson(body: unknown): string {
+  return JSON.stringify(body, (_k, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+export function httpSigner(opts: HttpSignerOpts): FundSigner {
+  const base = opts.url.replace(/\/+$/, "");
+
+  async function call<T>(path: string, body: unknown): Promise<T> {
+    const r = await fetch(`${base}${path}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", authorization: `Bearer ${opts.token}` },
+      body: toJson(body),
+      cache: "no-store",
+      signal: AbortSignal.timeout(opts.timeoutMs ?? 15_000),
+    });
+
+    const j: unknown = await r.json().catch(() => null);
+    if (!r.ok || !j || typeof j !== "object") {
+      const msg = j && typeof j === "object" && "error" in j ? String((j as { error: unknown }).error) : `HTTP ${r.status}`;
+      throw new Error(`Signer ${path} failed: ${msg}`);
+    }
+    return j as T;
+  }
+
+  function wireKey(key: SignerKey) {
+    return key.role === "deposit" ? { role: key.role, position_id: key.positionId } : { role: key.role };
+  }
+
+  return {
+    kind: "http",
+
+    async getAccount(key: SignerKey): Promise<LocalAccount> {
+      const k = wireKey(key);
+      const { address } = await call<{ address: Hex }>("/address", { key: k });
+      assertDepositAddress({ address }, key);
+
+      return toAccount({
+        address,
+        async signMessage({ message }) {
+          return (await call<{ signature: Hex }>("/sign/message", { key: k, message })).signature;
+        },
+        async signTransaction(transaction, options) {
+          const serializer = options?.serializer ?? serializeTransaction;
+          const unsigned = await serializer(transaction);
+          return (await call<{ signature: Hex }>("/sign/transaction", { key: k, unsigned_tx: unsigned })).signature;
+        },
+        async signTypedData(typedData) {
+          return (await call<{ signature: Hex }>("/sign/typed-data", { key: k, typed_data: typedData })).signature;
+        },
+      });
+    },
+
+    async createDepositKey() {
+      const { address, key_id } = await call<{ address: Hex; key_id: string }>("/deposit-keys", {});
+      return {
+        address: address.toLowerCase() as Hex,
+        async commit(positionId: string) {
+          await call("/deposit-keys/bind", { key_id, position_id: positionId });
+        },
+      };
+    },
+  };
+}
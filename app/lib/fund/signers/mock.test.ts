@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import { mockDepositKey, mockSigner } from "./mock";
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase client for the signer: fund_positions reads/updates and the index rpc
+function fakeDb(): { sb: SupabaseClient; positions: Map<string, Row> } {
+  const positions = new Map<string, Row>();
+  let seq = 0;
+
+  const query = () => {
+    const filters: ((r: Row) => boolean)[] = [];
+    let patch: Row | null = null;
+    const run = () => {
+      const hit = [...positions.values()].filter((r) => filters.every((f) => f(r)));
+      if (patch) for (const r of hit) Object.assign(r, patch);
+      return hit;
+    };
+
+    const q = {
+      select: () => q,
+      limit: () => q,
+      update: (p: Row) => {
+        patch = p;
+        return q;
+      },
+      eq: (col: string, v: unknown) => {
+        filters.push((r) => r[col] === v);
+        return q;
+      },
+      is: (col: string, v: unknown) => {
+        filters.push((r) => (r[col] ?? null) === v);
+        return q;
+      },
+      single: async () => {
+        const hit = run();
+        return hit.length === 1 ? { data: hit[0], error: null } : { data: null, error: { message: "not found" } };
+      },
+      then: (resolve: (v: { data: Row[]; error: null }) => unknown) => resolve({ data: run(), error: null }),
+    };
+    return q;
+  };
+
+  const sb = {
+    from: () => query(),
+    rpc: async (name: string) =>
+      name === "next_fund_deposit_index" ? { data: seq++, error: null } : { data: null, error: { message: name } },
+  };
+  return { sb: sb as unknown as SupabaseClient, positions };
+}
+
+async function issue(db: ReturnType<typeof fakeDb>, seed: string, positionId: string): Promise<string> {
+  const key = await mockSigner(seed, db.sb).createDepositKey();
+  db.positions.set(positionId, { id: positionId, issued_deposit_address: key.address, deposit_index: null });
+  await key.commit(positionId);
+  return key.address;
+}
+
+describe("mockSigner", () => {
+  it("issues a different deposit address per position", async () => {
+    const db = fakeDb();
+    const a = await issue(db, "seed", "pos-a");
+    const b = await issue(db, "seed", "pos-b");
+
+    expect(a).not.toBe(b);
+    expect(db.positions.get("pos-a")?.deposit_index).toBe(0);
+    expect(db.positions.get("pos-b")?.deposit_index).toBe(1);
+  });
+
+  it("signs for the issued address from a fresh signer instance (next request)", async () => {
+    const db = fakeDb();
+    await issue(db, "seed", "pos-a");
+    const address = await issue(db, "seed", "pos-b");
+
+    const account = await mockSigner("seed", db.sb).getAccount({ role: "deposit", positionId: "pos-b", address });
+
+    expect(account.address.toLowerCase()).toBe(address);
+    expect(account.address).toBe(privateKeyToAccount(mockDepositKey("seed", 1)).address);
+  });
+
+  it("refuses a deposit key that does not match the issued address", async () => {
+    const db = fakeDb();
+    const address = await issue(db, "seed", "pos-a");
+
+    await expect(mockSigner("other-seed", db.sb).getAccount({ role: "deposit", positionId: "pos-a", address })).rejects.toThrow(
+      "Deposit key does not match issued_deposit_address"
+    );
+  });
+
+  it("refuses positions without a deposit index", async () => {
+    const db = fakeDb();
+    db.positions.set("pos-a", { id: "pos-a", issued_deposit_address: "0x00", deposit_index: null });
+
+    await expect(mockSigner("seed", db.sb).getAccount({ role: "deposit", positionId: "pos-a" })).rejects.toThrow(
+      "Position has no mock deposit index"
+    );
+  });
+
+  it("does not bind a key to a position issued with another address", async () => {
+    const db = fakeDb();
+    const key = await mockSigner("seed", db.sb).createDepositKey();
+    db.positions.set("pos-a", { id: "pos-a", issued_deposit_address: "0xother", deposit_index: null });
+
+    await expect(key.commit("pos-a")).rejects.toThrow("Failed to bind deposit index");
+  });
+
+  it("derives the same ops accounts for the same seed", async () => {
+    const db = fakeDb();
+    const a = await mockSigner("seed", db.sb).getAccount({ role: "minter" });
+    const b = await mockSigner("seed", db.sb).getAccount({ role: "minter" });
+    const c = await mockSigner("seed", db.sb).getAccount({ role: "payout" });
+    const d = await mockSigner("other-seed", db.sb).getAccount({ role: "minter" });
+
+    expect(a.address).toBe(b.address);
+    expect(a.address).not.toBe(c.address);
+    expect(a.address).not.toBe(d.address);
+  });
+});
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { keccak256, toHex, type Hex, type LocalAccount } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { assertDepositAddress, type FundSigner, type SignerKey } from "../signer";
+
+// Deterministic signer for tests and local dev: every key is keccak256(seed:role[:index]), so the
+// same seed always yields the same addresses. Deposit keys use the index allocated from
+// fund_deposit_index_seq and stored on fund_positions.deposit_index (as the hd signer does), so a
+// position signs with the same key on every request and after restarts. Never holds real funds.
+
+export function mockDepositKey(seed: string, index: number): Hex {
+  return keccak256(toHex(`${seed}:deposit:${index}`));
+}
+
+export function mockSigner(seed: string, sb: SupabaseClient): FundSigner {
+  const derive = (label: string): Hex => keccak256(toHex(`${seed}:${label}`));
+
+  return {
+    kind: "mock",
+
+    async getAccount(key: SignerKey): Promise<LocalAccount> {
+      if (key.role !== "deposit") return privateKeyToAccount(derive(key.role));
+
+      const { data: pos, error } = await sb
+        .from("fund_positions")
+        .select("deposit_index")
+        .eq("id", key.positionId)
+        .limit(1)
+        .single();
+
+      if (error || !pos) throw new Error("Position not found");
+      if (pos.deposit_index == null) throw new Error("Position has no mock deposit index");
+
+      const account = privateKeyToAccount(mockDepositKey(seed, Number(pos.deposit_index)));
+      assertDepositAddress(account, key);
+      return account;
+    },
+
+    async createDepositKey() {
+      const { data: index, error } = await sb.rpc("next_fund_deposit_index");
+      if (error) throw error;
+
+      const n = Number(index);
+      const address = privateKeyToAccount(mockDepositKey(seed, n)).address.toLowerCase() as Hex;
+
+      return {
+        address,
+        async commit(positionId: string) {
+          const { data: rows, error: updErr } = await sb
+            .from("fund_positions")
+            .update({ deposit_index: n })
+            .eq("id", positionId)
+            .eq("issued_deposit_address", address)
+            .is("deposit_index", null)
+            .select("id");
+          if (updErr) throw updErr;
+          if (!rows || rows.length === 0) throw new Error("Failed to bind deposit index");
+        },
+      };
+    },
+  };
+}
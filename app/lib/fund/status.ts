@@ -0,0 +1,154 @@
+// Fund position lifecycle (client-safe: no server imports here).
+// Every status write on fund_positions goes through transitionPosition() in ./transition,
+// which rejects anything not listed in FUND_STATUS_TABLE[from].next.
+
+export type FundStatus =
+  | "awaiting_funds"
+  | "confirming"
+  | "funded_locked"
+  | "swept_locked"
+  | "withdraw_requested"
+  | "withdraw_approved"
+  | "withdrawing"
+  | "withdrawn"
+  | "flagged"
+  | "refunded"
+  | "expired";
+
+export type FundBucket = "pending" | "active" | "closed";
+
+export type FundStep = {
+  to: FundStatus;
+  step: string; // short label shown as "Next: <step>"
+  auto: boolean; // driven by the protocol, not the user
+  exceptional?: boolean; // recovery paths, not shown as "Next" in the UI
+};
+
+export type FundStatusDef = {
+  title: string;
+  summary: string;
+  bucket: FundBucket;
+  next: FundStep[];
+};
+
+export const FUND_STATUS_TABLE: Record<FundStatus, FundStatusDef> = {
+  awaiting_funds: {
+    title: "Awaiting",
+    summary: "Send USDT (BEP-20) to the deposit address.",
+    bucket: "pending",
+    next: [
+      { to: "confirming", step: "confirm with tx hash", auto: false },
+      { to: "refunded", step: "refund partial deposit", auto: false, exceptional: true },
+      { to: "expired", step: "expiry", auto: true, exceptional: true },
+      { to: "flagged", step: "manual review", auto: true, exceptional: true },
+    ],
+  },
+  confirming: {
+    title: "Confirming",
+    summary: "Deposit seen on-chain. Waiting for confirmation depth.",
+    bucket: "pending",
+    next: [
+      { to: "funded_locked", step: "block confirmations", auto: true },
+      { to: "awaiting_funds", step: "reorg rollback", auto: true, exceptional: true },
+      { to: "flagged", step: "manual review", auto: true, exceptional: true },
+    ],
+  },
+  funded_locked: {
+    title: "Funded",
+    summary: "Deposit verified.",
+    bucket: "active",
+    next: [{ to: "swept_locked", step: "sweep", auto: true }],
+  },
+  swept_locked: {
+    title: "Allocated",
+    summary: "USDDD allocated. Accrual active. Withdraw unlocks after the lockup period.",
+    bucket: "active",
+    next: [
+      { to: "withdraw_requested", step: "request withdrawal", auto: false },
+      { to: "flagged", step: "mint review", auto: true, exceptional: true },
+    ],
+  },
+  withdraw_requested: {
+    title: "Withdrawal requested",
+    summary: "Accrual stopped. Waiting for operator approval.",
+    bucket: "active",
+    next: [
+      { to: "withdraw_approved", step: "operator approval", auto: false },
+      { to: "swept_locked", step: "request rejected", auto: false, exceptional: true },
+    ],
+  },
+  withdraw_approved: {
+    title: "Withdrawal approved",
+    summary: "Approved. Settlement queued.",
+    bucket: "active",
+    next: [{ to: "withdrawing", step: "settlement", auto: true }],
+  },
+  withdrawing: {
+    title: "Withdrawing",
+    summary: "Redeeming USDDD and sending USDT.",
+    bucket: "active",
+    next: [
+      { to: "withdrawn", step: "payout", auto: true },
+      { to: "flagged", step: "manual review", auto: true, exceptional: true },
+    ],
+  },
+  withdrawn: {
+    title: "Withdrawn",
+    summary: "USDDD redeemed and USDT paid out.",
+    bucket: "closed",
+    next: [],
+  },
+  flagged: {
+    title: "Under review",
+    summary: "Needs manual handling by the Fund operator.",
+    bucket: "closed",
+    next: [
+      { to: "swept_locked", step: "operator resolve", auto: false },
+      { to: "withdrawing", step: "operator retry settlement", auto: false },
+      { to: "refunded", step: "refund", auto: false },
+    ],
+  },
+  refunded: {
+    title: "Refunded",
+    summary: "Deposit returned to the sender.",
+    bucket: "closed",
+    next: [],
+  },
+  expired: {
+    title: "Expired",
+    summary: "No deposit before the address expired. Do not send funds to it.",
+    bucket: "closed",
+    next: [{ to: "flagged", step: "late deposit review", auto: true, exceptional: true }],
+  },
+};
+
+export const FUND_STATUSES = Object.keys(FUND_STATUS_TABLE) as FundStatus[];
+
+export function isFundStatus(s: unknown): s is FundStatus {
+  return typeof s === "string" && Object.prototype.hasOwnProperty.call(FUND_STATUS_TABLE, s);
+}
+
+export function nextSteps(status: unknown): FundStep[] {
+  return isFundStatus(status) ? FUND_STATUS_TABLE[status].next : [];
+}
+
+export function canTransition(from: unknown, to: FundStatus): boolean {
+  return nextSteps(from).some((s) => s.to === to);
+}
+
+export function statusesInBucket(bucket: FundBucket): FundStatus[] {
+  return FUND_STATUSES.filter((s) => FUND_STATUS_TABLE[s].bucket === bucket);
+}
+
+// UI stage text derived from the table (title + summary + allowed next steps)
+export function fundStage(status: unknown): { title: string; hint: string; next: FundStep[] } {
+  if (!isFundStatus(status)) {
+    const s = String(status ?? "");
+    return { title: s || "Unknown", hint: "Status reported by protocol.", next: [] };
+  }
+
+  const def = FUND_STATUS_TABLE[status];
+  const steps = def.next.filter((n) => !n.exceptional).map((n) => (n.auto ? `${n.step} (automatic)` : n.step));
+  const hint = steps.length ? `${def.summary} Next: ${steps.join(" / ")}.` : def.summary;
+  return { title: def.title, hint, next: def.next };
+}
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createWalletClient, http, Hex, formatUnits, parseUnits, type PublicClient } from "viem";
+import { chainClient, positionAsset } from "./chains";
+import { receiptOrNull, waitForFinalReceipt } from "./confirmations";
+import { ERC20_ABI, loadDepositAccount, topUpGasIfNeeded, type GasTopUp } from "./deposit-wallet";
+import { recordGasTx } from "./gas-ledger";
+import { lockupDays, unlockAtFrom } from "./lockup";
+import { fundSigner } from "./signer";
+import { assertStatus, transitionPosition, type FundActor } from "./transition";
+
+export type SweepResult = {
+  position_ref: string;
+  gas_topup_tx_hash: Hex | null;
+  sweep_tx_hash: Hex;
+  from: Hex;
+  to: Hex;
+  amount_usdt: number;
+  status: "swept_locked";
+};
+
+// A sweep broadcast by an earlier attempt: false if it reverted (moved nothing, send again),
+// otherwise true once final. RPC errors are thrown so the job retries instead of re-sending.
+async function sentSweepSettled(client: PublicClient, hash: Hex, chain: string): Promise<boolean> {
+  const r = await receiptOrNull(client, hash);
+  if (r && r.status === "reverted") return false;
+  await waitForFinalReceipt(client, hash, chain);
+  return true;
+}
+
+// Sweep the deposited token from a funded deposit EOA to its chain's treasury (tops up gas first if needed).
+// With no ref, picks any funded_locked position that has not been swept yet. The hash is kept in
+// sweep_pending_tx_hash from broadcast until the position moves to swept_locked.
+export async function sweepPosition(
+  sb: SupabaseClient,
+  opts: { ref?: string; actor: FundActor }
+): Promise<SweepResult> {
+  const ref = opts.ref ?? "";
+
+  // find a sweepable position
+  let q = sb
+    .from("fund_positions")
+    .select(
+      `
+      id,
+      position_ref,
+      issued_deposit_address,
+      chain,
+      token,
+      funded_usdt,
+      status,
+      deposit_tx_hash,
+      sweep_tx_hash,
+      sweep_pending_tx_hash,
+      gas_topup_tx_hash,
+      gas_topup_bnb,
+      gas_topup_at,
+      lockup_days
+    `
+    )
+    .eq("status", "funded_locked")
+    .is("sweep_tx_hash", null);
+
+  if (ref) q = q.eq("position_ref", ref);
+
+  const { data: pos, error } = await q.limit(1).single();
+  if (error || !pos) throw new Error("No sweepable position found");
+  assertStatus(pos.status, "funded_locked", "sweepable");
+
+  const signer = fundSigner(sb);
+  const depositAccount = await loadDepositAccount(signer, pos);
+
+  const asset = positionAsset(pos);
+  const usdt = asset.token.address;
+  const treasury = asset.chain.treasury;
+  const decimals = asset.token.decimals;
+
+  const publicClient = chainClient(asset.chain);
+  const depositWallet = createWalletClient({ account: depositAccount, transport: http(asset.chain.rpc_url) });
+
+  // ---- FUND AMOUNT (must be defined BEFORE gas estimation) ----
+  const fundedStr = String(pos.funded_usdt ?? "").trim();
+  const funded = Number(fundedStr);
+  if (!Number.isFinite(funded) || funded <= 0) {
+    throw new Error("Bad funded_usdt");
+  }
+
+  // Safe decimals conversion (no JS float math)
+  const amount = parseUnits(fundedStr, decimals);
+
+  // a sweep sent by an earlier (crashed / timed out) attempt is followed, never re-sent
+  let sweepHash = (pos.sweep_pending_tx_hash as Hex | null) ?? null;
+  if (sweepHash && !(await sentSweepSettled(publicClient, sweepHash, asset.chain.id))) {
+    const { error: cErr } = await sb
+      .from("fund_positions")
+      .update({ sweep_pending_tx_hash: null })
+      .eq("id", pos.id)
+      .eq("sweep_pending_tx_hash", sweepHash);
+    if (cErr) throw cErr;
+    sweepHash = null;
+  }
+
+  let topUp: GasTopUp | null = null;
+  if (!sweepHash) {
+    // 1) Auto gas top-up if needed (estimated + capped)
+    const sweepGas = await publicClient.estimateContractGas({
+      address: usdt,
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [treasury, amount],
+      account: depositAccount.address,
+    });
+
+    // only do one automated top-up per position in this sweep flow
+    topUp = await topUpGasIfNeeded(sb, publicClient, {
+      chain: asset.chain.id,
+      to: depositAccount.address,
+      gasUnits: sweepGas,
+      allowTopUp: !pos.gas_topup_tx_hash,
+      purpose: "sweep",
+      position_id: pos.id,
+      position_ref: pos.position_ref,
+    });
+
+    if (topUp) {
+      const { error: gErr } = await sb
+        .from("fund_positions")
+        .update({
+          gas_topup_tx_hash: topUp.hash,
+          gas_topup_bnb: Number(formatUnits(topUp.wei, 18)),
+          gas_topup_at: new Date().toISOString(),
+        })
+        .eq("id", pos.id);
+      if (gErr) throw gErr;
+      await recordGasTx(sb, publicClient, {
+        chain: asset.chain.id,
+        position_id: pos.id,
+        position_ref: pos.position_ref,
+        kind: "topup",
+        purpose: "sweep",
+        hash: topUp.hash,
+        valueWei: topUp.wei,
+      }).catch(() => null);
+    }
+
+    // sanity check balance to reduce failed txs
+    const usdtBal = await publicClient.readContract({
+      address: usdt,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      args: [depositAccount.address],
+    });
+
+    const usdtBalNum = Number(formatUnits(usdtBal, decimals));
+    if (!Number.isFinite(usdtBalNum) || usdtBal < amount) {
+      throw new Error(`Deposit address balance insufficient (${usdtBalNum} < ${funded})`);
+    }
+
+    sweepHash = await depositWallet.writeContract({
+      chain: null,
+      address: usdt,
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [treasury, amount],
+    });
+
+    const { error: hErr } = await sb
+      .from("fund_positions")
+      .update({ sweep_pending_tx_hash: sweepHash })
+      .eq("id", pos.id)
+      .eq("status", "funded_locked");
+    if (hErr) throw hErr;
+
+    await waitForFinalReceipt(publicClient, sweepHash, asset.chain.id);
+  }
+
+  await recordGasTx(sb, publicClient, {
+    chain: asset.chain.id,
+    position_id: pos.id,
+    position_ref: pos.position_ref,
+    kind: "fee",
+    purpose: "sweep",
+    hash: sweepHash,
+  }).catch(() => null);
+
+  const sweptAt = new Date();
+  const moved = await transitionPosition(sb, {
+    id: pos.id,
+    from: "funded_locked",
+    to: "swept_locked",
+    actor: opts.actor,
+    patch: {
+      sweep_tx_hash: sweepHash,
+      sweep_pending_tx_hash: null,
+      swept_at: sweptAt.toISOString(),
+      // lockup runs from the accrual start
+      unlock_at: unlockAtFrom(sweptAt, pos.lockup_days ?? lockupDays()),
+    },
+    requireNull: ["sweep_tx_hash"],
+  });
+  if (!moved) throw new Error(`Sweep tx ${sweepHash} sent but position was updated by someone else`);
+
+  return {
+    position_ref: pos.position_ref,
+    gas_topup_tx_hash: topUp?.hash ?? pos.gas_topup_tx_hash ?? null,
+    sweep_tx_hash: sweepHash,
+    from: depositAccount.address,
+    to: treasury,
+    amount_usdt: funded,
+    status: "swept_locked",
+  };
+}
@@ -0,0 +1,219 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { USDDD_CHAIN, fundChainById } from "./chains";
+
+// Full history of one position for the operator console: status events plus every table that
+// records a tx or a decision for it, merged into one list ordered by time.
+
+export type TimelineSource =
+  | "position"
+  | "event"
+  | "deposit"
+  | "job"
+  | "mint"
+  | "ops_tx"
+  | "replacement"
+  | "refund"
+  | "withdrawal"
+  | "reconciliation"
+  | "gas"
+  | "bind";
+
+export type TimelineEntry = {
+  at: string;
+  source: TimelineSource;
+  label: string;
+  status?: string | null;
+  actor?: string | null;
+  tx_hash?: string | null;
+  chain?: string | null; // chain the tx lives on (explorer link)
+  detail?: string | null;
+};
+
+// raw rows, read for display only: columns come back as text, numbers or null
+type Row = Record<string, string | null> & { created_at: string };
+
+async function rows(sb: SupabaseClient, table: string, positionId: string): Promise<Row[]> {
+  const { data, error } = await sb.from(table).select("*").eq("position_id", positionId).order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as Row[];
+}
+
+function chainOf(chainId: unknown): string | null {
+  try {
+    return chainId == null ? null : fundChainById(Number(chainId)).id;
+  } catch {
+    return null;
+  }
+}
+
+function actorOf(r: Row): string | null {
+  if (!r.actor_kind) return null;
+  return `${r.actor_kind}:${r.actor_source}${r.actor_id ? ` (${r.actor_id})` : ""}`;
+}
+
+export async function positionTimeline(sb: SupabaseClient, ref: string): Promise<{ position: Row; entries: TimelineEntry[] }> {
+  const { data: position, error } = await sb.from("fund_positions").select("*").eq("position_ref", ref).maybeSingle();
+  if (error) throw error;
+  if (!position) throw new Error("Position not found");
+
+  const id = String(position.id);
+  const chain = String(position.chain ?? "bsc");
+  const [events, deposits, jobs, mints, opsTxs, replacements, refunds, withdrawals, reconciliations, gas, binds] = await Promise.all([
+    rows(sb, "fund_position_events", id),
+    rows(sb, "fund_deposits", id),
+    rows(sb, "fund_jobs", id),
+    rows(sb, "fund_mints", id),
+    rows(sb, "fund_ops_txs", id),
+    rows(sb, "fund_ops_tx_replacements", id),
+    rows(sb, "fund_refunds", id),
+    rows(sb, "fund_withdrawals", id),
+    rows(sb, "fund_reconciliations", id),
+    rows(sb, "fund_gas_ledger", id),
+    rows(sb, "fund_bind_attempts", id),
+  ]);
+
+  const entries: TimelineEntry[] = [
+    {
+      at: position.created_at,
+      source: "position",
+      label: `issued ${position.issued_deposit_address} (${position.token ?? "usdt"} on ${chain})`,
+      status: "awaiting_funds",
+    },
+  ];
+
+  for (const e of events) {
+    entries.push({ at: e.created_at, source: "event", label: `${e.from_status} -> ${e.to_status}`, status: e.to_status, actor: actorOf(e), detail: e.note });
+  }
+  for (const d of deposits) {
+    entries.push({
+      at: d.created_at,
+      source: "deposit",
+      label: `transfer ${d.amount_usdt} from ${d.from_address}`,
+      status: d.status,
+      tx_hash: d.tx_hash,
+      chain,
+      detail: `block ${d.block_number}`,
+    });
+  }
+  for (const j of jobs) {
+    entries.push({
+      at: j.updated_at ?? j.created_at,
+      source: "job",
+      label: `${j.kind} job (${j.attempts} attempt${Number(j.attempts) === 1 ? "" : "s"})`,
+      status: j.status,
+      detail: j.last_error,
+    });
+  }
+  for (const m of mints) {
+    const approvals = [m.first_approved_by, m.second_approved_by].filter(Boolean).join(", ");
+    entries.push({
+      at: m.minted_at ?? m.updated_at ?? m.created_at,
+      source: "mint",
+      label: `mint ${m.amount_usddd} USDDD`,
+      status: m.status,
+      tx_hash: m.mint_tx_hash,
+      chain: USDDD_CHAIN,
+      detail: m.rejected_reason ?? (approvals ? `approved by ${approvals}` : null),
+    });
+  }
+  for (const o of opsTxs) {
+    entries.push({
+      at: o.created_at,
+      source: "ops_tx",
+      label: `${o.role} ${o.purpose} nonce ${o.nonce}${Number(o.bumps) ? ` (${o.bumps} bump${Number(o.bumps) === 1 ? "" : "s"})` : ""}`,
+      status: o.status,
+      tx_hash: o.tx_hash,
+      chain: chainOf(o.chain_id),
+      detail: o.error,
+    });
+  }
+  for (const r of replacements) {
+    entries.push({
+      at: r.created_at,
+      source: "replacement",
+      label: `${r.kind} ${r.old_tx_hash} -> ${r.new_tx_hash}`,
+      actor: r.actor,
+      tx_hash: r.new_tx_hash,
+      chain: chainOf(opsTxs.find((o) => o.id === r.ops_tx_id)?.chain_id),
+      detail: `gas price ${r.old_gas_price_wei} -> ${r.new_gas_price_wei} wei`,
+    });
+  }
+  for (const r of refunds) {
+    entries.push({
+      at: r.sent_at ?? r.updated_at ?? r.created_at,
+      source: "refund",
+      label: `refund ${r.amount_usdt} to ${r.to_address}`,
+      status: r.status,
+      actor: r.approved_by,
+      tx_hash: r.refund_tx_hash,
+      chain,
+      detail: r.rejected_reason ?? r.last_error,
+    });
+  }
+  for (const w of withdrawals) {
+    entries.push({
+      at: w.created_at,
+      source: "withdrawal",
+      label: `withdrawal ${w.payout_usdt} to ${w.to_address}`,
+      status: w.status,
+      actor: w.approved_by,
+      detail: w.rejected_reason ?? w.last_error,
+    });
+    if (w.burn_tx_hash) {
+      entries.push({ at: w.burned_at ?? w.updated_at ?? w.created_at, source: "withdrawal", label: "redeem burn", tx_hash: w.burn_tx_hash, chain: USDDD_CHAIN });
+    }
+    if (w.payout_tx_hash) {
+      entries.push({ at: w.settled_at ?? w.updated_at ?? w.created_at, source: "withdrawal", label: "payout", tx_hash: w.payout_tx_hash, chain });
+    }
+  }
+  for (const r of reconciliations) {
+    entries.push({
+      at: r.updated_at ?? r.created_at,
+      source: "reconciliation",
+      label: `${r.mode} ${r.direction} ${r.drift_usddd} USDDD (${r.action})`,
+      status: r.status,
+      actor: actorOf(r),
+      tx_hash: r.tx_hash,
+      chain: USDDD_CHAIN,
+      detail: r.error,
+    });
+  }
+  for (const g of gas) {
+    entries.push({
+      at: g.created_at,
+      source: "gas",
+      label: `${g.kind} (${g.purpose}) value ${g.value_bnb} fee ${g.fee_bnb}`,
+      tx_hash: g.tx_hash,
+      chain: g.chain ?? chain,
+    });
+  }
+
+  for (const b of binds) {
+    entries.push({
+      at: b.created_at,
+      source: "bind",
+      label: `bind to ${b.terminal_user_id} (${b.proof}${b.signer_address ? ` ${b.signer_address}` : ""})`,
+      status: b.outcome,
+      actor: b.source,
+      detail: b.reason,
+    });
+  }
+
+  // Positions from before the per-table ledgers only carry their txs on the row itself
+  const seen = new Set(entries.map((e) => e.tx_hash).filter(Boolean));
+  const own: [string, string | null, string | null, string][] = [
+    ["deposit", position.deposit_tx_hash, position.funded_at, chain],
+    ["gas top-up", position.gas_topup_tx_hash, position.gas_topup_at, chain],
+    ["sweep", position.sweep_tx_hash, position.swept_at, chain],
+    ["USDDD mint", position.usddd_transfer_tx_hash, position.usddd_transferred_at ?? position.usddd_minted_at, USDDD_CHAIN],
+    ["refund", position.refund_tx_hash, position.refunded_at, chain],
+    ["withdraw", position.withdraw_tx_hash, position.withdrawn_at, chain],
+  ];
+  for (const [label, hash, at, txChain] of own) {
+    if (!hash || seen.has(hash)) continue;
+    entries.push({ at: at ?? position.updated_at ?? position.created_at, source: "position", label, tx_hash: hash, chain: txChain });
+  }
+
+  entries.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  return { position, entries };
+}
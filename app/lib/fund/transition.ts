@@ -0,0 +1,80 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { canTransition, isFundStatus, nextSteps, type FundStatus } from "./status";
+
+// Who/what moved the position (stored on fund_position_events)
+export type FundActor = {
+  kind: "user" | "system" | "operator";
+  source: string; // route or job name, e.g. "fund/confirm"
+  id?: string | null; // terminal_user_id / operator id when known
+};
+
+export class FundTransitionError extends Error {
+  constructor(
+    message: string,
+    readonly from: string,
+    readonly to: string
+  ) {
+    super(message);
+    this.name = "FundTransitionError";
+  }
+}
+
+export function assertStatus(current: unknown, allowed: FundStatus | FundStatus[], action: string): FundStatus {
+  const list = Array.isArray(allowed) ? allowed : [allowed];
+  if (!isFundStatus(current) || !list.includes(current)) {
+    throw new Error(`Position not ${action} in status=${current}`);
+  }
+  return current;
+}
+
+export function assertTransition(from: unknown, to: FundStatus): void {
+  if (!canTransition(from, to)) {
+    const allowed = nextSteps(from).map((s) => s.to);
+    throw new FundTransitionError(
+      `Illegal transition ${String(from)} -> ${to} (allowed: ${allowed.join(", ") || "none"})`,
+      String(from),
+      to
+    );
+  }
+}
+
+type TransitionArgs = {
+  id: string;
+  from: FundStatus;
+  to: FundStatus;
+  actor: FundActor;
+  patch?: Record<string, unknown>;
+  requireNull?: string[]; // extra overwrite guards, e.g. ["deposit_tx_hash"]
+  note?: string | null;
+};
+
+// DB-guarded status change: only applies if the row is still in `from`.
+// Returns false when someone else moved the position first (nothing recorded).
+export async function transitionPosition(sb: SupabaseClient, args: TransitionArgs): Promise<boolean> {
+  assertTransition(args.from, args.to);
+
+  let q = sb
+    .from("fund_positions")
+    .update({ ...(args.patch ?? {}), status: args.to })
+    .eq("id", args.id)
+    .eq("status", args.from);
+
+  for (const col of args.requireNull ?? []) q = q.is(col, null);
+
+  const { data: rows, error } = await q.select("id");
+  if (error) throw error;
+  if (!rows || rows.length === 0) return false;
+
+  const { error: evErr } = await sb.from("fund_position_events").insert({
+    position_id: args.id,
+    from_status: args.from,
+    to_status: args.to,
+    actor_kind: args.actor.kind,
+    actor_source: args.actor.source,
+    actor_id: args.actor.id ?? null,
+    note: args.note ?? null,
+  });
+  if (evErr) throw evErr;
+
+  return true;
+}
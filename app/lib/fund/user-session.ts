@@ -0,0 +1,151 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { env } from "./env";
+import { cookieValue, signToken, tokenSecret, verifyToken } from "./signed-token";
+
+// Scan login for Fund users (user scope in route-auth.ts).
+// Handshake: the Terminal sends the user to Scan with a login token it signed with the shared
+// FUND_TERMINAL_LOGIN_SECRET ({ sub: terminal_user_id, name?, jti, exp } at most 5 minutes out).
+// Scan checks it, spends the jti once and starts a session: a fund_user_sessions row plus a
+// short-lived token (FUND_SESSION_SECRET) in an httpOnly cookie.
+// Legacy migration only: a Terminal session_id that older builds kept in localStorage can be traded
+// once for a session (checked against dd_sessions) while FUND_LEGACY_SESSION_LOGIN=1, and never
+// after LEGACY_SESSION_LOGIN_ENDS. There is no way to paste one any more.
+// Logging out or an operator revocation sets revoked_at; every request re-checks the row.
+
+export const USER_COOKIE = "fund_session";
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+const LOGIN_TOKEN_MAX_SECONDS = 5 * 60;
+const LEGACY_SESSION_LOGIN_ENDS = Date.parse("2026-12-31T00:00:00Z");
+
+export type UserSession = { id: string; terminal_user_id: string; username: string | null; exp: number };
+
+type LoginVia = "terminal_token" | "session_id";
+
+function ttlSeconds(): number {
+  const n = Number(env("FUND_USER_SESSION_SECONDS", String(DEFAULT_TTL_SECONDS)));
+  return Number.isFinite(n) && n >= 60 ? Math.floor(n) : DEFAULT_TTL_SECONDS;
+}
+
+async function startSession(
+  sb: SupabaseClient,
+  args: { terminalUserId: string; username: string | null; via: LoginVia; jti?: string; userAgent?: string | null }
+): Promise<{ session: UserSession; token: string }> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds();
+  const { data, error } = await sb
+    .from("fund_user_sessions")
+    .insert({
+      terminal_user_id: args.terminalUserId,
+      username: args.username,
+      via: args.via,
+      login_jti: args.jti ?? null,
+      user_agent: args.userAgent?.slice(0, 300) ?? null,
+      expires_at: new Date(exp * 1000).toISOString(),
+    })
+    .select("id")
+    .single();
+
+  // unique login_jti: a replayed terminal token fails here
+  if (error?.code === "23505") throw new Error("Login token already used");
+  if (error) throw error;
+
+  const session = { id: String(data.id), terminal_user_id: args.terminalUserId, username: args.username, exp };
+  return { session, token: signToken(tokenSecret("FUND_SESSION_SECRET"), { sid: session.id, sub: session.terminal_user_id, exp }) };
+}
+
+export async function loginWithTerminalToken(sb: SupabaseClient, loginToken: string, userAgent?: string | null) {
+  const body = verifyToken(tokenSecret("FUND_TERMINAL_LOGIN_SECRET"), loginToken);
+  const sub = typeof body?.sub === "string" ? body.sub.trim() : "";
+  const jti = typeof body?.jti === "string" ? body.jti.trim() : "";
+  if (!body || !sub || !jti) throw new Error("Invalid or expired login token");
+  if (body.exp * 1000 - Date.now() > LOGIN_TOKEN_MAX_SECONDS * 1000) throw new Error("Login token lifetime too long");
+
+  const username = typeof body.name === "string" ? body.name : null;
+  return startSession(sb, { terminalUserId: sub, username, via: "terminal_token", jti, userAgent });
+}
+
+export function legacySessionLoginOpen(): boolean {
+  return env("FUND_LEGACY_SESSION_LOGIN", "0") === "1" && Date.now() < LEGACY_SESSION_LOGIN_ENDS;
+}
+
+export async function loginWithLegacySessionId(sb: SupabaseClient, sessionId: string, userAgent?: string | null) {
+  if (!legacySessionLoginOpen()) throw new Error("Session id sign-in has ended; open Fund from the Terminal");
+
+  const { data: sess, error } = await sb
+    .from("dd_sessions")
+    .select("user_id, username")
+    .eq("session_id", sessionId.trim())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!sess?.user_id) throw new Error("Session not found");
+  return startSession(sb, {
+    terminalUserId: String(sess.user_id),
+    username: sess.username ?? null,
+    via: "session_id",
+    jti: `session_id:${randomUUID()}`,
+    userAgent,
+  });
+}
+
+// Session id from a validly signed, unexpired cookie token, without the DB check (revocation is
+// not seen here); for request accounting such as the rate limiter, never for access decisions.
+export function signedSessionId(token: string | null | undefined): string | null {
+  const body = verifyToken(tokenSecret("FUND_SESSION_SECRET"), token);
+  return typeof body?.sid === "string" && body.sid ? body.sid : null;
+}
+
+// null for a missing, forged, expired or revoked session
+export async function userSessionFromRequest(sb: SupabaseClient, req: Request): Promise<UserSession | null> {
+  const token = cookieValue(req.headers.get("cookie"), USER_COOKIE);
+  if (!token) return null;
+
+  const body = verifyToken(tokenSecret("FUND_SESSION_SECRET"), token);
+  const sid = typeof body?.sid === "string" ? body.sid : "";
+  if (!body || !sid) return null;
+
+  const { data, error } = await sb
+    .from("fund_user_sessions")
+    .select("id, terminal_user_id, username, expires_at, revoked_at")
+    .eq("id", sid)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.revoked_at || Date.parse(data.expires_at) <= Date.now()) return null;
+  return { id: String(data.id), terminal_user_id: String(data.terminal_user_id), username: data.username ?? null, exp: body.exp };
+}
+
+export async function revokeUserSession(sb: SupabaseClient, id: string, reason: string): Promise<void> {
+  const { error } = await sb
+    .from("fund_user_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq("id", id)
+    .is("revoked_at", null);
+  if (error) throw error;
+}
+
+// Every live session of one terminal user (logout everywhere, or an operator after a compromise)
+export async function revokeUserSessions(sb: SupabaseClient, terminalUserId: string, reason: string): Promise<number> {
+  const { data, error } = await sb
+    .from("fund_user_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq("terminal_user_id", terminalUserId)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+export function userSessionCookie(token: string, exp: number) {
+  return {
+    name: USER_COOKIE,
+    value: token,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    expires: new Date(exp * 1000),
+  };
+}
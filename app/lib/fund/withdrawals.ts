@@ -0,0 +1,437 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  Hex,
+  formatUnits,
+  isAddress,
+  parseAbi,
+  parseUnits,
+  type PublicClient,
+} from "viem";
+import { closeAccrual } from "./accrual-ledger";
+import { chainClient, fundChain, positionAsset, USDDD_CHAIN } from "./chains";
+import { receiptOrNull, waitForFinalReceipt } from "./confirmations";
+import { ERC20_ABI, loadDepositAccount, topUpGasIfNeeded } from "./deposit-wallet";
+import { env } from "./env";
+import { recordGasTx } from "./gas-ledger";
+import { enqueueJob, retryJob } from "./jobs";
+import { liveOpsTx, sendOpsTx, settledOpsTx, waitForOpsTx } from "./ops-tx";
+import { fundSigner } from "./signer";
+import { assertStatus, transitionPosition, type FundActor } from "./transition";
+
+// Withdrawals of allocated positions (swept_locked) after their lockup.
+// fund_withdrawals: requested -> approved (operator) -> settling -> settled; requested -> rejected.
+// Position:  swept_locked -> withdraw_requested -> withdraw_approved -> withdrawing -> withdrawn.
+// Settlement runs as a "withdraw" job: burn the allocated USDDD held by the deposit EOA, then
+// pay principal + ledger accrual (booked up to the request) from the payout wallet, in the token and
+// on the chain the position was funded with. The burn always happens on USDDD_CHAIN. Each step
+// records its tx hash first and is skipped once recorded, so retries never double-send.
+
+export type WithdrawalStatus = "requested" | "approved" | "settling" | "settled" | "rejected";
+
+export type FundWithdrawal = {
+  id: string;
+  position_id: string;
+  position_ref: string;
+  terminal_user_id: string;
+  to_address: string;
+  usddd_principal: number | string;
+  usddd_accrued: number | string;
+  payout_usdt: number | string;
+  status: WithdrawalStatus;
+  approved_by: string | null;
+  rejected_reason: string | null;
+  gas_topup_tx_hash: string | null;
+  burn_tx_hash: string | null;
+  payout_tx_hash: string | null;
+  last_error: string | null;
+  created_at: string;
+};
+
+const USDDD_ABI = parseAbi([
+  "function balanceOf(address) view returns (uint256)",
+  "function burn(uint256 amount)",
+]);
+
+// USDDD is 6 decimals on-chain (same lock as mint)
+const USDDD_DECIMALS = 6;
+
+async function moveWithdrawal(
+  sb: SupabaseClient,
+  id: string,
+  from: WithdrawalStatus,
+  to: WithdrawalStatus,
+  patch: Record<string, unknown> = {}
+): Promise<FundWithdrawal | null> {
+  const { data, error } = await sb
+    .from("fund_withdrawals")
+    .update({ ...patch, status: to, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", from)
+    .select("*");
+  if (error) throw error;
+  return data && data.length ? (data[0] as FundWithdrawal) : null;
+}
+
+// Settlement bookkeeping (tx hashes, burned_at): checked, since a lost hash would let a retry
+// burn or pay out a second time
+async function patchWithdrawal(
+  sb: SupabaseClient,
+  id: string,
+  patch: Record<string, unknown>,
+  match: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await sb
+    .from("fund_withdrawals")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .match({ ...match, id });
+  if (error) throw error;
+}
+
+export async function requestWithdrawal(
+  sb: SupabaseClient,
+  opts: { ref: string; terminalUserId: string; toAddress: string }
+): Promise<FundWithdrawal> {
+  if (!isAddress(opts.toAddress)) throw new Error("Bad to_address");
+
+  const { data: pos, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, status, terminal_user_id, usddd_allocated, usddd_transfer_tx_hash, unlock_at")
+    .eq("position_ref", opts.ref)
+    .limit(1)
+    .single();
+
+  if (error || !pos) throw new Error("Position not found");
+  if (!pos.terminal_user_id || pos.terminal_user_id !== opts.terminalUserId) throw new Error("Position is not bound to this session");
+  assertStatus(pos.status, "swept_locked", "withdrawable");
+  if (!pos.usddd_transfer_tx_hash) throw new Error("USDDD allocation not complete");
+
+  const now = new Date();
+  if (!pos.unlock_at) throw new Error("Position has no unlock date");
+  if (Date.parse(pos.unlock_at) > now.getTime()) throw new Error(`Position locked until ${pos.unlock_at}`);
+
+  const principal = Number(pos.usddd_allocated ?? 0);
+  if (!Number.isFinite(principal) || principal <= 0) throw new Error("Bad usddd_allocated");
+
+  const actor: FundActor = { kind: "user", source: "fund/withdrawals", id: opts.terminalUserId };
+
+  // stop the accrual clock first, then freeze the ledger total into the payout
+  const moved = await transitionPosition(sb, {
+    id: pos.id,
+    from: "swept_locked",
+    to: "withdraw_requested",
+    actor,
+    patch: { withdraw_requested_at: now.toISOString() },
+  });
+  if (!moved) throw new Error("Position changed; try again");
+
+  try {
+    const accrued = await closeAccrual(sb, pos.id);
+
+    const { data: w, error: wErr } = await sb
+      .from("fund_withdrawals")
+      .insert({
+        position_id: pos.id,
+        position_ref: pos.position_ref,
+        terminal_user_id: opts.terminalUserId,
+        to_address: opts.toAddress.toLowerCase(),
+        usddd_principal: principal,
+        usddd_accrued: accrued,
+        payout_usdt: Number((principal + accrued).toFixed(6)),
+        status: "requested",
+      })
+      .select("*")
+      .single();
+    if (wErr) throw wErr;
+
+    return w as FundWithdrawal;
+  } catch (e) {
+    // nothing to approve: reopen the position (accrual resumes from where it was booked)
+    await transitionPosition(sb, {
+      id: pos.id,
+      from: "withdraw_requested",
+      to: "swept_locked",
+      actor,
+      patch: { withdraw_requested_at: null },
+      note: "withdrawal request failed",
+    });
+    throw e;
+  }
+}
+
+export async function approveWithdrawal(sb: SupabaseClient, id: string, operator: string): Promise<FundWithdrawal> {
+  const w = await moveWithdrawal(sb, id, "requested", "approved", {
+    approved_by: operator,
+    approved_at: new Date().toISOString(),
+  });
+  if (!w) throw new Error("Withdrawal not in requested state");
+
+  await transitionPosition(sb, {
+    id: w.position_id,
+    from: "withdraw_requested",
+    to: "withdraw_approved",
+    actor: { kind: "operator", source: "fund/withdrawals/approve", id: operator },
+    note: `withdrawal ${id}`,
+  });
+
+  await enqueueJob(sb, { kind: "withdraw", position_id: w.position_id, position_ref: w.position_ref });
+  return w;
+}
+
+export async function rejectWithdrawal(sb: SupabaseClient, id: string, operator: string, reason: string): Promise<FundWithdrawal> {
+  const w = await moveWithdrawal(sb, id, "requested", "rejected", { approved_by: operator, rejected_reason: reason });
+  if (!w) throw new Error("Withdrawal not in requested state");
+
+  // back to allocated; accrual resumes from where the ledger was booked
+  await transitionPosition(sb, {
+    id: w.position_id,
+    from: "withdraw_requested",
+    to: "swept_locked",
+    actor: { kind: "operator", source: "fund/withdrawals/reject", id: operator },
+    patch: { withdraw_requested_at: null },
+    note: reason,
+  });
+  return w;
+}
+
+// Operator exit for a position flagged during settlement (audit note required):
+// "withdrawing" retries the settlement job; "swept_locked" drops the withdrawal, only while
+// nothing was burned, and accrual resumes as after a rejection.
+export async function resolveFlaggedWithdrawal(
+  sb: SupabaseClient,
+  pos: { id: string; position_ref: string },
+  operator: string,
+  to: "withdrawing" | "swept_locked",
+  note: string
+): Promise<FundWithdrawal> {
+  const { data: found, error } = await sb
+    .from("fund_withdrawals")
+    .select("*")
+    .eq("position_id", pos.id)
+    .in("status", ["approved", "settling"])
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!found) throw new Error("No open withdrawal for position");
+
+  const w = found as FundWithdrawal;
+  const actor: FundActor = { kind: "operator", source: "fund/admin/actions", id: operator };
+
+  if (to === "withdrawing") {
+    const moved = await transitionPosition(sb, { id: pos.id, from: "flagged", to: "withdrawing", actor, note: `withdrawal ${w.id}: ${note}` });
+    if (!moved) throw new Error("Position is no longer flagged");
+    await retryJob(sb, { kind: "withdraw", position_id: pos.id, position_ref: pos.position_ref });
+    return w;
+  }
+
+  if (w.burn_tx_hash) throw new Error("USDDD already burned for this withdrawal; retry the settlement instead");
+  const dropped = await moveWithdrawal(sb, w.id, w.status, "rejected", { rejected_reason: `resolved by ${operator}: ${note}` });
+  if (!dropped) throw new Error("Withdrawal changed concurrently; reload");
+
+  const moved = await transitionPosition(sb, {
+    id: pos.id,
+    from: "flagged",
+    to: "swept_locked",
+    actor,
+    patch: { withdraw_requested_at: null },
+    note: `withdrawal ${w.id} dropped: ${note}`,
+  });
+  if (!moved) throw new Error("Position is no longer flagged");
+  return dropped;
+}
+
+// A recorded tx that reverted moved nothing and may be resent; otherwise wait until final.
+// Any RPC error other than "no receipt yet" is thrown: the job retries instead of re-burning.
+async function settledOnChain(client: PublicClient, hash: Hex): Promise<boolean> {
+  const r = await receiptOrNull(client, hash);
+  if (r && r.status === "reverted") return false;
+  await waitForFinalReceipt(client, hash, USDDD_CHAIN);
+  return true;
+}
+
+// Job executor for kind "withdraw"
+export async function settleWithdrawal(sb: SupabaseClient, ref: string, actor: FundActor): Promise<FundWithdrawal> {
+  const { data: pos, error } = await sb
+    .from("fund_positions")
+    .select("id, position_ref, issued_deposit_address, chain, token, status")
+    .eq("position_ref", ref)
+    .limit(1)
+    .single();
+  if (error || !pos) throw new Error("Position not found");
+
+  const { data: found, error: wErr } = await sb
+    .from("fund_withdrawals")
+    .select("*")
+    .eq("position_id", pos.id)
+    .in("status", ["approved", "settling"])
+    .limit(1)
+    .maybeSingle();
+  if (wErr) throw wErr;
+  if (!found) throw new Error("No approved withdrawal for position");
+
+  let w = found as FundWithdrawal;
+
+  if (String(pos.status) === "withdraw_approved") {
+    await transitionPosition(sb, { id: pos.id, from: "withdraw_approved", to: "withdrawing", actor, note: `withdrawal ${w.id}` });
+  } else {
+    assertStatus(pos.status, "withdrawing", "settleable");
+  }
+  if (w.status === "approved") w = (await moveWithdrawal(sb, w.id, "approved", "settling")) ?? w;
+
+  const home = chainClient(USDDD_CHAIN);
+  const token = env("BSC_USDDD_ADDRESS", env("NEXT_PUBLIC_USDDD_TOKEN_BEP20")).toLowerCase() as Hex;
+  const asset = positionAsset(pos);
+  const usdt = asset.token.address;
+  const decimals = asset.token.decimals;
+  const client = chainClient(asset.chain);
+  const signer = fundSigner(sb);
+
+  try {
+    // 1) Redeem: burn the allocated USDDD from the deposit EOA
+    let burnTx = (w.burn_tx_hash as Hex | null) ?? null;
+    if (burnTx && !(await settledOnChain(home, burnTx))) {
+      await patchWithdrawal(sb, w.id, { burn_tx_hash: null }, { burn_tx_hash: burnTx });
+      burnTx = null;
+    }
+
+    if (!burnTx) {
+      const depositAccount = await loadDepositAccount(signer, pos);
+      const principalRaw = parseUnits(String(w.usddd_principal), USDDD_DECIMALS);
+      const withAccrualRaw = principalRaw + parseUnits(Number(w.usddd_accrued).toFixed(USDDD_DECIMALS), USDDD_DECIMALS);
+
+      const bal = await home.readContract({ address: token, abi: USDDD_ABI, functionName: "balanceOf", args: [depositAccount.address] });
+      // accrual topped up on-chain by reconciliation (reconcile.ts) is redeemed too
+      const amount = bal >= withAccrualRaw ? withAccrualRaw : principalRaw;
+      if (bal < amount) {
+        await transitionPosition(sb, {
+          id: pos.id,
+          from: "withdrawing",
+          to: "flagged",
+          actor,
+          note: `withdrawal ${w.id}: USDDD balance ${formatUnits(bal, USDDD_DECIMALS)} < ${w.usddd_principal}`,
+        });
+        throw new Error("Deposit address USDDD balance below allocation");
+      }
+
+      const gas = await home.estimateContractGas({
+        address: token,
+        abi: USDDD_ABI,
+        functionName: "burn",
+        args: [amount],
+        account: depositAccount.address,
+      });
+
+      const topUp = await topUpGasIfNeeded(sb, home, {
+        chain: USDDD_CHAIN,
+        to: depositAccount.address,
+        gasUnits: gas,
+        allowTopUp: !w.gas_topup_tx_hash,
+        purpose: "withdraw",
+        position_id: pos.id,
+        position_ref: pos.position_ref,
+      });
+      if (topUp) {
+        await patchWithdrawal(sb, w.id, { gas_topup_tx_hash: topUp.hash, gas_topup_bnb: Number(formatUnits(topUp.wei, 18)) });
+        await recordGasTx(sb, home, {
+          chain: USDDD_CHAIN,
+          position_id: pos.id,
+          position_ref: pos.position_ref,
+          kind: "topup",
+          purpose: "withdraw",
+          hash: topUp.hash,
+          valueWei: topUp.wei,
+        }).catch(() => null);
+      }
+
+      const depositWallet = createWalletClient({ account: depositAccount, transport: http(fundChain(USDDD_CHAIN).rpc_url) });
+      burnTx = await depositWallet.writeContract({
+        chain: null,
+        address: token,
+        abi: USDDD_ABI,
+        functionName: "burn",
+        args: [amount],
+      });
+      await patchWithdrawal(sb, w.id, { burn_tx_hash: burnTx });
+
+      await waitForFinalReceipt(home, burnTx, USDDD_CHAIN);
+      await recordGasTx(sb, home, {
+        chain: USDDD_CHAIN,
+        position_id: pos.id,
+        position_ref: pos.position_ref,
+        kind: "fee",
+        purpose: "withdraw",
+        hash: burnTx,
+      }).catch(() => null);
+      await patchWithdrawal(sb, w.id, { burned_at: new Date().toISOString() });
+    }
+
+    // 2) Pay out principal + accrual from the payout wallet, on the position's chain/token
+    let payoutTx = (w.payout_tx_hash as Hex | null) ?? null;
+    if (payoutTx) {
+      const settled = await settledOpsTx(sb, client, payoutTx);
+      if (!settled) await patchWithdrawal(sb, w.id, { payout_tx_hash: null }, { payout_tx_hash: payoutTx });
+      payoutTx = settled;
+    }
+
+    if (!payoutTx) {
+      // a payout sent by an earlier (crashed / timed out) attempt is followed, never re-sent
+      let sent = await liveOpsTx(sb, pos.id, "withdraw_payout");
+      if (!sent) {
+        const payoutAccount = await signer.getAccount({ role: "payout" });
+        const amount = parseUnits(String(w.payout_usdt), decimals);
+
+        const bal = await client.readContract({ address: usdt, abi: ERC20_ABI, functionName: "balanceOf", args: [payoutAccount.address] });
+        if (bal < amount) throw new Error(`Payout wallet balance insufficient (${formatUnits(bal, decimals)} < ${w.payout_usdt})`);
+
+        sent = await sendOpsTx(
+          sb,
+          client,
+          "payout",
+          { to: usdt, data: encodeFunctionData({ abi: ERC20_ABI, functionName: "transfer", args: [w.to_address.toLowerCase() as Hex, amount] }) },
+          { purpose: "withdraw_payout", position_id: pos.id, position_ref: pos.position_ref }
+        );
+      }
+      await patchWithdrawal(sb, w.id, { payout_tx_hash: sent });
+
+      // a speed-up changes the hash: store the one that mined
+      payoutTx = await waitForOpsTx(sb, client, sent);
+      if (payoutTx !== sent) await patchWithdrawal(sb, w.id, { payout_tx_hash: payoutTx });
+    }
+
+    const nowIso = new Date().toISOString();
+    const done = await moveWithdrawal(sb, w.id, "settling", "settled", { settled_at: nowIso, last_error: null });
+
+    await transitionPosition(sb, {
+      id: pos.id,
+      from: "withdrawing",
+      to: "withdrawn",
+      actor,
+      patch: { withdraw_tx_hash: payoutTx, withdrawn_at: nowIso },
+      requireNull: ["withdraw_tx_hash"],
+      note: `withdrawal ${w.id}`,
+    });
+
+    return done ?? { ...w, status: "settled", burn_tx_hash: burnTx, payout_tx_hash: payoutTx };
+  } catch (e: unknown) {
+    await sb
+      .from("fund_withdrawals")
+      .update({ last_error: e instanceof Error ? e.message : String(e), updated_at: new Date().toISOString() })
+      .eq("id", w.id);
+    throw e;
+  }
+}
+
+export async function listWithdrawals(
+  sb: SupabaseClient,
+  filter: { ref?: string; status?: WithdrawalStatus }
+): Promise<FundWithdrawal[]> {
+  let q = sb.from("fund_withdrawals").select("*").order("created_at", { ascending: false }).limit(200);
+  if (filter.ref) q = q.eq("position_ref", filter.ref);
+  if (filter.status) q = q.eq("status", filter.status);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as FundWithdrawal[];
+}
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Maintenance gate shared by every API route (DB-authoritative: rpc_admin_flags, owned by the Terminal).
+// Left open, never gated (not even by pause_all or a flags outage): logins (/api/fund/session,
+// /api/fund/admin/session), operator read-only views, /api/flags and /api/meta.
+// ROUTE_PAUSE_FLAGS says which flags close which route; pause_all closes all of them. Flags the
+// rpc does not return yet (pause_fund_issue, pause_fund_mint, pause_golden, pause_reason,
+// pause_until) read as unset. Flags are cached for MAINTENANCE_FLAGS_TTL_MS (default 5s) per
+// instance; if they cannot be read the gate fails closed.
+// A closed route answers 503 { ok: false, paused: true, flag, reason, until, error } and, when
+// pause_until is known, Retry-After.
+// BYPASS_PAUSE=1 (staging, incident dashboards) lifts the gate for the public read-only routes in
+// BYPASSABLE_ROUTES only, never for routes that move funds.
+
+export type PauseFlag =
+  | "pause_all"
+  | "pause_reserve"
+  | "pause_stats_ingest"
+  | "pause_fund_issue"
+  | "pause_fund_mint"
+  | "pause_golden";
+
+export type AdminFlags = Partial<Record<PauseFlag, boolean>> & {
+  pause_reason?: string | null;
+  pause_until?: string | null;
+};
+
+export const ROUTE_PAUSE_FLAGS = {
+  "/api/activity/24h": [],
+  "/api/boxes/balances": [],
+  "/api/stats/summary": [],
+  "/api/golden/today": ["pause_golden"],
+  "/api/golden-finds/latest": ["pause_golden"],
+  "/api/golden-finds/payment": ["pause_golden"],
+  "/api/leaderboards/golden-winners": ["pause_golden"],
+  "/api/fund/summary": [],
+  "/api/fund/reserves": [],
+  "/api/fund/positions": [],
+  "/api/fund/issue-address": ["pause_reserve", "pause_fund_issue"],
+  "/api/fund/confirm": ["pause_reserve"],
+  "/api/fund/bind": ["pause_reserve"],
+  "/api/fund/refunds": ["pause_reserve"],
+  "/api/fund/refunds/approve": ["pause_reserve"],
+  "/api/fund/refunds/reject": ["pause_reserve"],
+  "/api/fund/withdrawals": ["pause_reserve"],
+  "/api/fund/withdrawals/approve": ["pause_reserve"],
+  "/api/fund/withdrawals/reject": ["pause_reserve"],
+  "/api/fund/sweep": ["pause_reserve"],
+  "/api/fund/mint": ["pause_reserve", "pause_fund_mint"],
+  "/api/fund/mint/approve": ["pause_reserve", "pause_fund_mint"],
+  "/api/fund/mint/reject": ["pause_reserve"],
+  "/api/fund/burn-excess": ["pause_reserve"],
+  "/api/fund/watch": ["pause_reserve"],
+  "/api/fund/jobs/run": ["pause_reserve"],
+  "/api/fund/gas/dust": ["pause_reserve"],
+  "/api/fund/reconcile": ["pause_reserve"],
+  "/api/fund/admin/actions": ["pause_reserve"],
+  "/api/fund/ops-txs/cancel": ["pause_reserve"],
+  "/api/fund/ops-txs/resolve": ["pause_reserve"],
+  "/api/fund/accrual/run": ["pause_reserve"],
+  "/api/fund/keys/rekey": ["pause_reserve"],
+  "/api/fund/keys/recover": ["pause_reserve"],
+  "/api/fund/reserves/publish": ["pause_reserve"],
+} as const satisfies Record<string, readonly PauseFlag[]>;
+
+export type GatedRoute = keyof typeof ROUTE_PAUSE_FLAGS;
+
+const BYPASSABLE_ROUTES: ReadonlySet<GatedRoute> = new Set<GatedRoute>([
+  "/api/activity/24h",
+  "/api/boxes/balances",
+  "/api/stats/summary",
+  "/api/golden/today",
+  "/api/golden-finds/latest",
+  "/api/leaderboards/golden-winners",
+  "/api/fund/summary",
+  "/api/fund/reserves",
+]);
+
+const FLAG_REASONS: Record<PauseFlag, string> = {
+  pause_all: "Scan is under maintenance",
+  pause_reserve: "Reserve operations are paused",
+  pause_stats_ingest: "Stats ingest is paused",
+  pause_fund_issue: "New fund positions are paused",
+  pause_fund_mint: "USDDD minting is paused",
+  pause_golden: "Golden finds are paused",
+};
+
+const DEFAULT_TTL_MS = 5_000;
+
+// null = flags could not be read
+let cached: { at: number; flags: Promise<AdminFlags | null> } | null = null;
+
+function ttlMs(): number {
+  const n = Number(process.env.MAINTENANCE_FLAGS_TTL_MS ?? DEFAULT_TTL_MS);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_TTL_MS;
+}
+
+async function readFlags(sb: SupabaseClient): Promise<AdminFlags | null> {
+  try {
+    const { data, error } = await sb.rpc("rpc_admin_flags");
+    if (error) return null;
+    const row = Array.isArray(data) ? data[0] : data;
+    return row && typeof row === "object" ? (row as AdminFlags) : {};
+  } catch {
+    return null;
+  }
+}
+
+export async function maintenanceFlags(sb: SupabaseClient): Promise<AdminFlags | null> {
+  if (!cached || Date.now() - cached.at >= ttlMs()) {
+    cached = { at: Date.now(), flags: readFlags(sb) };
+  }
+  return cached.flags;
+}
+
+// True when the flag (or pause_all) is set, or the flags cannot be read
+export async function isPaused(sb: SupabaseClient, flag: PauseFlag): Promise<boolean> {
+  const flags = await maintenanceFlags(sb);
+  return !flags || flags.pause_all === true || flags[flag] === true;
+}
+
+function pausedResponse(flag: PauseFlag | null, flags: AdminFlags | null) {
+  const reason = flags?.pause_reason?.trim() || (flag ? FLAG_REASONS[flag] : "Maintenance flags unavailable");
+  const until = flags?.pause_until ?? null;
+  const retryAfter = until ? Math.ceil((Date.parse(until) - Date.now()) / 1000) : NaN;
+
+  return NextResponse.json(
+    { ok: false, paused: true, flag, reason, until, error: reason },
+    { status: 503, headers: Number.isFinite(retryAfter) && retryAfter > 0 ? { "retry-after": String(retryAfter) } : undefined }
+  );
+}
+
+// null when the route is open; otherwise the 503 to return as is
+export async function maintenanceGate(sb: SupabaseClient, route: GatedRoute): Promise<NextResponse | null> {
+  if (process.env.BYPASS_PAUSE === "1" && BYPASSABLE_ROUTES.has(route)) return null;
+
+  const flags = await maintenanceFlags(sb);
+  if (!flags) return pausedResponse(null, null);
+
+  const closedBy = (["pause_all", ...ROUTE_PAUSE_FLAGS[route]] as PauseFlag[]).find((f) => flags[f] === true);
+  return closedBy ? pausedResponse(closedBy, flags) : null;
+}
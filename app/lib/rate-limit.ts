@@ -0,0 +1,150 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Rate limiting for every route under /api (applied in proxy.ts, before any route opens a DB client).
+// Each request counts against its route budget twice: once per client IP and, when the Scan session
+// cookie carries a validly signed session, once per session id; either one running out answers 429
+// with Retry-After.
+// Counters are fixed windows in a pluggable store, picked by RATE_LIMIT_STORE:
+//   memory   - per process, for dev and tests (default outside production)
+//   supabase - shared table via hit_scan_rate_limit() (default in production)
+// If the store fails, the request is let through: the limiter protects the DB, it must not take
+// the API down with it.
+
+export type RateLimitStore = {
+  // counts one hit on key and returns the total in the current window
+  hit(key: string, windowSeconds: number): Promise<{ count: number; resetAt: number }>;
+};
+
+export type RateLimitRule = {
+  name: string;
+  method?: "GET" | "POST";
+  path: string; // exact path, or a prefix when it ends with "/"
+  limit: number;
+  windowSeconds: number;
+};
+
+export type RateLimitResult =
+  | { limited: false }
+  | { limited: true; rule: RateLimitRule; retryAfterSeconds: number };
+
+// First match wins: specific routes before the catch-alls
+export const RATE_LIMIT_RULES: RateLimitRule[] = [
+  // every call creates a position and derives a deposit address
+  { name: "fund-issue", method: "POST", path: "/api/fund/issue-address", limit: 5, windowSeconds: 600 },
+  // password and login token guessing
+  { name: "fund-admin-login", method: "POST", path: "/api/fund/admin/session", limit: 10, windowSeconds: 600 },
+  { name: "fund-login", method: "POST", path: "/api/fund/session", limit: 10, windowSeconds: 300 },
+  // receipt lookups and log scans burn RPC calls
+  { name: "fund-confirm", method: "POST", path: "/api/fund/confirm", limit: 20, windowSeconds: 60 },
+  { name: "fund-bind", method: "POST", path: "/api/fund/bind", limit: 20, windowSeconds: 60 },
+  { name: "fund-refund", method: "POST", path: "/api/fund/refunds", limit: 10, windowSeconds: 60 },
+  { name: "fund-withdraw", method: "POST", path: "/api/fund/withdrawals", limit: 10, windowSeconds: 60 },
+  { name: "golden-payment", method: "POST", path: "/api/golden-finds/payment", limit: 10, windowSeconds: 60 },
+  { name: "api-post", method: "POST", path: "/api/", limit: 60, windowSeconds: 60 },
+  { name: "api-get", path: "/api/", limit: 120, windowSeconds: 60 },
+];
+
+export function matchRule(method: string, pathname: string, rules = RATE_LIMIT_RULES): RateLimitRule | null {
+  for (const r of rules) {
+    if (r.method && r.method !== method.toUpperCase()) continue;
+    const hit = r.path.endsWith("/") ? pathname.startsWith(r.path) : pathname === r.path || pathname === `${r.path}/`;
+    if (hit) return r;
+  }
+  return null;
+}
+
+export function memoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let nextPrune = 0;
+
+  return {
+    async hit(key, windowSeconds) {
+      const now = Date.now();
+      if (now >= nextPrune) {
+        for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+        nextPrune = now + 60_000;
+      }
+
+      const w = windows.get(key);
+      if (!w || w.resetAt <= now) {
+        const fresh = { count: 1, resetAt: now + windowSeconds * 1000 };
+        windows.set(key, fresh);
+        return { ...fresh };
+      }
+      w.count += 1;
+      return { ...w };
+    },
+  };
+}
+
+export function supabaseStore(sb: SupabaseClient): RateLimitStore {
+  return {
+    async hit(key, windowSeconds) {
+      const { data, error } = await sb.rpc("hit_scan_rate_limit", { p_key: key, p_window_seconds: windowSeconds });
+      if (error) throw error;
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row) throw new Error("hit_scan_rate_limit returned nothing");
+      return { count: Number(row.hits), resetAt: Date.parse(row.reset_at) };
+    },
+  };
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+export function rateLimitStore(): RateLimitStore {
+  if (defaultStore) return defaultStore;
+
+  const kind = process.env.RATE_LIMIT_STORE?.trim() || (process.env.NODE_ENV === "production" ? "supabase" : "memory");
+  if (kind === "memory") {
+    defaultStore = memoryStore();
+  } else if (kind === "supabase") {
+    const url = process.env.SUPABASE_URL?.trim();
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim();
+    if (!url || !key) throw new Error("Missing env: SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+    defaultStore = supabaseStore(createClient(url, key, { auth: { persistSession: false } }));
+  } else {
+    throw new Error(`Bad RATE_LIMIT_STORE: ${kind}`);
+  }
+  return defaultStore;
+}
+
+function trustedHops(): number {
+  const n = Number(process.env.RATE_LIMIT_TRUSTED_HOPS ?? 1);
+  return Number.isInteger(n) && n >= 1 ? n : 1;
+}
+
+// The client address as seen by our own edge, never a value the client picked: on Vercel the
+// platform's x-vercel-forwarded-for; elsewhere the x-forwarded-for entry RATE_LIMIT_TRUSTED_HOPS
+// (default 1) from the right, i.e. the one appended by the trusted proxy. Entries to its left
+// are client-supplied.
+export function clientIp(headers: Headers): string {
+  const platform = process.env.VERCEL ? headers.get("x-vercel-forwarded-for")?.split(",")[0]?.trim() : "";
+  if (platform) return platform;
+
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustedHops()] ?? "unknown";
+}
+
+export async function checkRateLimit(
+  req: { method: string; pathname: string; ip: string; sessionId?: string | null },
+  store: RateLimitStore = rateLimitStore()
+): Promise<RateLimitResult> {
+  const rule = matchRule(req.method, req.pathname);
+  if (!rule) return { limited: false };
+
+  const keys = [`${rule.name}:ip:${req.ip}`];
+  if (req.sessionId) keys.push(`${rule.name}:session:${req.sessionId}`);
+
+  let retryAfterMs = 0;
+  for (const key of keys) {
+    const { count, resetAt } = await store.hit(key, rule.windowSeconds);
+    if (count > rule.limit) retryAfterMs = Math.max(retryAfterMs, resetAt - Date.now());
+  }
+
+  return retryAfterMs > 0
+    ? { limited: true, rule, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) }
+    : { limited: false };
+}
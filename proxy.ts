@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { checkRateLimit, clientIp } from "./app/lib/rate-limit";
+import { fundCaller } from "./app/lib/fund/route-auth";
+import { signedSessionId, USER_COOKIE } from "./app/lib/fund/user-session";
+
+// Runs before every /api route: rate limits per IP and signed Scan session (app/lib/rate-limit.ts).
+// Operators, the cron and HMAC-signed internal calls are not limited.
+export async function proxy(req: NextRequest) {
+  try {
+    // the nonce of a signed call is used by the route, not here
+    if (await fundCaller(req, "internal", { useNonce: false })) return NextResponse.next();
+
+    const result = await checkRateLimit({
+      method: req.method,
+      pathname: req.nextUrl.pathname,
+      ip: clientIp(req.headers),
+      sessionId: signedSessionId(req.cookies.get(USER_COOKIE)?.value),
+    });
+
+    if (result.limited) {
+      return NextResponse.json(
+        { ok: false, error: "Too many requests", retry_after: result.retryAfterSeconds },
+        {
+          status: 429,
+          headers: {
+            "retry-after": String(result.retryAfterSeconds),
+            "x-ratelimit-limit": String(result.rule.limit),
+          },
+        }
+      );
+    }
+  } catch {
+    // store down or misconfigured: fail open
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -0,0 +1,17 @@
+-- Audit trail for fund_positions status transitions (written by app/lib/fund/transition.ts)
+create table if not exists public.fund_position_events (
+  id bigserial primary key,
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  actor_kind text not null check (actor_kind in ('user', 'system', 'operator')),
+  actor_source text not null,
+  actor_id text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fund_position_events_position_idx
+  on public.fund_position_events (position_id, created_at);
+
+alter table public.fund_position_events enable row level security;
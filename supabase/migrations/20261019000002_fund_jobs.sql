@@ -0,0 +1,24 @@
+-- Durable outbox for the confirm -> sweep -> mint pipeline (app/lib/fund/jobs.ts)
+create table if not exists public.fund_jobs (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  kind text not null check (kind in ('sweep', 'mint')),
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'dead')),
+  attempts int not null default 0,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  last_error text,
+  result jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- at most one live job per (position, kind); dead jobs can be re-enqueued
+create unique index if not exists fund_jobs_live_uniq
+  on public.fund_jobs (position_id, kind) where status <> 'dead';
+
+create index if not exists fund_jobs_due_idx on public.fund_jobs (status, run_after);
+create index if not exists fund_jobs_ref_idx on public.fund_jobs (position_ref, created_at);
+
+alter table public.fund_jobs enable row level security;
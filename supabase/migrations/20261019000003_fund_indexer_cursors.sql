@@ -0,0 +1,8 @@
+-- Last processed block per indexer (app/lib/fund/indexer.ts)
+create table if not exists public.fund_indexer_cursors (
+  name text primary key,
+  last_block bigint not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.fund_indexer_cursors enable row level security;
@@ -0,0 +1,7 @@
+-- Block the deposit was mined in, re-checked by app/lib/fund/confirmations.ts for reorgs
+alter table public.fund_positions
+  add column if not exists deposit_block_number bigint,
+  add column if not exists deposit_block_hash text;
+
+create index if not exists fund_positions_confirming_idx
+  on public.fund_positions (status) where status = 'confirming';
@@ -0,0 +1,37 @@
+-- Every USDT transfer into a deposit address (app/lib/fund/deposits.ts)
+create table if not exists public.fund_deposits (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  tx_hash text not null,
+  log_index int not null,
+  from_address text not null,
+  amount_raw numeric(78, 0) not null,
+  amount_usdt numeric not null,
+  block_number bigint not null,
+  block_hash text not null,
+  status text not null default 'pending' check (status in ('pending', 'credited', 'excess')),
+  created_at timestamptz not null default now(),
+  unique (tx_hash, log_index)
+);
+
+create index if not exists fund_deposits_position_idx on public.fund_deposits (position_id, status);
+
+-- Out-of-bounds funds waiting for refund / manual handling
+create table if not exists public.fund_excess (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  deposit_id uuid not null unique references public.fund_deposits(id),
+  tx_hash text not null,
+  from_address text not null,
+  amount_usdt numeric not null,
+  reason text not null check (reason in ('over_max', 'top_up')),
+  status text not null default 'open' check (status in ('open', 'refund_requested', 'resolved')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fund_excess_open_idx on public.fund_excess (status, created_at);
+
+alter table public.fund_deposits enable row level security;
+alter table public.fund_excess enable row level security;
@@ -0,0 +1,37 @@
+-- Refunds of out-of-bounds deposits (app/lib/fund/refunds.ts)
+create table if not exists public.fund_refunds (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  deposit_tx_hash text not null,
+  to_address text not null,
+  tx_from_address text,
+  amount_usdt numeric not null,
+  status text not null default 'requested'
+    check (status in ('requested', 'approved', 'sending', 'sent', 'rejected')),
+  requested_by text,
+  approved_by text,
+  approved_at timestamptz,
+  rejected_reason text,
+  gas_topup_tx_hash text,
+  gas_topup_bnb numeric,
+  refund_tx_hash text,
+  sent_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists fund_refunds_ref_idx on public.fund_refunds (position_ref, created_at);
+create index if not exists fund_refunds_status_idx on public.fund_refunds (status, created_at);
+
+alter table public.fund_excess
+  add column if not exists refund_id uuid references public.fund_refunds(id),
+  drop constraint if exists fund_excess_reason_check,
+  add constraint fund_excess_reason_check check (reason in ('over_max', 'top_up', 'under_min'));
+
+alter table public.fund_positions
+  add column if not exists refund_tx_hash text,
+  add column if not exists refunded_at timestamptz;
+
+alter table public.fund_refunds enable row level security;
@@ -0,0 +1,16 @@
+-- Server-side expiry of unfunded positions (app/lib/fund/expiry.ts)
+alter table public.fund_positions
+  add column if not exists expires_at timestamptz,
+  add column if not exists late_checked_at timestamptz;
+
+-- existing awaiting positions get the default 72h TTL from creation
+update public.fund_positions
+  set expires_at = created_at + interval '72 hours'
+  where status = 'awaiting_funds' and expires_at is null;
+
+create index if not exists fund_positions_expiry_idx
+  on public.fund_positions (expires_at) where status = 'awaiting_funds';
+
+alter table public.fund_excess
+  drop constraint if exists fund_excess_reason_check,
+  add constraint fund_excess_reason_check check (reason in ('over_max', 'top_up', 'under_min', 'late'));
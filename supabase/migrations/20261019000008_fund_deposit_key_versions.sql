@@ -0,0 +1,13 @@
+-- Versioned deposit key envelopes (app/lib/fund/keyring.ts, app/lib/fund/rekey.ts)
+-- key_id mirrors the envelope header so rows still on an old secret can be found without decrypting.
+alter table public.fund_deposit_keys
+  add column if not exists key_id text,
+  add column if not exists rekeyed_at timestamptz;
+
+-- pre-envelope rows were all sealed with FUND_KEY_ENC_SECRET
+update public.fund_deposit_keys
+  set key_id = 'legacy'
+  where key_id is null and enc_privkey not like 'v2.%';
+
+create index if not exists fund_deposit_keys_key_id_idx
+  on public.fund_deposit_keys (key_id);
@@ -0,0 +1,26 @@
+-- HD-derived deposit addresses (app/lib/fund/signers/hd.ts)
+alter table public.fund_positions
+  add column if not exists deposit_index integer;
+
+create unique index if not exists fund_positions_deposit_index_key
+  on public.fund_positions (deposit_index) where deposit_index is not null;
+
+create sequence if not exists public.fund_deposit_index_seq
+  as integer minvalue 0 start with 0;
+
+-- indexes are never reused, even if the position insert that took one fails
+create or replace function public.next_fund_deposit_index()
+returns integer
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  select nextval('public.fund_deposit_index_seq')::integer;
+$$;
+
+revoke all on function public.next_fund_deposit_index() from public, anon, authenticated;
+
+-- recovery re-seals derived keys into fund_deposit_keys (upsert by position)
+create unique index if not exists fund_deposit_keys_position_id_key
+  on public.fund_deposit_keys (position_id);
@@ -0,0 +1,50 @@
+-- Withdrawal / unlock flow for allocated positions (app/lib/fund/withdrawals.ts)
+alter table public.fund_positions
+  add column if not exists lockup_days integer,
+  add column if not exists unlock_at timestamptz,
+  add column if not exists withdraw_requested_at timestamptz,
+  add column if not exists withdraw_tx_hash text,
+  add column if not exists withdrawn_at timestamptz;
+
+-- existing allocated positions get the default 30 day lockup from their sweep
+update public.fund_positions
+  set lockup_days = 30, unlock_at = swept_at + interval '30 days'
+  where swept_at is not null and unlock_at is null;
+
+create table if not exists public.fund_withdrawals (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  terminal_user_id text not null,
+  to_address text not null,
+  usddd_principal numeric not null,
+  usddd_accrued numeric not null,
+  payout_usdt numeric not null,
+  status text not null default 'requested'
+    check (status in ('requested', 'approved', 'settling', 'settled', 'rejected')),
+  approved_by text,
+  approved_at timestamptz,
+  rejected_reason text,
+  gas_topup_tx_hash text,
+  gas_topup_bnb numeric,
+  burn_tx_hash text,
+  burned_at timestamptz,
+  payout_tx_hash text,
+  settled_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- one open withdrawal per position
+create unique index if not exists fund_withdrawals_open_uniq
+  on public.fund_withdrawals (position_id) where status <> 'rejected';
+
+create index if not exists fund_withdrawals_status_idx on public.fund_withdrawals (status, created_at);
+create index if not exists fund_withdrawals_ref_idx on public.fund_withdrawals (position_ref, created_at);
+
+alter table public.fund_jobs
+  drop constraint if exists fund_jobs_kind_check,
+  add constraint fund_jobs_kind_check check (kind in ('sweep', 'mint', 'withdraw'));
+
+alter table public.fund_withdrawals enable row level security;
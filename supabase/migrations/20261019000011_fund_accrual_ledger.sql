@@ -0,0 +1,37 @@
+-- Server-side accrual ledger (app/lib/fund/accrual-ledger.ts)
+create table if not exists public.fund_accrual_rates (
+  day date primary key,
+  applied_pct numeric not null,
+  floor_pct numeric,
+  cap_pct numeric,
+  source text not null,
+  captured_at timestamptz not null default now()
+);
+
+create table if not exists public.fund_accruals (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  accrual_date date not null references public.fund_accrual_rates(day),
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  principal_usddd numeric not null,
+  rate_pct numeric not null,
+  amount_usddd numeric not null,
+  created_at timestamptz not null default now(),
+  check (period_end > period_start)
+);
+
+-- a period is booked once; a day can hold several periods (e.g. around a rejected withdrawal)
+create unique index if not exists fund_accruals_period_uniq on public.fund_accruals (position_id, period_start);
+create index if not exists fund_accruals_position_idx on public.fund_accruals (position_id, period_start desc);
+
+alter table public.fund_positions
+  add column if not exists usddd_accrued numeric not null default 0,
+  add column if not exists accrued_through timestamptz;
+
+create index if not exists fund_positions_accrual_idx
+  on public.fund_positions (accrued_through) where usddd_accrual_started_at is not null;
+
+alter table public.fund_accrual_rates enable row level security;
+alter table public.fund_accruals enable row level security;
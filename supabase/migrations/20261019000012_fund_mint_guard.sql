@@ -0,0 +1,34 @@
+-- Mint safety rails: caps, two-operator approval and sweep cross-check (app/lib/fund/mint-guard.ts)
+create table if not exists public.fund_mints (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  amount_usddd numeric not null,
+  status text not null default 'authorized'
+    check (status in ('pending_approval', 'authorized', 'minted', 'rejected')),
+  first_approved_by text,
+  first_approved_at timestamptz,
+  second_approved_by text,
+  second_approved_at timestamptz,
+  rejected_by text,
+  rejected_reason text,
+  sweep_verified_at timestamptz,
+  mint_tx_hash text,
+  minted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint fund_mints_distinct_approvers check (second_approved_by is null or second_approved_by <> first_approved_by)
+);
+
+create unique index if not exists fund_mints_position_uniq on public.fund_mints (position_id);
+create index if not exists fund_mints_status_idx on public.fund_mints (status, created_at);
+create index if not exists fund_mints_minted_at_idx on public.fund_mints (minted_at) where status = 'minted';
+
+-- already minted positions count towards the rolling 24h cap
+insert into public.fund_mints (position_id, position_ref, amount_usddd, status, mint_tx_hash, minted_at)
+  select id, position_ref, funded_usdt, 'minted', usddd_mint_tx_hash, usddd_minted_at
+  from public.fund_positions
+  where usddd_mint_tx_hash is not null
+on conflict do nothing;
+
+alter table public.fund_mints enable row level security;
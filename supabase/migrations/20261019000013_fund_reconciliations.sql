@@ -0,0 +1,32 @@
+-- USDDD supply reconciliation audit trail (app/lib/fund/reconcile.ts)
+create table if not exists public.fund_reconciliations (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null,
+  mode text not null check (mode in ('dry_run', 'execute')),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  deposit_address text not null,
+  balance_raw numeric not null,
+  expected_raw numeric not null,
+  drift_raw numeric not null,
+  drift_usddd numeric not null,
+  direction text not null check (direction in ('excess', 'shortfall')),
+  action text not null default 'none' check (action in ('none', 'burn', 'top_up')),
+  status text not null default 'reported'
+    check (status in ('reported', 'submitted', 'executed', 'failed', 'skipped')),
+  tx_hash text,
+  gas_topup_tx_hash text,
+  error text,
+  actor_kind text not null,
+  actor_source text not null,
+  actor_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists fund_reconciliations_run_idx on public.fund_reconciliations (run_id);
+create index if not exists fund_reconciliations_ref_idx on public.fund_reconciliations (position_ref, created_at);
+create index if not exists fund_reconciliations_submitted_idx
+  on public.fund_reconciliations (position_id) where status = 'submitted';
+
+alter table public.fund_reconciliations enable row level security;
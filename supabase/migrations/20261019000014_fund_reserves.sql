@@ -0,0 +1,31 @@
+-- Proof of reserves: published snapshots + liability Merkle leaves (app/lib/fund/reserves.ts)
+create table if not exists public.fund_reserve_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  merkle_root text not null,
+  leaf_count integer not null,
+  block_number numeric not null,
+  treasury_usdt numeric not null,
+  usddd_total_supply numeric not null,
+  liabilities_usdt numeric not null,
+  report jsonb not null,
+  published_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fund_reserve_snapshots_published_idx
+  on public.fund_reserve_snapshots (created_at desc) where published_at is not null;
+
+create table if not exists public.fund_reserve_leaves (
+  snapshot_id uuid not null references public.fund_reserve_snapshots(id) on delete cascade,
+  leaf_index integer not null,
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  liability_raw text not null, -- 6 decimals, exact
+  leaf text not null,
+  primary key (snapshot_id, leaf_index)
+);
+
+create index if not exists fund_reserve_leaves_ref_idx on public.fund_reserve_leaves (snapshot_id, position_ref);
+
+alter table public.fund_reserve_snapshots enable row level security;
+alter table public.fund_reserve_leaves enable row level security;
@@ -0,0 +1,43 @@
+-- BNB gas ledger + dust recovery (app/lib/fund/gas-ledger.ts)
+create table if not exists public.fund_gas_ledger (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid not null references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  kind text not null check (kind in ('topup', 'fee', 'dust_return')),
+  purpose text not null check (purpose in ('sweep', 'refund', 'withdraw', 'reconcile', 'dust')),
+  tx_hash text not null,
+  value_wei text not null default '0', -- exact wei
+  fee_wei text not null default '0',
+  value_bnb numeric not null default 0,
+  fee_bnb numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists fund_gas_ledger_tx_kind_uniq on public.fund_gas_ledger (tx_hash, kind);
+create index if not exists fund_gas_ledger_ref_idx on public.fund_gas_ledger (position_ref, created_at);
+
+alter table public.fund_positions
+  add column if not exists gas_dust_checked_at timestamptz;
+
+create index if not exists fund_positions_gas_dust_idx on public.fund_positions (gas_dust_checked_at nulls first);
+
+-- existing top-ups (value only; their tx fees were never recorded)
+insert into public.fund_gas_ledger (position_id, position_ref, kind, purpose, tx_hash, value_wei, value_bnb, created_at)
+  select id, position_ref, 'topup', 'sweep', gas_topup_tx_hash, round(gas_topup_bnb * 1e18)::text, gas_topup_bnb, coalesce(gas_topup_at, now())
+  from public.fund_positions
+  where gas_topup_tx_hash is not null and gas_topup_bnb is not null
+on conflict do nothing;
+
+insert into public.fund_gas_ledger (position_id, position_ref, kind, purpose, tx_hash, value_wei, value_bnb, created_at)
+  select r.position_id, r.position_ref, 'topup', 'refund', r.gas_topup_tx_hash, round(r.gas_topup_bnb * 1e18)::text, r.gas_topup_bnb, r.created_at
+  from public.fund_refunds r
+  where r.gas_topup_tx_hash is not null and r.gas_topup_bnb is not null
+on conflict do nothing;
+
+insert into public.fund_gas_ledger (position_id, position_ref, kind, purpose, tx_hash, value_wei, value_bnb, created_at)
+  select w.position_id, w.position_ref, 'topup', 'withdraw', w.gas_topup_tx_hash, round(w.gas_topup_bnb * 1e18)::text, w.gas_topup_bnb, w.created_at
+  from public.fund_withdrawals w
+  where w.gas_topup_tx_hash is not null and w.gas_topup_bnb is not null
+on conflict do nothing;
+
+alter table public.fund_gas_ledger enable row level security;
@@ -0,0 +1,100 @@
+-- Ops wallet nonce manager + stuck tx replacement (app/lib/fund/ops-tx.ts)
+create table if not exists public.fund_ops_txs (
+  id uuid primary key default gen_random_uuid(),
+  role text not null check (role in ('minter', 'treasury', 'gas', 'payout')),
+  address text not null,
+  chain_id integer,
+  nonce bigint not null,
+  to_address text,
+  data text,
+  value_wei text not null default '0',
+  gas text,
+  gas_price_wei text,
+  tx_hash text,
+  status text not null default 'signing'
+    check (status in ('signing', 'pending', 'cancelling', 'mined', 'cancelled', 'failed')),
+  bumps integer not null default 0,
+  position_id uuid references public.fund_positions(id) on delete set null,
+  position_ref text,
+  purpose text not null,
+  error text,
+  last_sent_at timestamptz,
+  mined_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- one live tx per (address, nonce); failed rows free their nonce
+create unique index if not exists fund_ops_txs_live_nonce_uniq
+  on public.fund_ops_txs (address, nonce) where status <> 'failed';
+create index if not exists fund_ops_txs_pending_idx
+  on public.fund_ops_txs (last_sent_at) where status in ('pending', 'cancelling');
+create index if not exists fund_ops_txs_hash_idx on public.fund_ops_txs (tx_hash);
+create index if not exists fund_ops_txs_ref_idx on public.fund_ops_txs (position_ref, created_at);
+
+create table if not exists public.fund_ops_tx_replacements (
+  id uuid primary key default gen_random_uuid(),
+  ops_tx_id uuid not null references public.fund_ops_txs(id) on delete cascade,
+  position_id uuid references public.fund_positions(id) on delete set null,
+  position_ref text,
+  kind text not null check (kind in ('speed_up', 'cancel')),
+  old_tx_hash text not null,
+  new_tx_hash text not null,
+  old_gas_price_wei text not null,
+  new_gas_price_wei text not null,
+  actor text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fund_ops_tx_replacements_tx_idx on public.fund_ops_tx_replacements (ops_tx_id, created_at);
+create index if not exists fund_ops_tx_replacements_old_idx on public.fund_ops_tx_replacements (old_tx_hash);
+
+-- Serialized per address (advisory lock). Reuses the lowest nonce freed by a failed send
+-- (otherwise later txs would queue behind the gap), else max(live nonce) + 1, never below
+-- the chain's pending nonce. Inserts the "signing" row so the nonce is held until signed.
+create or replace function public.claim_fund_ops_nonce(
+  p_address text,
+  p_chain_nonce bigint,
+  p_role text,
+  p_purpose text,
+  p_position_id uuid,
+  p_position_ref text
+)
+returns table (id uuid, nonce bigint)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  n bigint;
+begin
+  perform pg_advisory_xact_lock(hashtext('fund_ops_nonce:' || lower(p_address)));
+
+  select min(f.nonce) into n
+  from public.fund_ops_txs f
+  where f.address = lower(p_address)
+    and f.status = 'failed'
+    and f.nonce >= p_chain_nonce
+    and not exists (
+      select 1 from public.fund_ops_txs a
+      where a.address = f.address and a.nonce = f.nonce and a.status <> 'failed'
+    );
+
+  if n is null then
+    select greatest(p_chain_nonce, coalesce(max(t.nonce) + 1, 0)) into n
+    from public.fund_ops_txs t
+    where t.address = lower(p_address) and t.status in ('signing', 'pending', 'cancelling');
+  end if;
+
+  return query
+    insert into public.fund_ops_txs as o (role, address, nonce, purpose, position_id, position_ref, status)
+    values (p_role, lower(p_address), n, p_purpose, p_position_id, p_position_ref, 'signing')
+    returning o.id, o.nonce;
+end;
+$$;
+
+revoke all on function public.claim_fund_ops_nonce(text, bigint, text, text, uuid, text) from public, anon, authenticated;
+
+alter table public.fund_ops_txs enable row level security;
+alter table public.fund_ops_tx_replacements enable row level security;
@@ -0,0 +1,78 @@
+-- Multi-chain / multi-token positions (app/lib/fund/chains.ts)
+alter table public.fund_positions
+  add column if not exists chain text,
+  add column if not exists token text;
+
+update public.fund_positions set chain = 'bsc' where chain is null;
+update public.fund_positions set token = 'usdt' where token is null;
+
+alter table public.fund_positions
+  alter column chain set default 'bsc',
+  alter column chain set not null,
+  alter column token set default 'usdt',
+  alter column token set not null;
+
+-- the deposit indexer loads watched positions per chain/token
+create index if not exists fund_positions_chain_token_status_idx on public.fund_positions (chain, token, status);
+
+-- gas is paid in each chain's native coin; the report is per chain
+alter table public.fund_gas_ledger
+  add column if not exists chain text not null default 'bsc';
+
+create index if not exists fund_gas_ledger_chain_idx on public.fund_gas_ledger (chain, created_at);
+
+-- Ops wallets share one address across chains but every chain has its own nonce sequence
+drop index if exists public.fund_ops_txs_live_nonce_uniq;
+create unique index if not exists fund_ops_txs_live_nonce_uniq
+  on public.fund_ops_txs (chain_id, address, nonce) where status <> 'failed';
+
+drop function if exists public.claim_fund_ops_nonce(text, bigint, text, text, uuid, text);
+
+-- Same policy as before (20261019000016), serialized and numbered per (chain_id, address)
+create or replace function public.claim_fund_ops_nonce(
+  p_chain_id integer,
+  p_address text,
+  p_chain_nonce bigint,
+  p_role text,
+  p_purpose text,
+  p_position_id uuid,
+  p_position_ref text
+)
+returns table (id uuid, nonce bigint)
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  n bigint;
+begin
+  perform pg_advisory_xact_lock(hashtext('fund_ops_nonce:' || p_chain_id || ':' || lower(p_address)));
+
+  select min(f.nonce) into n
+  from public.fund_ops_txs f
+  where f.chain_id = p_chain_id
+    and f.address = lower(p_address)
+    and f.status = 'failed'
+    and f.nonce >= p_chain_nonce
+    and not exists (
+      select 1 from public.fund_ops_txs a
+      where a.chain_id = f.chain_id and a.address = f.address and a.nonce = f.nonce and a.status <> 'failed'
+    );
+
+  if n is null then
+    select greatest(p_chain_nonce, coalesce(max(t.nonce) + 1, 0)) into n
+    from public.fund_ops_txs t
+    where t.chain_id = p_chain_id
+      and t.address = lower(p_address)
+      and t.status in ('signing', 'pending', 'cancelling');
+  end if;
+
+  return query
+    insert into public.fund_ops_txs as o (role, address, chain_id, nonce, purpose, position_id, position_ref, status)
+    values (p_role, lower(p_address), p_chain_id, n, p_purpose, p_position_id, p_position_ref, 'signing')
+    returning o.id, o.nonce;
+end;
+$$;
+
+revoke all on function public.claim_fund_ops_nonce(integer, text, bigint, text, text, uuid, text) from public, anon, authenticated;
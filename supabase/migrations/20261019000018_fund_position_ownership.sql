@@ -0,0 +1,25 @@
+-- Ownership proof for binding positions to a terminal user (app/lib/fund/ownership.ts)
+-- sha256 of the one-time claim secret returned by issue-address; null on positions issued before it
+alter table public.fund_positions
+  add column if not exists claim_secret_hash text,
+  add column if not exists bound_at timestamptz;
+
+-- every bind attempt, including refused rebinds and failed proofs
+create table if not exists public.fund_bind_attempts (
+  id uuid primary key default gen_random_uuid(),
+  position_id uuid references public.fund_positions(id) on delete cascade,
+  position_ref text not null,
+  terminal_user_id text not null,
+  bound_user_id text, -- owner at the time of the attempt
+  proof text not null check (proof in ('claim_secret', 'wallet', 'none')),
+  signer_address text,
+  outcome text not null check (outcome in ('bound', 'already_bound', 'refused')),
+  reason text,
+  source text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fund_bind_attempts_ref_idx on public.fund_bind_attempts (position_ref, created_at);
+create index if not exists fund_bind_attempts_refused_idx on public.fund_bind_attempts (created_at) where outcome = 'refused';
+
+alter table public.fund_bind_attempts enable row level security;
@@ -0,0 +1,19 @@
+-- Scan user sessions (app/lib/fund/user-session.ts): the httpOnly cookie carries a signed token
+-- naming one of these rows; revoking the row ends the session before the token expires.
+create table if not exists public.fund_user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  terminal_user_id text not null,
+  username text,
+  via text not null check (via in ('terminal_token', 'session_id')),
+  login_jti text, -- terminal login token id, each one logs in once
+  user_agent text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  revoked_reason text
+);
+
+create unique index if not exists fund_user_sessions_jti_uniq on public.fund_user_sessions (login_jti) where login_jti is not null;
+create index if not exists fund_user_sessions_user_idx on public.fund_user_sessions (terminal_user_id) where revoked_at is null;
+
+alter table public.fund_user_sessions enable row level security;
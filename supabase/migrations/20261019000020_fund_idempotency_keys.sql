@@ -0,0 +1,22 @@
+-- Idempotency-Key replay store for POST routes under /api/fund (app/lib/fund/idempotency.ts).
+-- One row per (route, key): "pending" while the first request runs, then "done" with the stored
+-- response, replayed verbatim until expires_at. Expired rows are replaced on reuse and purged by
+-- the jobs worker.
+create table if not exists public.fund_idempotency_keys (
+  id uuid primary key default gen_random_uuid(),
+  route text not null,
+  idempotency_key text not null,
+  request_hash text not null, -- sha256 of method, path + query and body; a different request with the same key is refused
+  status text not null default 'pending' check (status in ('pending', 'done')),
+  response_status int,
+  response_headers jsonb,
+  response_body text,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz,
+  expires_at timestamptz not null
+);
+
+create unique index if not exists fund_idempotency_keys_uniq on public.fund_idempotency_keys (route, idempotency_key);
+create index if not exists fund_idempotency_keys_expires_idx on public.fund_idempotency_keys (expires_at);
+
+alter table public.fund_idempotency_keys enable row level security;
@@ -0,0 +1,49 @@
+-- Shared fixed-window counters for the API rate limiter (app/lib/rate-limit.ts, store "supabase").
+-- One row per limiter key (route budget + IP or session); the window restarts once expires_at passes.
+create table if not exists public.scan_rate_limits (
+  key text primary key,
+  hits integer not null default 0,
+  window_start timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists scan_rate_limits_expires_idx on public.scan_rate_limits (expires_at);
+
+alter table public.scan_rate_limits enable row level security;
+
+-- counts one hit atomically and returns the window's total and reset time
+create or replace function public.hit_scan_rate_limit(p_key text, p_window_seconds integer)
+returns table (hits integer, reset_at timestamptz)
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  insert into public.scan_rate_limits as r (key, hits, window_start, expires_at)
+  values (p_key, 1, now(), now() + make_interval(secs => p_window_seconds))
+  on conflict (key) do update set
+    hits = case when r.expires_at <= now() then 1 else r.hits + 1 end,
+    window_start = case when r.expires_at <= now() then now() else r.window_start end,
+    expires_at = case when r.expires_at <= now() then now() + make_interval(secs => p_window_seconds) else r.expires_at end
+  returning r.hits, r.expires_at;
+$$;
+
+revoke all on function public.hit_scan_rate_limit(text, integer) from public, anon, authenticated;
+
+-- expired windows are dead weight; dropped in batches by the jobs worker
+create or replace function public.purge_scan_rate_limits(p_limit integer default 1000)
+returns integer
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  with gone as (
+    delete from public.scan_rate_limits
+    where key in (select key from public.scan_rate_limits where expires_at < now() limit p_limit)
+    returning 1
+  )
+  select count(*)::integer from gone;
+$$;
+
+revoke all on function public.purge_scan_rate_limits(integer) from public, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Ops txs whose nonce was consumed but none of whose hashes has a receipt (app/lib/fund/ops-tx.ts):
+-- parked for an operator instead of "failed", so nothing re-sends a tx that may have mined.
+alter table public.fund_ops_txs
+  drop constraint if exists fund_ops_txs_status_check,
+  add constraint fund_ops_txs_status_check
+    check (status in ('signing', 'pending', 'cancelling', 'review', 'mined', 'cancelled', 'failed'));
@@ -0,0 +1,8 @@
+-- Idempotency keys are scoped by the resolved caller (app/lib/fund/idempotency.ts): operator /
+-- internal id, Scan session id, or 'public'. Rows stored before the scope count as 'public'.
+alter table public.fund_idempotency_keys
+  add column if not exists caller text not null default 'public';
+
+drop index if exists public.fund_idempotency_keys_uniq;
+create unique index if not exists fund_idempotency_keys_uniq
+  on public.fund_idempotency_keys (route, caller, idempotency_key);
@@ -0,0 +1,4 @@
+-- Sweep tx hash recorded right after broadcast (app/lib/fund/sweep.ts): a retried sweep job
+-- follows it instead of sending a second transfer. Cleared when the position reaches swept_locked.
+alter table public.fund_positions
+  add column if not exists sweep_pending_tx_hash text;
@@ -0,0 +1,6 @@
+-- Rotation cursor for USDDD supply reconciliation (app/lib/fund/reconcile.ts): execute runs take
+-- the least recently reconciled positions first, so every allocated position is covered over time.
+alter table public.fund_positions
+  add column if not exists reconciled_at timestamptz;
+
+create index if not exists fund_positions_reconciled_idx on public.fund_positions (reconciled_at nulls first);
@@ -0,0 +1,18 @@
+-- Proof of reserves (app/lib/fund/reserves.ts): each leaf stores its Merkle proof at publish time,
+-- so GET ?ref= reads one row instead of rebuilding the tree. Drifted position refs are for
+-- operators only and move out of the public report into their own column.
+alter table public.fund_reserve_leaves
+  add column if not exists proof jsonb; -- sibling hashes, leaf to root; null on leaves published before this
+
+alter table public.fund_reserve_snapshots
+  add column if not exists drifted_positions text[] not null default '{}';
+
+update public.fund_reserve_snapshots
+set
+  drifted_positions = array(select jsonb_array_elements_text(report->'checks'->'drifted_positions')),
+  report = jsonb_set(
+    report #- '{checks,drifted_positions}',
+    '{checks,drifted_count}',
+    to_jsonb(jsonb_array_length(report->'checks'->'drifted_positions'))
+  )
+where jsonb_typeof(report->'checks'->'drifted_positions') = 'array';
@@ -0,0 +1,5 @@
+-- Stored issue-address responses carry the position's plaintext claim_secret; those responses are
+-- no longer stored (app/lib/fund/idempotency.ts skips Cache-Control: no-store), drop the ones kept so far.
+delete from public.fund_idempotency_keys
+where route = '/api/fund/issue-address'
+  and status = 'done';
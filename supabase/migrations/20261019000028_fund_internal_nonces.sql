@@ -0,0 +1,47 @@
+-- Replay guard for HMAC-signed internal calls (app/lib/fund/route-auth.ts): every signed request
+-- carries a nonce, used once. Rows are kept until the request's timestamp leaves the skew window.
+create table if not exists public.fund_internal_nonces (
+  nonce text primary key,
+  expires_at timestamptz not null
+);
+
+create index if not exists fund_internal_nonces_expires_idx on public.fund_internal_nonces (expires_at);
+
+alter table public.fund_internal_nonces enable row level security;
+
+-- true the first time a nonce is seen, false for a replay
+create or replace function public.use_fund_internal_nonce(p_nonce text, p_expires_at timestamptz)
+returns boolean
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  with used as (
+    insert into public.fund_internal_nonces (nonce, expires_at)
+    values (p_nonce, p_expires_at)
+    on conflict (nonce) do nothing
+    returning 1
+  )
+  select exists (select 1 from used);
+$$;
+
+revoke all on function public.use_fund_internal_nonce(text, timestamptz) from public, anon, authenticated;
+
+-- nonces past the skew window can no longer be replayed; dropped in batches by the jobs worker
+create or replace function public.purge_fund_internal_nonces(p_limit integer default 1000)
+returns integer
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  with gone as (
+    delete from public.fund_internal_nonces
+    where nonce in (select nonce from public.fund_internal_nonces where expires_at < now() limit p_limit)
+    returning 1
+  )
+  select count(*)::integer from gone;
+$$;
+
+revoke all on function public.purge_fund_internal_nonces(integer) from public, anon, authenticated;